@@ -1,23 +1,46 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "wouter";
 import ThemeToggle from "@/components/ThemeToggle";
-import { Monitor, Database, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Monitor, Database, MessageSquare, Users, LogOut, ClipboardCheck, Settings } from "lucide-react";
 import HomePage from "@/pages/home";
 import SearchPage from "@/pages/search";
+import AssessmentDetailPage from "@/pages/assessment-detail";
+import AuthPage from "@/pages/auth-page";
+import UsersPage from "@/pages/users";
+import ReviewPage from "@/pages/review";
+import SettingsPage from "@/pages/settings";
 import NotFound from "@/pages/not-found";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import { cn } from "@/lib/utils";
+import type { ReviewCounts } from "@shared/schema";
 
 function Navigation() {
   const [location] = useLocation();
+  const { user, hasRole, logoutMutation } = useAuth();
+  const isReviewer = hasRole("supervisor", "admin");
+
+  // Poll so the badge picks up assessments flagged by other users' uploads
+  const { data: reviewCounts } = useQuery<ReviewCounts>({
+    queryKey: ["/api/review/counts"],
+    enabled: isReviewer,
+    refetchInterval: 30_000
+  });
   
-  const navItems = [
+  const navItems: { path: string; label: string; icon: typeof Monitor; count?: number }[] = [
     { path: "/", label: "AI Assistant", icon: MessageSquare },
-    { path: "/search", label: "Records", icon: Database }
+    { path: "/search", label: "Records", icon: Database },
+    ...(isReviewer ? [{ path: "/review", label: "Review", icon: ClipboardCheck, count: reviewCounts?.pending }] : []),
+    ...(hasRole("admin") ? [
+      { path: "/users", label: "Users", icon: Users },
+      { path: "/settings", label: "Settings", icon: Settings }
+    ] : [])
   ];
 
   return (
@@ -31,30 +54,57 @@ function Navigation() {
           </Link>
 
           {/* Navigation Links */}
-          <div className="flex items-center gap-1">
-            {navItems.map(item => {
-              const Icon = item.icon;
-              const isActive = location === item.path || (item.path !== "/" && location.startsWith(item.path));
+          {user && (
+            <div className="flex items-center gap-1">
+              {navItems.map(item => {
+                const Icon = item.icon;
+                const isActive = location === item.path || (item.path !== "/" && location.startsWith(item.path));
               
-              return (
+                return (
+                  <Button
+                    key={item.path}
+                    variant={isActive ? "default" : "ghost"}
+                    size="sm"
+                    asChild
+                    data-testid={`nav-${item.label.toLowerCase()}`}
+                  >
+                    <Link href={item.path} className="flex items-center gap-2">
+                      <Icon className="h-4 w-4" />
+                      {item.label}
+                      {!!item.count && (
+                        <Badge variant="secondary" className="h-5 px-1.5 text-xs" data-testid={`nav-${item.label.toLowerCase()}-count`}>
+                          {item.count}
+                        </Badge>
+                      )}
+                    </Link>
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Account and Theme Toggle */}
+          <div className="flex items-center gap-2">
+            {user && (
+              <>
+                <span className="text-sm hidden md:inline" data-testid="current-user">{user.username}</span>
+                <Badge variant="outline" className="text-xs capitalize hidden md:inline-flex" data-testid="current-user-role">
+                  {user.role}
+                </Badge>
                 <Button
-                  key={item.path}
-                  variant={isActive ? "default" : "ghost"}
-                  size="sm"
-                  asChild
-                  data-testid={`nav-${item.label.toLowerCase()}`}
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title="Sign out"
+                  data-testid="logout-button"
                 >
-                  <Link href={item.path} className="flex items-center gap-2">
-                    <Icon className="h-4 w-4" />
-                    {item.label}
-                  </Link>
+                  <LogOut className="h-4 w-4" />
                 </Button>
-              );
-            })}
+              </>
+            )}
+            <ThemeToggle />
           </div>
-
-          {/* Theme Toggle */}
-          <ThemeToggle />
         </div>
       </div>
     </nav>
@@ -64,8 +114,13 @@ function Navigation() {
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={HomePage} />
-      <Route path="/search" component={SearchPage} />
+      <ProtectedRoute path="/" component={HomePage} />
+      <ProtectedRoute path="/search" component={SearchPage} />
+      <ProtectedRoute path="/assessments/:id" component={AssessmentDetailPage} />
+      <ProtectedRoute path="/review" component={ReviewPage} roles={["supervisor", "admin"]} />
+      <ProtectedRoute path="/users" component={UsersPage} roles={["admin"]} />
+      <ProtectedRoute path="/settings" component={SettingsPage} roles={["admin"]} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -74,15 +129,17 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <div className="min-h-screen bg-background text-foreground">
-          <Navigation />
-          <main>
-            <Router />
-          </main>
-        </div>
-        <Toaster />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <div className="min-h-screen bg-background text-foreground">
+            <Navigation />
+            <main>
+              <Router />
+            </main>
+          </div>
+          <Toaster />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
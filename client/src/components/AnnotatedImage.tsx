@@ -0,0 +1,74 @@
+import type { FindingBoundingBox } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+export interface ImageAnnotation {
+  key: string; // Shared with the finding row so hovering either highlights both
+  label: string; // Number shown on the box, matching the finding list
+  severity: "Low" | "Medium" | "High";
+  box: FindingBoundingBox;
+}
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  annotations: ImageAnnotation[];
+  activeKey?: string | null;
+  onHover?: (key: string | null) => void;
+  className?: string;
+  "data-testid"?: string;
+}
+
+const severityStyles = {
+  High: { box: "border-chart-3", label: "bg-chart-3 text-white" },
+  Medium: { box: "border-chart-2", label: "bg-chart-2 text-black" },
+  Low: { box: "border-chart-1", label: "bg-chart-1 text-white" }
+};
+
+// Photo with each finding's box drawn over it; boxes are fractions of the image, so they follow any display size
+export default function AnnotatedImage({
+  src,
+  alt,
+  annotations,
+  activeKey,
+  onHover,
+  className,
+  "data-testid": testId
+}: AnnotatedImageProps) {
+  return (
+    <div className={cn("relative bg-muted rounded-lg overflow-hidden", className)} data-testid={testId}>
+      <img src={src} alt={alt} className="block w-full h-auto" />
+      {annotations.map(annotation => {
+        const styles = severityStyles[annotation.severity];
+        const active = activeKey === annotation.key;
+        return (
+          <div
+            key={annotation.key}
+            className={cn(
+              "absolute border-2 rounded-sm transition-shadow",
+              styles.box,
+              active ? "z-10 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" : "opacity-80"
+            )}
+            style={{
+              left: `${annotation.box.x * 100}%`,
+              top: `${annotation.box.y * 100}%`,
+              width: `${annotation.box.width * 100}%`,
+              height: `${annotation.box.height * 100}%`
+            }}
+            onMouseEnter={() => onHover?.(annotation.key)}
+            onMouseLeave={() => onHover?.(null)}
+            data-testid={`finding-box-${annotation.key}`}
+          >
+            <span
+              className={cn(
+                "absolute -top-px -left-px px-1 text-[10px] font-semibold leading-4 rounded-br-sm",
+                styles.label
+              )}
+            >
+              {annotation.label}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
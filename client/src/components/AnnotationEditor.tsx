@@ -0,0 +1,479 @@
+import { useRef, useState, type PointerEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, MousePointer2, SquareDashed, Trash2, Undo2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  findingCategories,
+  findingSeverities,
+  type AnnotationRegion,
+  type AssessmentAnnotation,
+  type CreateAnnotationRequest,
+  type FindingCategory,
+  type FindingSeverity,
+  type UpdateAnnotationRequest
+} from "@shared/schema";
+import type { AnnotatedFinding, DamageSummary } from "@shared/annotations";
+
+// Annotation as returned by GET /api/assessments/:id (dates arrive as ISO strings)
+export type AnnotationEntry = Omit<AssessmentAnnotation, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface AnnotatableImage {
+  imageIndex: number;
+  url: string;
+  label: string;
+}
+
+interface AnnotationEditorProps {
+  assessmentId: string;
+  images: AnnotatableImage[];
+  findings: AnnotatedFinding[]; // The model's findings with the annotations applied
+  annotations: AnnotationEntry[];
+  damageSummary: DamageSummary;
+  className?: string;
+}
+
+interface FindingForm {
+  category: FindingCategory;
+  severity: FindingSeverity;
+  description: string;
+}
+
+// Region being drawn or dragged; replaces the saved box on screen until the change is saved
+interface Draft {
+  key: string | null; // Finding being moved, or null for a new region
+  imageIndex: number;
+  region: AnnotationRegion;
+}
+
+const severityBorders: Record<FindingSeverity, string> = {
+  High: "border-chart-3",
+  Medium: "border-chart-2",
+  Low: "border-chart-1"
+};
+
+// Regions smaller than this (as a share of the image) are treated as a click, not a drawing
+const MIN_REGION_SIZE = 0.01;
+
+const emptyForm: FindingForm = { category: "Overall Structure", severity: "Low", description: "" };
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+function sourceLabel(finding: AnnotatedFinding): string {
+  if (finding.source === "ai") return "AI";
+  return isAddedRegion(finding) ? "Added" : "Corrected";
+}
+
+// Regions drawn by a grader, as opposed to AI findings (corrected or not)
+function isAddedRegion(finding: AnnotatedFinding): boolean {
+  return finding.key === `annotation-${finding.annotationId}`;
+}
+
+export default function AnnotationEditor({ assessmentId, images, findings, annotations, damageSummary, className }: AnnotationEditorProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"select" | "draw">("select");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [newRegion, setNewRegion] = useState<{ imageIndex: number; region: AnnotationRegion } | null>(null);
+  const [form, setForm] = useState<FindingForm>(emptyForm);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const drag = useRef<{ start: { x: number; y: number }; origin?: AnnotationRegion; moved: boolean } | null>(null);
+
+  const selected = findings.find(finding => finding.key === selectedKey) || null;
+  const removed = annotations.filter(annotation => annotation.kind === "removed");
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ finding, changes }: { finding: AnnotatedFinding | null; changes: UpdateAnnotationRequest & { imageIndex?: number } }) => {
+      if (!finding) {
+        const body: CreateAnnotationRequest = { kind: "added", ...changes };
+        return await apiRequest("POST", `/api/assessments/${assessmentId}/annotations`, body);
+      }
+      if (isAddedRegion(finding)) {
+        return await apiRequest("PATCH", `/api/assessments/${assessmentId}/annotations/${finding.annotationId}`, changes);
+      }
+      const body: CreateAnnotationRequest = { kind: "corrected", aiFindingKey: finding.key, ...changes };
+      return await apiRequest("POST", `/api/assessments/${assessmentId}/annotations`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", assessmentId] });
+      setNewRegion(null);
+      setDraft(null);
+    },
+    onError: (error: Error) => {
+      setDraft(null);
+      toast({ title: "Could not save the region", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  // Deleting an AI finding records a removal; deleting a grader's own region or a removal undoes it
+  const deleteMutation = useMutation({
+    mutationFn: async (target: { finding: AnnotatedFinding } | { annotationId: string }) => {
+      if ("annotationId" in target) {
+        return await apiRequest("DELETE", `/api/assessments/${assessmentId}/annotations/${target.annotationId}`);
+      }
+      if (isAddedRegion(target.finding)) {
+        return await apiRequest("DELETE", `/api/assessments/${assessmentId}/annotations/${target.finding.annotationId}`);
+      }
+      const body: CreateAnnotationRequest = { kind: "removed", aiFindingKey: target.finding.key };
+      return await apiRequest("POST", `/api/assessments/${assessmentId}/annotations`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", assessmentId] });
+      setSelectedKey(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete the region", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const select = (finding: AnnotatedFinding | null) => {
+    setNewRegion(null);
+    setSelectedKey(finding?.key ?? null);
+    // Older AI findings may use a category outside the vocabulary; the grader has to pick one before saving
+    setForm(finding
+      ? { category: finding.category as FindingCategory, severity: finding.severity, description: finding.description }
+      : emptyForm);
+  };
+
+  const pointerPosition = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (imageIndex: number, event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || saveMutation.isPending) return;
+    const start = pointerPosition(event);
+    const hit = findings.find(finding => {
+      const box = finding.boundingBox;
+      return box?.imageIndex === imageIndex &&
+        start.x >= box.x && start.x <= box.x + box.width && start.y >= box.y && start.y <= box.y + box.height;
+    });
+
+    if (mode === "draw") {
+      setNewRegion(null);
+      drag.current = { start, moved: false };
+      setDraft({ key: null, imageIndex, region: { x: start.x, y: start.y, width: 0, height: 0 } });
+    } else if (hit?.boundingBox) {
+      select(hit);
+      const { x, y, width, height } = hit.boundingBox;
+      drag.current = { start, origin: { x, y, width, height }, moved: false };
+      setDraft({ key: hit.key, imageIndex, region: { x, y, width, height } });
+    } else {
+      select(null);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag.current || !draft) return;
+    const point = pointerPosition(event);
+    const { start, origin } = drag.current;
+    drag.current.moved = true;
+
+    if (origin) {
+      // Move: keep the box's size and keep it inside the image
+      const x = Math.min(Math.max(origin.x + point.x - start.x, 0), 1 - origin.width);
+      const y = Math.min(Math.max(origin.y + point.y - start.y, 0), 1 - origin.height);
+      setDraft({ ...draft, region: { ...origin, x, y } });
+    } else {
+      setDraft({
+        ...draft,
+        region: {
+          x: Math.min(start.x, point.x),
+          y: Math.min(start.y, point.y),
+          width: Math.abs(point.x - start.x),
+          height: Math.abs(point.y - start.y)
+        }
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const current = drag.current;
+    drag.current = null;
+    if (!current || !draft) return;
+
+    if (!current.origin) {
+      if (draft.region.width < MIN_REGION_SIZE || draft.region.height < MIN_REGION_SIZE) {
+        setDraft(null);
+        return;
+      }
+      // Keep the drawn box on screen while the grader labels it
+      setSelectedKey(null);
+      setNewRegion({ imageIndex: draft.imageIndex, region: draft.region });
+      setForm(emptyForm);
+      return;
+    }
+
+    const finding = findings.find(candidate => candidate.key === draft.key);
+    const unchanged = current.origin.x === draft.region.x && current.origin.y === draft.region.y;
+    if (!finding || !current.moved || unchanged) {
+      setDraft(null);
+      return;
+    }
+    saveMutation.mutate({ finding, changes: { region: draft.region } });
+  };
+
+  const handleSave = () => {
+    const changes = { category: form.category, severity: form.severity, description: form.description.trim() };
+    if (newRegion) {
+      saveMutation.mutate({ finding: null, changes: { ...changes, imageIndex: newRegion.imageIndex, region: newRegion.region } });
+    } else if (selected) {
+      saveMutation.mutate({ finding: selected, changes });
+    }
+  };
+
+  const handleCancel = () => {
+    setDraft(null);
+    select(null);
+  };
+
+  const editing = !!newRegion || !!selected;
+  const numbered = new Map(findings.map((finding, index) => [finding.key, index + 1]));
+
+  return (
+    <Card className={className} data-testid="annotation-editor">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">Damage Regions</CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={mode === "select" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMode("select")}
+              data-testid="annotation-mode-select"
+            >
+              <MousePointer2 className="h-4 w-4 mr-2" />
+              Select & Move
+            </Button>
+            <Button
+              variant={mode === "draw" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setMode("draw")}
+              data-testid="annotation-mode-draw"
+            >
+              <SquareDashed className="h-4 w-4 mr-2" />
+              Draw Region
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Damage summary from the AI findings with the graders' annotations applied */}
+        <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="damage-summary">
+          <span className="font-medium">
+            {damageSummary.findingCount} finding{damageSummary.findingCount === 1 ? "" : "s"}
+          </span>
+          {findingSeverities.map(severity => damageSummary.severityCounts[severity] > 0 && (
+            <Badge key={severity} variant="outline" className={cn("text-xs", severityBorders[severity])}>
+              {damageSummary.severityCounts[severity]} {severity}
+            </Badge>
+          ))}
+          {damageSummary.categories.map(category => (
+            <Badge key={category.category} variant="secondary" className="text-xs">
+              {category.category}{category.count > 1 ? ` ×${category.count}` : ""}
+            </Badge>
+          ))}
+          {(damageSummary.annotationCounts.added + damageSummary.annotationCounts.corrected + damageSummary.annotationCounts.removed) > 0 && (
+            <span className="text-xs text-muted-foreground">
+              Graders added {damageSummary.annotationCounts.added}, corrected {damageSummary.annotationCounts.corrected} and
+              removed {damageSummary.annotationCounts.removed} of the AI findings
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {images.map(image => (
+            <div key={image.imageIndex} className="space-y-1">
+              <div
+                className={cn(
+                  "relative bg-muted rounded-lg overflow-hidden select-none touch-none",
+                  mode === "draw" ? "cursor-crosshair" : "cursor-default"
+                )}
+                onPointerDown={event => handlePointerDown(image.imageIndex, event)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => { drag.current = null; setDraft(null); }}
+                data-testid={`annotation-canvas-${image.imageIndex}`}
+              >
+                <img src={image.url} alt={image.label} className="block w-full h-auto pointer-events-none" draggable={false} />
+                {findings.map(finding => {
+                  const box = draft?.key === finding.key ? { ...draft.region, imageIndex: draft.imageIndex } : finding.boundingBox;
+                  if (!box || box.imageIndex !== image.imageIndex) return null;
+                  return (
+                    <div
+                      key={finding.key}
+                      className={cn(
+                        "absolute border-2 rounded-sm",
+                        severityBorders[finding.severity],
+                        finding.source === "human" && "border-dashed",
+                        selectedKey === finding.key ? "ring-2 ring-ring z-10" : "opacity-80",
+                        mode === "select" && "cursor-move"
+                      )}
+                      style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                      data-testid={`annotation-box-${finding.key}`}
+                    >
+                      <span className="absolute -top-px -left-px px-1 text-[10px] font-semibold leading-4 bg-background/90 rounded-br-sm">
+                        {numbered.get(finding.key)}
+                      </span>
+                    </div>
+                  );
+                })}
+                {((draft && !draft.key && draft.imageIndex === image.imageIndex) || newRegion?.imageIndex === image.imageIndex) && (() => {
+                  const region = newRegion?.region ?? draft!.region;
+                  return (
+                    <div
+                      className="absolute border-2 border-dashed border-primary rounded-sm z-10"
+                      style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+                    />
+                  );
+                })()}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">{image.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {editing && (
+          <div className="rounded-lg border p-4 space-y-3" data-testid="annotation-form">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">
+                {newRegion ? "New damage region" : `Region ${numbered.get(selected!.key)} (${sourceLabel(selected!)})`}
+              </div>
+              <Button variant="ghost" size="icon" onClick={handleCancel} title="Close">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={value => setForm(prev => ({ ...prev, category: value as FindingCategory }))}>
+                  <SelectTrigger data-testid="annotation-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {findingCategories.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select value={form.severity} onValueChange={value => setForm(prev => ({ ...prev, severity: value as FindingSeverity }))}>
+                  <SelectTrigger data-testid="annotation-severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {findingSeverities.map(severity => (
+                      <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="annotation-description">Description</Label>
+              <Textarea
+                id="annotation-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                data-testid="annotation-description"
+              />
+            </div>
+            <div className="flex flex-wrap justify-between gap-2">
+              {selected ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate({ finding: selected })}
+                  disabled={deleteMutation.isPending}
+                  data-testid="annotation-delete"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {isAddedRegion(selected) ? "Delete Region" : "Remove AI Finding"}
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCancel}>Cancel</Button>
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={!form.description.trim() || !findingCategories.includes(form.category) || saveMutation.isPending}
+                  data-testid="annotation-save"
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {findings.length === 0 && (
+            <p className="text-sm text-muted-foreground">No damage marked. Use Draw Region to add damage the AI missed.</p>
+          )}
+          {findings.map(finding => (
+            <button
+              key={finding.key}
+              type="button"
+              className={cn(
+                "w-full text-left p-3 rounded-lg border text-sm hover-elevate",
+                selectedKey === finding.key && "ring-2 ring-ring"
+              )}
+              onClick={() => select(finding)}
+              data-testid={`annotation-finding-${finding.key}`}
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{numbered.get(finding.key)}. {finding.category}</span>
+                <Badge variant="outline" className={cn("text-xs", severityBorders[finding.severity])}>{finding.severity}</Badge>
+                <Badge variant={finding.source === "ai" ? "outline" : "secondary"} className="text-xs">{sourceLabel(finding)}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {images.find(image => image.imageIndex === finding.imageIndex)?.label}
+                  {!finding.boundingBox && " · not located"}
+                </span>
+              </div>
+              <p className="text-muted-foreground mt-1">{finding.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {removed.length > 0 && (
+          <div className="space-y-2" data-testid="removed-findings">
+            <div className="text-sm font-medium">Removed AI findings</div>
+            {removed.map(annotation => (
+              <div key={annotation.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-dashed text-sm">
+                <span className="text-muted-foreground line-through truncate">
+                  {annotation.category} ({annotation.severity}): {annotation.description}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate({ annotationId: annotation.id })}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`restore-finding-${annotation.id}`}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,14 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { AlertTriangle, CheckCircle, Clock, Eye, Download, Video, Image, Play, Monitor } from "lucide-react";
+import { AlertTriangle, CheckCircle, Clock, Eye, Download, Video, Image, Play, Monitor, History, RefreshCw } from "lucide-react";
 import GradeBadge, { Grade } from "./GradeBadge";
+import AnnotatedImage, { type ImageAnnotation } from "./AnnotatedImage";
 import { cn } from "@/lib/utils";
+import type { AnalysisCacheStatus, FindingBoundingBox } from "@shared/schema";
 
 export interface MediaAnalysisDetail {
   imageIndex: number;
@@ -15,12 +18,15 @@ export interface MediaAnalysisDetail {
     category: string;
     severity: "Low" | "Medium" | "High";
     description: string;
+    boundingBox?: FindingBoundingBox; // Where the damage is, on the image with this box's imageIndex
   }[];
   originalFileName?: string;
   mediaUrl?: string;
+  timestamp?: number; // Position in seconds when the analysis is for a video frame
 }
 
 export interface AssessmentData {
+  gradedBy?: string; // Username of the technician who submitted the unit
   grade: Grade;
   confidence: number;
   damageTypes: string[];
@@ -29,8 +35,10 @@ export interface AssessmentData {
     category: string;
     severity: "Low" | "Medium" | "High";
     description: string;
+    boundingBox?: FindingBoundingBox; // Where the damage is, on the image with this box's imageIndex
   }[];
   processingTime: number;
+  analysisCache?: AnalysisCacheStatus; // "hit" when an identical earlier submission's analysis was reused
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   mediaAnalyses?: MediaAnalysisDetail[];
@@ -45,7 +53,7 @@ export interface AssessmentData {
 
 interface AssessmentResultProps {
   assessment: AssessmentData;
-  onRetry?: () => void;
+  onRetry?: (options?: { force?: boolean }) => void;
   onExportReport?: () => void;
   className?: string;
 }
@@ -78,7 +86,64 @@ export default function AssessmentResult({
     }
   };
 
-  const hasImageAnalyses = assessment.mediaType !== 'video' && assessment.mediaAnalyses && assessment.mediaAnalyses.length > 0;
+  const formatTimestamp = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.floor(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+  };
+
+  const isVideo = assessment.mediaType === 'video';
+  const hasImageAnalyses = !!assessment.mediaAnalyses && assessment.mediaAnalyses.length > 0;
+
+  // Finding whose box is highlighted; set by hovering either the box or the finding
+  const [activeFinding, setActiveFinding] = useState<string | null>(null);
+
+  const overallKey = (index: number) => `overall-${index}`;
+
+  // Overall findings are drawn on their image only while hovered, since the per-image findings already mark the same damage
+  const annotationsFor = (analysis: MediaAnalysisDetail): ImageAnnotation[] => [
+    ...analysis.detailedFindings.flatMap((finding, index) => finding.boundingBox
+      ? [{ key: `${analysis.imageIndex}-${index}`, label: `${index + 1}`, severity: finding.severity, box: finding.boundingBox }]
+      : []),
+    ...assessment.detailedFindings.flatMap((finding, index) =>
+      finding.boundingBox?.imageIndex === analysis.imageIndex && activeFinding === overallKey(index)
+        ? [{ key: overallKey(index), label: `${index + 1}`, severity: finding.severity, box: finding.boundingBox }]
+        : [])
+  ];
+
+  const renderFinding = (finding: AssessmentData["detailedFindings"][number], key: string, label: string) => (
+    <div
+      key={key}
+      className={cn(
+        "p-3 rounded-lg border transition-shadow",
+        getSeverityColor(finding.severity),
+        finding.boundingBox && activeFinding === key && "ring-2 ring-ring"
+      )}
+      onMouseEnter={finding.boundingBox ? () => setActiveFinding(key) : undefined}
+      onMouseLeave={finding.boundingBox ? () => setActiveFinding(null) : undefined}
+      data-testid={`finding-${key}`}
+    >
+      <div className="flex items-start gap-3">
+        {getSeverityIcon(finding.severity)}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-medium text-sm">{finding.category}</span>
+            <Badge variant="outline" className="text-xs">
+              {finding.severity}
+            </Badge>
+            {finding.boundingBox && (
+              <Badge variant="secondary" className="text-xs" title="Marked on the photo">
+                #{label}{hasImageAnalyses && ` · ${isVideo ? 'Frame' : 'Image'} ${finding.boundingBox.imageIndex}`}
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {finding.description}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
 
   return (
     <div className={cn("space-y-6", className)}>
@@ -86,13 +151,23 @@ export default function AssessmentResult({
       {hasImageAnalyses && (
         <Card>
           <CardHeader>
-            <CardTitle className="text-base">Individual Image Analyses</CardTitle>
+            <CardTitle className="text-base">
+              {isVideo ? 'Individual Frame Analyses' : 'Individual Image Analyses'}
+            </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
             {assessment.mediaAnalyses!.map((analysis, idx) => (
               <div key={analysis.imageIndex} className="space-y-4">
                 <div className="flex flex-wrap items-center gap-2 justify-between">
-                  <div className="text-sm font-semibold">Image {analysis.imageIndex}</div>
+                  <div className="text-sm font-semibold">
+                    {isVideo ? 'Frame' : 'Image'} {analysis.imageIndex}
+                  </div>
+                  {analysis.timestamp !== undefined && (
+                    <Badge variant="outline" className="text-xs" data-testid={`frame-timestamp-${analysis.imageIndex}`}>
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatTimestamp(analysis.timestamp)}
+                    </Badge>
+                  )}
                   {analysis.originalFileName && (
                     <Badge variant="outline" className="text-xs">
                       {analysis.originalFileName}
@@ -116,41 +191,21 @@ export default function AssessmentResult({
                     )}
                   </div>
                   {analysis.mediaUrl && (
-                    <div className="aspect-video bg-muted rounded-lg overflow-hidden">
-                      <img
-                        src={analysis.mediaUrl}
-                        alt={`Analyzed laptop ${analysis.imageIndex}`}
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
+                    <AnnotatedImage
+                      src={analysis.mediaUrl}
+                      alt={`Analyzed ${isVideo ? 'frame' : 'laptop'} ${analysis.imageIndex}`}
+                      annotations={annotationsFor(analysis)}
+                      activeKey={activeFinding}
+                      onHover={setActiveFinding}
+                      data-testid={`annotated-image-${analysis.imageIndex}`}
+                    />
                   )}
                 </div>
                 {analysis.detailedFindings.length > 0 && (
                   <div className="space-y-3">
-                    {analysis.detailedFindings.map((finding, index) => (
-                      <div
-                        key={`${analysis.imageIndex}-${index}`}
-                        className={cn(
-                          "p-3 rounded-lg border",
-                          getSeverityColor(finding.severity)
-                        )}
-                      >
-                        <div className="flex items-start gap-3">
-                          {getSeverityIcon(finding.severity)}
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="font-medium text-sm">{finding.category}</span>
-                              <Badge variant="outline" className="text-xs">
-                                {finding.severity}
-                              </Badge>
-                            </div>
-                            <p className="text-sm text-muted-foreground">
-                              {finding.description}
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
+                    {analysis.detailedFindings.map((finding, index) =>
+                      renderFinding(finding, `${analysis.imageIndex}-${index}`, `${index + 1}`)
+                    )}
                   </div>
                 )}
                 {idx < assessment.mediaAnalyses!.length - 1 && <Separator className="mt-2" />}
@@ -178,6 +233,17 @@ export default function AssessmentResult({
               </div>
             </div>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              {assessment.analysisCache === "hit" && (
+                <Badge
+                  variant="secondary"
+                  className="text-xs"
+                  title="These photos were analyzed before; the earlier result was reused"
+                  data-testid="analysis-cache-hit"
+                >
+                  <History className="h-3 w-3 mr-1" />
+                  Cached result
+                </Badge>
+              )}
               <Clock className="h-4 w-4" />
               Processed in {assessment.processingTime}s
             </div>
@@ -219,30 +285,9 @@ export default function AssessmentResult({
           <CardTitle className="text-base">Detailed Analysis</CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          {assessment.detailedFindings.map((finding, index) => (
-            <div
-              key={index}
-              className={cn(
-                "p-3 rounded-lg border",
-                getSeverityColor(finding.severity)
-              )}
-            >
-              <div className="flex items-start gap-3">
-                {getSeverityIcon(finding.severity)}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="font-medium text-sm">{finding.category}</span>
-                    <Badge variant="outline" className="text-xs">
-                      {finding.severity}
-                    </Badge>
-                  </div>
-                  <p className="text-sm text-muted-foreground">
-                    {finding.description}
-                  </p>
-                </div>
-              </div>
-            </div>
-          ))}
+          {assessment.detailedFindings.map((finding, index) =>
+            renderFinding(finding, overallKey(index), `${index + 1}`)
+          )}
         </CardContent>
       </Card>
 
@@ -324,14 +369,16 @@ export default function AssessmentResult({
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="aspect-video bg-muted rounded-lg overflow-hidden">
-              <img
-                src={assessment.mediaUrl}
-                alt="Analyzed laptop"
-                className="w-full h-full object-cover"
-                data-testid="analyzed-image"
-              />
-            </div>
+            <AnnotatedImage
+              src={assessment.mediaUrl}
+              alt="Analyzed laptop"
+              annotations={assessment.detailedFindings.flatMap((finding, index) => finding.boundingBox
+                ? [{ key: overallKey(index), label: `${index + 1}`, severity: finding.severity, box: finding.boundingBox }]
+                : [])}
+              activeKey={activeFinding}
+              onHover={setActiveFinding}
+              data-testid="analyzed-image"
+            />
           </CardContent>
         </Card>
       )}
@@ -339,11 +386,17 @@ export default function AssessmentResult({
       {/* Actions */}
       <div className="flex flex-wrap gap-2">
         {onRetry && (
-          <Button variant="outline" onClick={onRetry} data-testid="retry-assessment">
+          <Button variant="outline" onClick={() => onRetry()} data-testid="retry-assessment">
             <Eye className="h-4 w-4 mr-2" />
             Retry Assessment
           </Button>
         )}
+        {onRetry && assessment.analysisCache === "hit" && (
+          <Button variant="outline" onClick={() => onRetry({ force: true })} data-testid="fresh-assessment">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Fresh Analysis
+          </Button>
+        )}
         {onExportReport && (
           <Button onClick={onExportReport} data-testid="export-report">
             <Download className="h-4 w-4 mr-2" />
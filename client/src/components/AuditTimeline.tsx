@@ -0,0 +1,124 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, PenLine, RotateCcw, Trash2 } from "lucide-react";
+import { gradeOverrideReasonLabels } from "./GradeOverrideDialog";
+import { cn } from "@/lib/utils";
+import { reviewStatusLabels } from "@/lib/review";
+import type { AssessmentAuditEntry, AssessmentFieldChanges, GradeOverrideReason, ReviewStatus } from "@shared/schema";
+
+// GET /api/assessments/:id/audit entry (dates arrive as ISO strings)
+export type AuditTimelineEntry = Omit<AssessmentAuditEntry, "createdAt"> & {
+  createdAt: string;
+  userName: string | null;
+};
+
+interface AuditTimelineProps {
+  entries: AuditTimelineEntry[];
+  className?: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  grade: "Grade",
+  damageDescription: "Overall condition",
+  damageTypes: "Damage types",
+  detailedFindings: "Findings",
+  reviewStatus: "Review",
+  status: "Status",
+  region: "Damage region"
+};
+
+const actionText: Record<string, string> = {
+  override: "overrode the assessment",
+  delete: "deleted the assessment",
+  "review-approve": "approved the assessment in review",
+  "review-regrade": "regraded the assessment in review",
+  rerun: "re-ran the failed analysis",
+  annotate: "edited the damage regions"
+};
+
+// Audit value of a damage region (see auditRegion in server/routes.ts); null when there was none
+function describeRegion(value: unknown): string {
+  if (!value || typeof value !== "object") return "none";
+  const region = value as { category: string; severity: string; imageIndex: number };
+  return `${region.category} (${region.severity}, image ${region.imageIndex})`;
+}
+
+function describeChange(field: string, change: { from: unknown; to: unknown }): string {
+  const label = fieldLabels[field] || field;
+  if (field === "reviewStatus") {
+    const status = (value: unknown) => reviewStatusLabels[value as ReviewStatus] || String(value ?? "none");
+    return `${label}: ${status(change.from)} → ${status(change.to)}`;
+  }
+  if (field === "region") {
+    if (!change.from) return `${label} added: ${describeRegion(change.to)}`;
+    if (!change.to) return `${label} removed: ${describeRegion(change.from)}`;
+    const before = describeRegion(change.from);
+    const after = describeRegion(change.to);
+    if (before !== after) return `${label}: ${before} → ${after}`;
+    const moved = JSON.stringify((change.from as { region?: unknown }).region) !== JSON.stringify((change.to as { region?: unknown }).region);
+    return `${label} ${moved ? "moved" : "edited"}: ${after}`;
+  }
+  if (field === "grade" || field === "status") {
+    return `${label}: ${change.from ?? "none"} → ${change.to}`;
+  }
+  if (Array.isArray(change.from) || Array.isArray(change.to)) {
+    const before = Array.isArray(change.from) ? change.from.length : 0;
+    const after = Array.isArray(change.to) ? change.to.length : 0;
+    return `${label} edited (${before} → ${after})`;
+  }
+  return `${label} edited`;
+}
+
+export default function AuditTimeline({ entries, className }: AuditTimelineProps) {
+  if (entries.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted-foreground", className)} data-testid="audit-empty">
+        No changes since the AI assessment.
+      </p>
+    );
+  }
+
+  // Newest first
+  const ordered = [...entries].reverse();
+
+  return (
+    <ol className={cn("relative border-l pl-6 space-y-6", className)} data-testid="audit-timeline">
+      {ordered.map(entry => {
+        const changes = (entry.changes as AssessmentFieldChanges | null) || {};
+        const Icon = entry.action === "delete" ? Trash2
+          : entry.action === "review-approve" ? CheckCircle
+          : entry.action === "rerun" ? RotateCcw
+          : PenLine;
+
+        return (
+          <li key={entry.id} className="relative" data-testid={`audit-entry-${entry.id}`}>
+            <span className="absolute -left-[35px] flex h-5 w-5 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{entry.userName || "Unknown user"}</span>
+              <span className="text-muted-foreground">
+                {actionText[entry.action] || actionText.override}
+              </span>
+              {entry.reasonCode && (
+                <Badge variant="outline" className="text-xs">
+                  {gradeOverrideReasonLabels[entry.reasonCode as GradeOverrideReason] || entry.reasonCode}
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">{new Date(entry.createdAt).toLocaleString()}</p>
+            {Object.keys(changes).length > 0 && (
+              <ul className="mt-2 text-sm space-y-1">
+                {Object.keys(changes).map(field => (
+                  <li key={field}>{describeChange(field, changes[field])}</li>
+                ))}
+              </ul>
+            )}
+            {entry.note && (
+              <p className="mt-2 text-sm italic text-muted-foreground">"{entry.note}"</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
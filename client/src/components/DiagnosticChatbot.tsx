@@ -10,10 +10,13 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuIte
 import { Send, Upload, Bot, User, Loader2, Camera, Video, FileText, Plus, MessageSquare, ChevronDown, Trash2 } from 'lucide-react';
 import type { AssessmentData, ChatMessage, Conversation, ConversationMessage } from '@shared/schema';
 import MediaUploader from './ImageUploader';
+import JobProgress from './JobProgress';
+import { followAssessmentJob, isQueuedJobResponse, type JobProgress as JobProgressState } from '@/lib/assessment-jobs';
 import { cn } from '@/lib/utils';
 
 interface LocalChatMessage extends Omit<ChatMessage, 'files'> {
   files?: File[];
+  progress?: JobProgressState; // Live progress of the assessment job started by this upload
 }
 
 interface ConversationWithMessages extends Conversation {
@@ -24,22 +27,6 @@ interface DiagnosticChatbotProps {
   className?: string;
 }
 
-const generateAssessmentResponse = (assessment: AssessmentData, filename?: string): string => {
-  return `## Assessment Complete! 📊${filename ? ` - ${filename}` : ''}
-
-**Overall Grade**: ${assessment.grade} (${Math.round(assessment.confidence * 100)}% confidence)
-**Condition**: ${assessment.damageDescription}
-
-**Damage Types Detected**: ${assessment.damageTypes.length > 0 ? assessment.damageTypes.join(', ') : 'None detected'}
-
-### Detailed Findings:
-${assessment.detailedFindings.map(finding => 
-  `• **${finding.category}** (${finding.severity}): ${finding.description}`
-).join('\n')}
-
-The assessment has been saved to your database with SKU: ${assessment.sku}`;
-};
-
 export default function DiagnosticChatbot({ className }: DiagnosticChatbotProps) {
   // Conversation management state
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -318,6 +305,10 @@ export default function DiagnosticChatbot({ className }: DiagnosticChatbotProps)
       files.forEach((file, index) => {
         formData.append('laptop_images', file);
       });
+      // The server saves the upload and the assessment replies into this conversation
+      if (currentConversation) {
+        formData.append('conversationId', currentConversation.id);
+      }
 
       const response = await fetch('/api/assess-batch', {
         method: 'POST',
@@ -329,41 +320,45 @@ export default function DiagnosticChatbot({ className }: DiagnosticChatbotProps)
         throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.json();
+      const queued = await response.json();
+
+      // Large uploads are processed as a background job; show its progress on the upload message
+      const data = isQueuedJobResponse(queued)
+        ? await followAssessmentJob(queued.jobId, (progress) => {
+            setMessages(prev => prev.map(msg =>
+              msg.id === uploadMessage.id ? { ...msg, progress } : msg
+            ));
+          })
+        : queued;
 
       if (data.success && data.assessments) {
-        const assistantMessages: LocalChatMessage[] = data.assessments.map((assessmentResult: any, index: number) => {
-          const assessmentData: AssessmentData = {
-            id: assessmentResult.id,
-            sku: assessmentResult.sku,
-            brand: assessmentResult.brand,
-            model: assessmentResult.model,
-            grade: assessmentResult.grade,
-            confidence: assessmentResult.confidence,
-            damageDescription: assessmentResult.damageDescription,
-            detailedFindings: assessmentResult.detailedFindings,
-            damageTypes: assessmentResult.damageTypes,
-            imageUrl: assessmentResult.imageUrl,
-            createdAt: assessmentResult.createdAt
-          };
-
-          const assistantResponse = generateAssessmentResponse(assessmentData, files[index]?.name);
-
-          return {
-            id: (Date.now() + index + 1).toString(),
-            role: 'assistant' as const,
-            content: assistantResponse,
-            timestamp: new Date(),
-            assessment: assessmentData
-          };
-        });
+        const assistantMessages: LocalChatMessage[] = data.assessments.map((assessment: AssessmentData, index: number) => ({
+          id: (Date.now() + index + 1).toString(),
+          role: 'assistant' as const,
+          content: data.responses?.[index] || `Assessment complete: Grade ${assessment.grade}`,
+          timestamp: new Date(),
+          assessment
+        }));
 
         // Update the upload message to remove loading state and add all assessment results
         setMessages(prev => prev.map(msg => 
           msg.id === uploadMessage.id 
-            ? { ...msg, isUploading: false }
+            ? { ...msg, isUploading: false, progress: undefined }
             : msg
         ).concat(assistantMessages));
+
+        if (data.failures?.length > 0) {
+          const failureText = data.failures.map((failure: { originalFileName: string; error: string }) => `• ${failure.originalFileName}: ${failure.error}`).join('\n');
+          setMessages(prev => [...prev, {
+            id: (Date.now() + assistantMessages.length + 1).toString(),
+            role: 'assistant',
+            content: `Some files could not be analyzed:\n${failureText}`,
+            timestamp: new Date()
+          }]);
+        }
+
+        // Messages were persisted server-side; refresh updatedAt ordering
+        await refreshConversationsList();
       }
     } catch (error) {
       console.error('Upload error details:', {
@@ -388,7 +383,7 @@ export default function DiagnosticChatbot({ className }: DiagnosticChatbotProps)
 
       setMessages(prev => prev.map(msg => 
         msg.id === uploadMessage.id 
-          ? { ...msg, isUploading: false }
+          ? { ...msg, isUploading: false, progress: undefined }
           : msg
       ).concat([errorMessage]));
     } finally {
@@ -514,6 +509,10 @@ export default function DiagnosticChatbot({ className }: DiagnosticChatbotProps)
                       {message.content}
                     </p>
 
+                    {message.isUploading && message.progress && (
+                      <JobProgress progress={message.progress} className="mt-2 min-w-[200px]" />
+                    )}
+
                     {message.files && (
                       <div className="mt-2 flex flex-wrap gap-1">
                         {message.files.map((file, index) => (
@@ -0,0 +1,86 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { conditionLabel, rubricComponentLabels } from "@/lib/rubric";
+import type { GradeDerivation } from "@shared/schema";
+
+interface GradeDerivationCardProps {
+  derivation: GradeDerivation;
+  className?: string;
+}
+
+// Rule trace behind the automated grade: each component's reported condition and the best grade it allows
+export default function GradeDerivationCard({ derivation, className }: GradeDerivationCardProps) {
+  const decisive = derivation.steps.filter(step => step.decisive);
+
+  return (
+    <Card className={className} data-testid="grade-derivation">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Grade Rules
+          <Badge variant="outline" className="text-xs">Rubric v{derivation.rubricVersion}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {derivation.source === "model" ? (
+          <p className="text-sm text-muted-foreground" data-testid="grade-derivation-summary">
+            No component was visible, so the model's grade {derivation.modelGrade} was kept.
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground" data-testid="grade-derivation-summary">
+            Grade {derivation.grade}, set by {decisive.map(step =>
+              `${rubricComponentLabels[step.component].toLowerCase()} (${conditionLabel(step.condition).toLowerCase()}${step.hardFail ? ", hard-fail rule" : ""})`
+            ).join(", ")}.
+          </p>
+        )}
+        {!derivation.agreesWithModel && (
+          <div className="flex items-start gap-2 rounded-lg border border-chart-2 p-3 text-sm" data-testid="grade-disagreement">
+            <AlertTriangle className="h-4 w-4 text-chart-2 shrink-0 mt-0.5" />
+            <span>
+              The model suggested grade {derivation.modelGrade}, but the reported conditions only allow grade {derivation.grade}.
+            </span>
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Component</TableHead>
+              <TableHead>Reported condition</TableHead>
+              <TableHead className="w-32">Allows</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {derivation.steps.map(step => (
+              <TableRow
+                key={`${step.component}${step.hardFail ? "-hard-fail" : ""}`}
+                className={cn(step.decisive && "font-medium")}
+                data-testid={`grade-rule-${step.component}${step.hardFail ? "-hard-fail" : ""}`}
+              >
+                <TableCell>{step.hardFail ? "" : rubricComponentLabels[step.component]}</TableCell>
+                <TableCell className={cn(!step.grade && "text-muted-foreground")}>
+                  {step.hardFail ? (
+                    <span className="text-muted-foreground">Hard-fail rule on {conditionLabel(step.condition).toLowerCase()}</span>
+                  ) : (
+                    conditionLabel(step.condition)
+                  )}
+                </TableCell>
+                <TableCell>
+                  {step.grade ? (
+                    <Badge variant={step.decisive ? "default" : "outline"} className="text-xs">
+                      {step.grade} at best
+                    </Badge>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
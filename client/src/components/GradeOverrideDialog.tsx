@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, PenLine, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { gradeOverrideReasons, type AssessmentOverrideRequest, type GradeOverrideReason } from "@shared/schema";
+
+export const gradeOverrideReasonLabels: Record<GradeOverrideReason, string> = {
+  ai_misgrade: "AI grade incorrect",
+  missed_damage: "AI missed damage",
+  false_positive: "Reported damage not present",
+  image_quality: "Poor photo or video quality",
+  physical_inspection: "Confirmed by physical inspection",
+  other: "Other (explain in note)"
+};
+
+type OverrideGrade = NonNullable<AssessmentOverrideRequest["grade"]>;
+type Finding = NonNullable<AssessmentOverrideRequest["detailedFindings"]>[number];
+
+const grades: OverrideGrade[] = ["A", "B", "C", "D"];
+const severities: Finding["severity"][] = ["Low", "Medium", "High"];
+
+interface GradeOverrideDialogProps {
+  assessmentId: string;
+  grade: string;
+  damageDescription: string;
+  detailedFindings: Finding[];
+}
+
+export default function GradeOverrideDialog({ assessmentId, grade, damageDescription, detailedFindings }: GradeOverrideDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [newGrade, setNewGrade] = useState(grade);
+  const [description, setDescription] = useState(damageDescription);
+  const [findings, setFindings] = useState<Finding[]>(detailedFindings);
+  const [reasonCode, setReasonCode] = useState<GradeOverrideReason | "">("");
+  const [note, setNote] = useState("");
+
+  // Start from the current values every time the dialog opens
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setNewGrade(grade);
+      setDescription(damageDescription);
+      setFindings(detailedFindings);
+      setReasonCode("");
+      setNote("");
+    }
+    setOpen(value);
+  };
+
+  const overrideMutation = useMutation({
+    mutationFn: async (body: AssessmentOverrideRequest) => {
+      const res = await apiRequest("PATCH", `/api/assessments/${assessmentId}`, body);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", assessmentId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments/search"] });
+      toast({ title: "Assessment updated" });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update assessment", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const updateFinding = (index: number, updates: Partial<Finding>) => {
+    setFindings(prev => prev.map((finding, i) => (i === index ? { ...finding, ...updates } : finding)));
+  };
+
+  const findingsValid = findings.every(finding => finding.category.trim() && finding.description.trim());
+  const canSubmit = !!reasonCode && (reasonCode !== "other" || note.trim()) && findingsValid && !!description.trim();
+
+  const handleSubmit = () => {
+    if (!reasonCode) return;
+
+    // Only send what changed; the server records a from/to pair for each field
+    const body: AssessmentOverrideRequest = { reasonCode, note: note.trim() || undefined };
+    if (newGrade !== grade) body.grade = newGrade as OverrideGrade;
+    if (description.trim() !== damageDescription) body.damageDescription = description.trim();
+    if (JSON.stringify(findings) !== JSON.stringify(detailedFindings)) body.detailedFindings = findings;
+
+    if (!body.grade && !body.damageDescription && !body.detailedFindings) {
+      toast({ title: "Nothing to change", description: "Edit the grade, condition or findings first." });
+      return;
+    }
+    overrideMutation.mutate(body);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="override-assessment">
+          <PenLine className="h-4 w-4 mr-2" />
+          Override
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Override Assessment</DialogTitle>
+          <DialogDescription>
+            Correct the AI result. The original AI grade is kept and the change is recorded in the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Grade</Label>
+              <Select value={newGrade} onValueChange={setNewGrade}>
+                <SelectTrigger data-testid="override-grade">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {grades.map(value => (
+                    <SelectItem key={value} value={value}>Grade {value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reasonCode} onValueChange={value => setReasonCode(value as GradeOverrideReason)}>
+                <SelectTrigger data-testid="override-reason">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gradeOverrideReasons.map(reason => (
+                    <SelectItem key={reason} value={reason}>{gradeOverrideReasonLabels[reason]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-note">Note{reasonCode === "other" ? "" : " (optional)"}</Label>
+            <Textarea
+              id="override-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              data-testid="override-note"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-condition">Overall Condition</Label>
+            <Textarea
+              id="override-condition"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              data-testid="override-condition"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Findings</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setFindings(prev => [...prev, { category: "", severity: "Low", description: "" }])}
+                data-testid="add-finding"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </div>
+            {findings.length === 0 && (
+              <p className="text-sm text-muted-foreground">No findings.</p>
+            )}
+            {findings.map((finding, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-start" data-testid={`override-finding-${index}`}>
+                <Input
+                  className="col-span-3"
+                  placeholder="Category"
+                  value={finding.category}
+                  onChange={(e) => updateFinding(index, { category: e.target.value })}
+                />
+                <Select value={finding.severity} onValueChange={value => updateFinding(index, { severity: value as Finding["severity"] })}>
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {severities.map(severity => (
+                      <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-6"
+                  placeholder="Description"
+                  value={finding.description}
+                  onChange={(e) => updateFinding(index, { description: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1"
+                  onClick={() => setFindings(prev => prev.filter((_, i) => i !== index))}
+                  title="Remove finding"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || overrideMutation.isPending} data-testid="submit-override">
+            {overrideMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,15 @@ import { useState, useCallback } from "react";
 import { useDropzone } from "react-dropzone";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload, X, Image as ImageIcon, Video } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Upload, X, Image as ImageIcon, Video, AlertTriangle, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { checkImageQuality, fileKey, qualityProblems } from "@/lib/image-quality";
+import type { ImageQualityGate, ImageQualityReport } from "@shared/schema";
+
+// Quality report per selected photo, keyed by fileKey; "checking" while the server scores it
+type QualityState = Record<string, ImageQualityReport | "checking">;
 
 interface MediaUploaderProps {
   onFilesSelected: (files: File[]) => void;
@@ -23,14 +30,48 @@ export default function MediaUploader({
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [previews, setPreviews] = useState<string[]>([]);
   const [fileTypes, setFileTypes] = useState<('image' | 'video')[]>([]);
+  const [quality, setQuality] = useState<QualityState>({});
+  const [qualityGate, setQualityGate] = useState<ImageQualityGate>('enforce');
+
+  // Score new photos on the server so unusable ones can be replaced before the assessment is submitted
+  const runQualityCheck = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+
+    setQuality(current => ({ ...current, ...Object.fromEntries(files.map(file => [fileKey(file), "checking" as const])) }));
+    checkImageQuality(files)
+      .then(response => {
+        setQualityGate(response.gate);
+        setQuality(current => {
+          const next = { ...current };
+          files.forEach((file, index) => {
+            const report = response.results[index]?.quality;
+            if (report) {
+              next[fileKey(file)] = report;
+            } else {
+              delete next[fileKey(file)];
+            }
+          });
+          return next;
+        });
+      })
+      .catch(error => {
+        // The check is advisory; the server screens the photos again on submission
+        console.warn('Image quality check failed:', error);
+        setQuality(current => {
+          const next = { ...current };
+          files.forEach(file => delete next[fileKey(file)]);
+          return next;
+        });
+      });
+  }, []);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (disabled) return;
     
     const validFiles = acceptedFiles.filter(file => {
       const isImage = file.type.startsWith('image/') || 
-                     // Handle HEIC files which browsers sometimes report as application/octet-stream
-                     (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif)$/i));
+                     // Handle HEIC, TIFF and BMP files which browsers sometimes report as application/octet-stream
+                     (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif|tiff?|bmp)$/i));
       const isVideo = file.type.startsWith('video/');
       
       if (acceptedTypes === 'images') return isImage;
@@ -47,7 +88,7 @@ export default function MediaUploader({
     const newPreviews = newFiles.map(file => URL.createObjectURL(file));
     const newFileTypes = newFiles.map(file => 
       (file.type.startsWith('image/') || 
-       (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif)$/i))) ? 'image' : 'video'
+       (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif|tiff?|bmp)$/i))) ? 'image' : 'video'
     );
     
     setPreviews(current => {
@@ -56,7 +97,8 @@ export default function MediaUploader({
       return newPreviews;
     });
     setFileTypes(newFileTypes);
-  }, [selectedFiles, maxFiles, onFilesSelected, disabled, acceptedTypes]);
+    runQualityCheck(newFiles.filter((file, index) => newFileTypes[index] === 'image' && validFiles.includes(file)));
+  }, [selectedFiles, maxFiles, onFilesSelected, disabled, acceptedTypes, runQualityCheck]);
 
   const removeFile = (index: number) => {
     if (disabled) return;
@@ -70,7 +112,7 @@ export default function MediaUploader({
     const newPreviews = newFiles.map(file => URL.createObjectURL(file));
     const newFileTypes = newFiles.map(file => 
       (file.type.startsWith('image/') || 
-       (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif)$/i))) ? 'image' : 'video'
+       (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif|tiff?|bmp)$/i))) ? 'image' : 'video'
     );
     
     setPreviews(current => {
@@ -81,7 +123,7 @@ export default function MediaUploader({
   };
 
   const getAcceptTypes = () => {
-    const imageTypes = { 'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.gif', '.heic', '.heif'] };
+    const imageTypes = { 'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.gif', '.heic', '.heif', '.tif', '.tiff', '.bmp'] };
     const videoTypes = { 'video/*': ['.mp4', '.webm', '.mov', '.avi', '.mkv'] };
     
     if (acceptedTypes === 'images') return imageTypes;
@@ -117,13 +159,13 @@ export default function MediaUploader({
               <>
                 <p><span className="font-medium">Click to upload</span> or drag and drop</p>
                 {acceptedTypes === 'images' && (
-                  <p className="text-muted-foreground">PNG, JPG, WEBP, HEIC up to 10MB each</p>
+                  <p className="text-muted-foreground">PNG, JPG, WEBP, HEIC, TIFF, BMP up to 10MB each</p>
                 )}
                 {acceptedTypes === 'videos' && (
                   <p className="text-muted-foreground">MP4, WEBM, MOV up to 50MB each</p>
                 )}
                 {acceptedTypes === 'both' && (
-                  <p className="text-muted-foreground">Images (PNG, JPG, WEBP, HEIC) or Videos (MP4, WEBM, MOV)</p>
+                  <p className="text-muted-foreground">Images (PNG, JPG, WEBP, HEIC, TIFF, BMP) or Videos (MP4, WEBM, MOV)</p>
                 )}
                 <p className="text-muted-foreground">Maximum {maxFiles} files</p>
               </>
@@ -157,6 +199,9 @@ export default function MediaUploader({
                       </div>
                     </div>
                   )}
+                  {fileTypes[index] === 'image' && (
+                    <QualityBadge state={quality[fileKey(selectedFiles[index])]} gate={qualityGate} index={index} />
+                  )}
                   <div className="absolute top-1 left-1">
                     {fileTypes[index] === 'image' ? (
                       <ImageIcon className="h-3 w-3 text-white bg-black/50 rounded p-0.5" />
@@ -182,4 +227,39 @@ export default function MediaUploader({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+function QualityBadge({ state, gate, index }: { state: ImageQualityReport | "checking" | undefined; gate: ImageQualityGate; index: number }) {
+  if (state === "checking") {
+    return (
+      <div className="absolute bottom-1 left-1" data-testid={`quality-checking-${index}`}>
+        <Loader2 className="h-4 w-4 text-white bg-black/50 rounded p-0.5 animate-spin" />
+      </div>
+    );
+  }
+  if (!state || state.verdict === "ok") return null;
+
+  const rejected = state.verdict === "reject" && gate === "enforce";
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant={rejected ? "destructive" : "outline"}
+          className={cn("absolute bottom-1 left-1 gap-1 text-xs cursor-help", !rejected && "bg-background/90 text-chart-3 border-chart-3")}
+          data-testid={`quality-warning-${index}`}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {rejected ? "Retake" : "Check photo"}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-medium mb-1">
+          {rejected ? "This photo will be rejected" : "This photo may give an unreliable grade"}
+        </p>
+        <ul className="space-y-1 text-xs">
+          {qualityProblems(state).map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
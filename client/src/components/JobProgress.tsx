@@ -0,0 +1,34 @@
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { JobProgress as JobProgressState, JobStage } from "@/lib/assessment-jobs";
+
+interface JobProgressProps {
+  progress: JobProgressState;
+  className?: string;
+}
+
+const stageLabels: Record<JobStage, string> = {
+  queued: "Queued",
+  "extracting-frames": "Extracting frames",
+  "calling-model": "Analyzing",
+  saving: "Saving",
+  saved: "Saved",
+  failed: "Failed"
+};
+
+export default function JobProgress({ progress, className }: JobProgressProps) {
+  return (
+    <div className={cn("space-y-1.5", className)} data-testid="job-progress">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className={cn("font-medium", progress.status === "failed" && "text-destructive")}>
+          {stageLabels[progress.stage]}
+        </span>
+        <span className="text-muted-foreground">{progress.progress}%</span>
+      </div>
+      <Progress value={progress.progress} className="h-2" />
+      <p className="text-xs text-muted-foreground truncate" title={progress.message}>
+        {progress.message}
+      </p>
+    </div>
+  );
+}
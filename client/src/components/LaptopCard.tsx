@@ -1,7 +1,8 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Eye, Calendar, Monitor } from "lucide-react";
+import { Eye, Calendar, Monitor, User, ClipboardCheck } from "lucide-react";
+import { Link } from "wouter";
 import GradeBadge, { Grade } from "./GradeBadge";
 import { cn } from "@/lib/utils";
 
@@ -15,15 +16,16 @@ export interface LaptopRecord {
   damageDescription?: string;
   imageUrl?: string;
   confidence?: number;
+  gradedBy?: string;
+  needsReview?: boolean;
 }
 
 interface LaptopCardProps {
   laptop: LaptopRecord;
-  onViewDetails: (laptop: LaptopRecord) => void;
   className?: string;
 }
 
-export default function LaptopCard({ laptop, onViewDetails, className }: LaptopCardProps) {
+export default function LaptopCard({ laptop, className }: LaptopCardProps) {
   const displayName = laptop.brand && laptop.model 
     ? `${laptop.brand} ${laptop.model}`
     : laptop.sku;
@@ -37,6 +39,12 @@ export default function LaptopCard({ laptop, onViewDetails, className }: LaptopC
               {displayName}
             </h3>
             <p className="text-xs text-muted-foreground mt-1">SKU: {laptop.sku}</p>
+            {laptop.needsReview && (
+              <Badge variant="secondary" className="text-xs mt-2" data-testid={`laptop-needs-review-${laptop.id}`}>
+                <ClipboardCheck className="h-3 w-3 mr-1" />
+                Needs review
+              </Badge>
+            )}
           </div>
           <GradeBadge grade={laptop.grade} size="sm" />
         </div>
@@ -67,9 +75,17 @@ export default function LaptopCard({ laptop, onViewDetails, className }: LaptopC
         )}
 
         <div className="flex items-center justify-between">
-          <div className="flex items-center gap-1 text-xs text-muted-foreground">
-            <Calendar className="h-3 w-3" />
-            {new Date(laptop.assessmentDate).toLocaleDateString()}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground min-w-0">
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              {new Date(laptop.assessmentDate).toLocaleDateString()}
+            </span>
+            {laptop.gradedBy && (
+              <span className="flex items-center gap-1 truncate" title={`Graded by ${laptop.gradedBy}`} data-testid={`laptop-grader-${laptop.id}`}>
+                <User className="h-3 w-3 shrink-0" />
+                {laptop.gradedBy}
+              </span>
+            )}
           </div>
           
           {laptop.confidence && (
@@ -83,11 +99,13 @@ export default function LaptopCard({ laptop, onViewDetails, className }: LaptopC
           size="sm"
           variant="outline"
           className="w-full"
-          onClick={() => onViewDetails(laptop)}
+          asChild
           data-testid={`view-details-${laptop.id}`}
         >
-          <Eye className="h-3 w-3 mr-1" />
-          View Details
+          <Link href={`/assessments/${laptop.id}`}>
+            <Eye className="h-3 w-3 mr-1" />
+            View Details
+          </Link>
         </Button>
       </CardContent>
     </Card>
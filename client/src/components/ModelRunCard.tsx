@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Cpu } from "lucide-react";
+import type { AssessmentModelRun } from "@shared/schema";
+
+interface ModelRunCardProps {
+  assessmentId: string;
+  className?: string;
+}
+
+// Pretty-print JSON responses; anything else is shown as returned
+function formatRawResponse(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+// Admin-only view of what produced the analysis: model, prompt and rubric versions, token usage and the raw model output
+export default function ModelRunCard({ assessmentId, className }: ModelRunCardProps) {
+  const [showRaw, setShowRaw] = useState(false);
+  const { data: run, isLoading, isError } = useQuery<AssessmentModelRun>({
+    queryKey: ["/api/assessments", assessmentId, "model-run"]
+  });
+
+  const fromCache = run?.analysisCache === "hit";
+  const details: { label: string; value: string }[] = run ? [
+    { label: "Model", value: run.modelName || "—" },
+    { label: "Source", value: fromCache ? "Analysis cache" : "Model call" },
+    { label: "Prompt", value: run.promptVersion || "—" },
+    { label: "Rubric", value: run.rubricVersion != null ? `Version ${run.rubricVersion}` : "—" },
+    {
+      label: "Tokens",
+      value: run.totalTokens != null
+        ? `${run.totalTokens.toLocaleString()} (${(run.promptTokens ?? 0).toLocaleString()} prompt, ${(run.completionTokens ?? 0).toLocaleString()} completion)`
+        : fromCache ? "None (no model call)" : "—"
+    }
+  ] : [];
+
+  return (
+    <Card className={className} data-testid="model-run">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Cpu className="h-4 w-4" />
+          Model Run
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : isError || !run ? (
+          <p className="text-sm text-muted-foreground">Failed to load the model run.</p>
+        ) : !run.modelName ? (
+          <p className="text-sm text-muted-foreground">This assessment was analyzed before model runs were recorded.</p>
+        ) : (
+          <>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              {details.map(detail => (
+                <div key={detail.label} className="flex gap-2">
+                  <dt className="text-muted-foreground w-16 shrink-0">{detail.label}</dt>
+                  <dd className="font-mono text-xs break-all pt-0.5" data-testid={`model-run-${detail.label.toLowerCase()}`}>{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+            {fromCache && (
+              <p className="text-sm text-muted-foreground" data-testid="model-run-cache-note">
+                Served from the analysis cache: the model and raw response are those of the earlier call that produced this analysis.
+              </p>
+            )}
+            {run.rawModelResponse ? (
+              <div className="space-y-2">
+                <Button variant="outline" size="sm" onClick={() => setShowRaw(shown => !shown)} data-testid="toggle-raw-response">
+                  {showRaw ? "Hide raw response" : "Show raw response"}
+                </Button>
+                {showRaw && (
+                  <pre className="max-h-96 overflow-auto rounded-lg bg-muted p-3 text-xs" data-testid="raw-response">
+                    {formatRawResponse(run.rawModelResponse)}
+                  </pre>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No raw response was recorded for this run.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookOpen } from "lucide-react";
+import { conditionLabel, rubricComponentLabels } from "@/lib/rubric";
+import type { PresentedRubric, RubricComponent } from "@shared/schema";
+
+interface RubricBadgeProps {
+  version: number;
+  grade: string; // Grade to show the criteria for
+}
+
+// Rubric version an assessment was graded against; opens the criteria that version set for the grade
+export default function RubricBadge({ version, grade }: RubricBadgeProps) {
+  const [open, setOpen] = useState(false);
+  const { data: rubric, isLoading, isError } = useQuery<PresentedRubric>({
+    queryKey: [`/api/rubric/versions/${version}`],
+    enabled: open,
+    staleTime: Infinity // Versions never change once saved
+  });
+
+  const entry = rubric?.definition.grades.find(item => item.grade === grade);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" data-testid="rubric-version">
+          <Badge variant="outline" className="text-xs gap-1 cursor-pointer">
+            <BookOpen className="h-3 w-3" />
+            Rubric v{version}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm space-y-3" align="start">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-1/2" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : isError || !rubric ? (
+          <p className="text-muted-foreground">Could not load rubric version {version}.</p>
+        ) : (
+          <>
+            <div>
+              <p className="font-medium">Grading rubric version {rubric.version}</p>
+              <p className="text-xs text-muted-foreground">
+                Saved {new Date(rubric.createdAt).toLocaleDateString()}
+                {rubric.createdByName && ` by ${rubric.createdByName}`}
+              </p>
+            </div>
+            {entry ? (
+              <div data-testid="rubric-grade-criteria">
+                <p className="font-medium">Grade {entry.grade} ({entry.label})</p>
+                <p className="text-muted-foreground mb-1">{entry.summary}</p>
+                <ul className="space-y-0.5">
+                  {Object.entries(entry.criteria).map(([component, text]) => (
+                    <li key={component}>
+                      <span className="font-medium">{rubricComponentLabels[component as RubricComponent]}:</span> {text}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">Grade {grade} is not part of this rubric.</p>
+            )}
+            {rubric.definition.hardFailRules.length > 0 && (
+              <div>
+                <p className="font-medium">Hard-fail rules</p>
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {rubric.definition.hardFailRules.map((rule, index) => (
+                    <li key={index}>
+                      {rubricComponentLabels[rule.component]}: {conditionLabel(rule.condition).toLowerCase()} → {rule.grade} at best
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
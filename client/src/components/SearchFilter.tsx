@@ -4,14 +4,21 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Search, Filter, X } from "lucide-react";
 import { Grade } from "./GradeBadge";
 import { cn } from "@/lib/utils";
 
+export type FileTypeFilter = "all" | "image" | "video";
+
 interface SearchFilterProps {
   onSearch: (query: string) => void;
   onGradeFilter: (grades: Grade[]) => void;
   onDateRangeFilter: (start: string, end: string) => void;
+  onConfidenceRangeFilter: (min: number | undefined, max: number | undefined) => void; // 0-1
+  onFileTypeFilter: (fileType: FileTypeFilter) => void;
+  onDamageTypeFilter: (damageType: string) => void;
+  onMineOnlyFilter: (mineOnly: boolean) => void;
   className?: string;
 }
 
@@ -22,16 +29,31 @@ const gradeOptions: { value: Grade; label: string; color: string }[] = [
   { value: "D", label: "Grade D", color: "bg-chart-3" },
 ];
 
+const fileTypeOptions: { value: FileTypeFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "image", label: "Images" },
+  { value: "video", label: "Videos" },
+];
+
 export default function SearchFilter({
   onSearch,
   onGradeFilter,
   onDateRangeFilter,
+  onConfidenceRangeFilter,
+  onFileTypeFilter,
+  onDamageTypeFilter,
+  onMineOnlyFilter,
   className
 }: SearchFilterProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedGrades, setSelectedGrades] = useState<Grade[]>([]);
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [minConfidence, setMinConfidence] = useState("");
+  const [maxConfidence, setMaxConfidence] = useState("");
+  const [fileType, setFileType] = useState<FileTypeFilter>("all");
+  const [damageType, setDamageType] = useState("");
+  const [mineOnly, setMineOnly] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
 
   const handleSearchSubmit = (e: React.FormEvent) => {
@@ -54,9 +76,7 @@ export default function SearchFilter({
   };
 
   const handleDateRangeChange = () => {
-    if (startDate || endDate) {
-      onDateRangeFilter(startDate, endDate);
-    }
+    onDateRangeFilter(startDate, endDate);
   };
 
   const clearDateFilters = () => {
@@ -65,6 +85,45 @@ export default function SearchFilter({
     onDateRangeFilter("", "");
   };
 
+  // Inputs are percentages; the API expects 0-1
+  const parsePercent = (value: string) => {
+    if (value.trim() === "") return undefined;
+    const percent = Number(value);
+    return Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) / 100 : undefined;
+  };
+
+  const handleConfidenceRangeChange = () => {
+    onConfidenceRangeFilter(parsePercent(minConfidence), parsePercent(maxConfidence));
+  };
+
+  const clearConfidenceFilters = () => {
+    setMinConfidence("");
+    setMaxConfidence("");
+    onConfidenceRangeFilter(undefined, undefined);
+  };
+
+  const selectFileType = (value: FileTypeFilter) => {
+    setFileType(value);
+    onFileTypeFilter(value);
+  };
+
+  const handleDamageTypeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onDamageTypeFilter(damageType.trim());
+  };
+
+  const clearDamageTypeFilter = () => {
+    setDamageType("");
+    onDamageTypeFilter("");
+  };
+
+  const toggleMineOnly = (value: boolean) => {
+    setMineOnly(value);
+    onMineOnlyFilter(value);
+  };
+
+  const hasConfidenceFilter = minConfidence !== "" || maxConfidence !== "";
+
   return (
     <div className={cn("space-y-4", className)}>
       {/* Search Bar */}
@@ -102,6 +161,17 @@ export default function SearchFilter({
       {showFilters && (
         <Card>
           <CardContent className="p-4 space-y-4">
+            {/* Ownership Filter */}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="mine-only" className="text-sm font-medium">Only my assessments</Label>
+              <Switch
+                id="mine-only"
+                checked={mineOnly}
+                onCheckedChange={toggleMineOnly}
+                data-testid="mine-only-toggle"
+              />
+            </div>
+
             {/* Grade Filters */}
             <div>
               <div className="flex items-center justify-between mb-2">
@@ -177,15 +247,117 @@ export default function SearchFilter({
                 </div>
               </div>
             </div>
+
+            {/* Confidence Range Filter */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label className="text-sm font-medium">Confidence (%)</Label>
+                {hasConfidenceFilter && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearConfidenceFilters}
+                    data-testid="clear-confidence-filters"
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="min-confidence" className="text-xs text-muted-foreground">Minimum</Label>
+                  <Input
+                    id="min-confidence"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={minConfidence}
+                    onChange={(e) => setMinConfidence(e.target.value)}
+                    onBlur={handleConfidenceRangeChange}
+                    data-testid="min-confidence-input"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="max-confidence" className="text-xs text-muted-foreground">Maximum</Label>
+                  <Input
+                    id="max-confidence"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={maxConfidence}
+                    onChange={(e) => setMaxConfidence(e.target.value)}
+                    onBlur={handleConfidenceRangeChange}
+                    data-testid="max-confidence-input"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* File Type Filter */}
+            <div>
+              <Label className="text-sm font-medium mb-2 block">File Type</Label>
+              <div className="flex flex-wrap gap-2">
+                {fileTypeOptions.map(option => (
+                  <Badge
+                    key={option.value}
+                    variant={fileType === option.value ? "default" : "outline"}
+                    className="cursor-pointer hover-elevate"
+                    onClick={() => selectFileType(option.value)}
+                    data-testid={`file-type-filter-${option.value}`}
+                  >
+                    {option.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {/* Damage Type Filter */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label htmlFor="damage-type" className="text-sm font-medium">Damage Type</Label>
+                {damageType && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearDamageTypeFilter}
+                    data-testid="clear-damage-type-filter"
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <form onSubmit={handleDamageTypeSubmit}>
+                <Input
+                  id="damage-type"
+                  placeholder="e.g. Scratches"
+                  value={damageType}
+                  onChange={(e) => setDamageType(e.target.value)}
+                  onBlur={() => onDamageTypeFilter(damageType.trim())}
+                  data-testid="damage-type-input"
+                />
+              </form>
+            </div>
           </CardContent>
         </Card>
       )}
 
       {/* Active Filters Display */}
-      {(selectedGrades.length > 0 || searchQuery || startDate || endDate) && (
+      {(selectedGrades.length > 0 || searchQuery || startDate || endDate || hasConfidenceFilter || fileType !== "all" || damageType || mineOnly) && (
         <div className="flex flex-wrap gap-2 items-center">
           <span className="text-sm text-muted-foreground">Active filters:</span>
           
+          {mineOnly && (
+            <Badge variant="outline" data-testid="active-mine-only-filter">
+              Mine only
+              <X 
+                className="h-3 w-3 ml-1 cursor-pointer"
+                onClick={() => toggleMineOnly(false)}
+              />
+            </Badge>
+          )}
+
           {searchQuery && (
             <Badge variant="outline" data-testid="active-search-filter">
               Search: "{searchQuery}"
@@ -218,6 +390,36 @@ export default function SearchFilter({
               />
             </Badge>
           )}
+
+          {hasConfidenceFilter && (
+            <Badge variant="outline" data-testid="active-confidence-filter">
+              Confidence: {minConfidence || 0}% - {maxConfidence || 100}%
+              <X 
+                className="h-3 w-3 ml-1 cursor-pointer"
+                onClick={clearConfidenceFilters}
+              />
+            </Badge>
+          )}
+
+          {fileType !== "all" && (
+            <Badge variant="outline" data-testid="active-file-type-filter">
+              {fileType === "image" ? "Images" : "Videos"}
+              <X 
+                className="h-3 w-3 ml-1 cursor-pointer"
+                onClick={() => selectFileType("all")}
+              />
+            </Badge>
+          )}
+
+          {damageType && (
+            <Badge variant="outline" data-testid="active-damage-type-filter">
+              Damage: {damageType}
+              <X 
+                className="h-3 w-3 ml-1 cursor-pointer"
+                onClick={clearDamageTypeFilter}
+              />
+            </Badge>
+          )}
         </div>
       )}
     </div>
@@ -33,10 +33,6 @@ export default function LaptopCardExample() {
     }
   ]
 
-  const handleViewDetails = (laptop: LaptopRecord) => {
-    console.log('View details for:', laptop.sku)
-  }
-
   return (
     <div className="p-6">
       <h3 className="text-lg font-semibold mb-4">Laptop Cards</h3>
@@ -45,7 +41,6 @@ export default function LaptopCardExample() {
           <LaptopCard
             key={laptop.id}
             laptop={laptop}
-            onViewDetails={handleViewDetails}
           />
         ))}
       </div>
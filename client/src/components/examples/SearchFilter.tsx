@@ -1,4 +1,4 @@
-import SearchFilter from '../SearchFilter'
+import SearchFilter, { FileTypeFilter } from '../SearchFilter'
 import { Grade } from '../GradeBadge'
 
 export default function SearchFilterExample() {
@@ -14,6 +14,22 @@ export default function SearchFilterExample() {
     console.log('Date range:', start, 'to', end)
   }
 
+  const handleConfidenceRangeFilter = (min: number | undefined, max: number | undefined) => {
+    console.log('Confidence range:', min, 'to', max)
+  }
+
+  const handleFileTypeFilter = (fileType: FileTypeFilter) => {
+    console.log('File type:', fileType)
+  }
+
+  const handleDamageTypeFilter = (damageType: string) => {
+    console.log('Damage type:', damageType)
+  }
+
+  const handleMineOnlyFilter = (mineOnly: boolean) => {
+    console.log('Mine only:', mineOnly)
+  }
+
   return (
     <div className="p-6 space-y-4">
       <h3 className="text-lg font-semibold">Search and Filter</h3>
@@ -21,6 +37,10 @@ export default function SearchFilterExample() {
         onSearch={handleSearch}
         onGradeFilter={handleGradeFilter}
         onDateRangeFilter={handleDateRangeFilter}
+        onConfidenceRangeFilter={handleConfidenceRangeFilter}
+        onFileTypeFilter={handleFileTypeFilter}
+        onDamageTypeFilter={handleDamageTypeFilter}
+        onMineOnlyFilter={handleMineOnlyFilter}
       />
     </div>
   )
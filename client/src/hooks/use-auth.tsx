@@ -0,0 +1,120 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser, UserRole, LoginRequest, RegisterUserRequest } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  hasRole: (...roles: UserRole[]) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginRequest>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUserRequest>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors arrive as "<status>: <json body>"; show the body's message instead
+export function authErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.message || parsed.error || body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (loggedIn: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], loggedIn);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Used for the first (admin) account; admins create further accounts from the Users page
+  const registerMutation = useMutation({
+    mutationFn: async (details: RegisterUserRequest) => {
+      const res = await apiRequest("POST", "/api/register", details);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (registered: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], registered);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/setup"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create account",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role as UserRole);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        hasRole,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
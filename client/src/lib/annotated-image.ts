@@ -0,0 +1,80 @@
+import type { FindingBoundingBox } from "@shared/schema";
+
+export interface ImageBoxAnnotation {
+  label: string;
+  severity: "Low" | "Medium" | "High";
+  box: FindingBoundingBox;
+}
+
+export interface RenderedImage {
+  dataUrl: string; // JPEG
+  width: number; // Size to place the image at, in the caller's units, keeping the aspect ratio
+  height: number;
+}
+
+// Same colours as the severity labels in the PDF report
+const severityColors: Record<ImageBoxAnnotation["severity"], string> = {
+  Low: "rgb(34, 197, 94)",
+  Medium: "rgb(245, 158, 11)",
+  High: "rgb(239, 68, 68)"
+};
+
+// Longest side of the rendered image in pixels; enough for print without bloating the PDF
+const MAX_RENDER_SIZE = 1200;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+}
+
+/**
+ * Render an image with its finding boxes burned in, for embedding in the PDF report
+ */
+export async function renderAnnotatedImage(
+  src: string,
+  annotations: ImageBoxAnnotation[],
+  maxWidth: number,
+  maxHeight: number
+): Promise<RenderedImage> {
+  const img = await loadImage(src);
+  const scale = Math.min(1, MAX_RENDER_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas is not available");
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const lineWidth = Math.max(2, Math.round(Math.max(canvas.width, canvas.height) / 300));
+  const fontSize = lineWidth * 7;
+  ctx.font = `bold ${fontSize}px helvetica, sans-serif`;
+  ctx.textBaseline = "top";
+
+  annotations.forEach(({ label, severity, box }) => {
+    const x = box.x * canvas.width;
+    const y = box.y * canvas.height;
+    ctx.strokeStyle = severityColors[severity];
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(x, y, box.width * canvas.width, box.height * canvas.height);
+
+    const padding = lineWidth;
+    ctx.fillStyle = severityColors[severity];
+    ctx.fillRect(x, y, ctx.measureText(label).width + padding * 2, fontSize + padding * 2);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(label, x + padding, y + padding);
+  });
+
+  const fit = Math.min(maxWidth / canvas.width, maxHeight / canvas.height);
+  return {
+    dataUrl: canvas.toDataURL("image/jpeg", 0.85),
+    width: canvas.width * fit,
+    height: canvas.height * fit
+  };
+}
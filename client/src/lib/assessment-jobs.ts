@@ -0,0 +1,95 @@
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+export type JobStage = "queued" | "extracting-frames" | "calling-model" | "saving" | "saved" | "failed";
+
+export interface JobProgress {
+  status: JobStatus;
+  stage: JobStage;
+  message: string;
+  progress: number; // 0-100
+}
+
+interface JobEvent extends JobProgress {
+  jobId: string;
+  result?: unknown;
+  error?: string;
+}
+
+interface JobState extends JobProgress {
+  id: string;
+  result?: unknown;
+  error?: string;
+}
+
+// Response of an upload endpoint that queued a background job
+export interface QueuedJobResponse {
+  jobId: string;
+  statusUrl?: string;
+  eventsUrl?: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export function isQueuedJobResponse(body: unknown): body is QueuedJobResponse {
+  return typeof body === "object" && body !== null && typeof (body as QueuedJobResponse).jobId === "string";
+}
+
+async function pollJob<T>(jobId: string, onProgress: (progress: JobProgress) => void): Promise<T> {
+  while (true) {
+    const res = await fetch(`/api/jobs/${jobId}`, { credentials: "include" });
+    if (!res.ok) {
+      throw new Error(res.status === 404 ? "Assessment job not found" : `Failed to check assessment job (${res.status})`);
+    }
+
+    const job: JobState = await res.json();
+    onProgress(job);
+    if (job.status === "completed") {
+      return job.result as T;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error || "Assessment failed");
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Follow an assessment job over Server-Sent Events until it finishes.
+ * Falls back to polling when the event stream is unavailable (e.g. a buffering proxy).
+ * @returns The job result, i.e. the body the upload endpoint used to return synchronously
+ */
+export function followAssessmentJob<T = any>(
+  jobId: string,
+  onProgress: (progress: JobProgress) => void,
+): Promise<T> {
+  if (typeof EventSource === "undefined") {
+    return pollJob<T>(jobId, onProgress);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+    let settled = false;
+
+    source.onmessage = (message) => {
+      const event: JobEvent = JSON.parse(message.data);
+      onProgress(event);
+
+      if (event.status === "completed") {
+        settled = true;
+        source.close();
+        resolve(event.result as T);
+      } else if (event.status === "failed") {
+        settled = true;
+        source.close();
+        reject(new Error(event.error || "Assessment failed"));
+      }
+    };
+
+    source.onerror = () => {
+      if (settled) return;
+      settled = true;
+      source.close();
+      pollJob<T>(jobId, onProgress).then(resolve, reject);
+    };
+  });
+}
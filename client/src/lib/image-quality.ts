@@ -0,0 +1,35 @@
+import type { ImageQualityCheck, ImageQualityCheckResponse, ImageQualityReport } from "@shared/schema";
+
+export const imageQualityCheckLabels: Record<ImageQualityCheck, string> = {
+  resolution: "Resolution",
+  sharpness: "Sharpness",
+  exposure: "Lighting",
+  framing: "Framing"
+};
+
+// Identifies a selected file across re-renders without holding on to the File objects
+export function fileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export async function checkImageQuality(files: File[]): Promise<ImageQualityCheckResponse> {
+  const formData = new FormData();
+  files.forEach(file => formData.append("files", file));
+
+  const res = await fetch("/api/images/quality", {
+    method: "POST",
+    body: formData,
+    credentials: "include"
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+  return await res.json();
+}
+
+// Guidance lines for the checks that did not pass
+export function qualityProblems(report: ImageQualityReport): string[] {
+  return report.checks
+    .filter(check => check.verdict !== "ok" && check.message)
+    .map(check => `${imageQualityCheckLabels[check.check]}: ${check.message}`);
+}
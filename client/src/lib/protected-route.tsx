@@ -0,0 +1,53 @@
+import { Redirect, Route } from "wouter";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element;
+  roles?: UserRole[]; // Any logged-in user when omitted
+}
+
+export function ProtectedRoute({ path, component: Component, roles }: ProtectedRouteProps) {
+  const { user, isLoading, hasRole } = useAuth();
+
+  if (isLoading) {
+    return (
+      <Route path={path}>
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </Route>
+    );
+  }
+
+  if (!user) {
+    return (
+      <Route path={path}>
+        <Redirect to="/auth" />
+      </Route>
+    );
+  }
+
+  if (roles && !hasRole(...roles)) {
+    return (
+      <Route path={path}>
+        <div className="container mx-auto px-4 py-8 max-w-xl">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <ShieldAlert className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-xl font-semibold mb-2">Access Restricted</h3>
+              <p className="text-muted-foreground">
+                This page requires the {roles.join(" or ")} role.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </Route>
+    );
+  }
+
+  return <Route path={path} component={Component} />;
+}
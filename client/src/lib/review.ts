@@ -0,0 +1,19 @@
+import type { ReviewRule, ReviewStatus } from "@shared/schema";
+
+export const reviewRuleLabels: Record<ReviewRule, string> = {
+  "low-confidence": "Low confidence",
+  "high-severity": "High severity finding",
+  "processing-error": "Processing error",
+  "grade-disagreement": "Model grade differs from the grade rules"
+};
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  PENDING_REVIEW: "Needs review",
+  IN_REVIEW: "In review",
+  APPROVED: "Review approved",
+  REGRADED: "Regraded in review"
+};
+
+export function isOpenReview(status: string | null | undefined): boolean {
+  return status === "PENDING_REVIEW" || status === "IN_REVIEW";
+}
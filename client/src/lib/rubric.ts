@@ -0,0 +1,15 @@
+import type { RubricComponent } from "@shared/schema";
+
+export const rubricComponentLabels: Record<RubricComponent, string> = {
+  chassis: "Chassis",
+  screen: "Screen",
+  hinges: "Hinges",
+  keyboard: "Keyboard",
+  ports: "Ports"
+};
+
+// "light-wear" -> "Light wear"
+export function conditionLabel(condition: string): string {
+  const words = condition.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
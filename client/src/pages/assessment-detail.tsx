@@ -0,0 +1,408 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import AssessmentResult, { AssessmentData, MediaAnalysisDetail } from "@/components/AssessmentResult";
+import GradeOverrideDialog from "@/components/GradeOverrideDialog";
+import AuditTimeline, { AuditTimelineEntry } from "@/components/AuditTimeline";
+import AnnotationEditor, { type AnnotationEntry } from "@/components/AnnotationEditor";
+import { Grade } from "@/components/GradeBadge";
+import RubricBadge from "@/components/RubricBadge";
+import GradeDerivationCard from "@/components/GradeDerivationCard";
+import ModelRunCard from "@/components/ModelRunCard";
+import { ArrowLeft, AlertCircle, Calendar, FileText, Image, Video, ExternalLink, Trash2, User, History, Loader2, RotateCcw } from "lucide-react";
+import { useAuth, authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reviewRuleLabels, reviewStatusLabels } from "@/lib/review";
+import type { AssessmentFailureStage, GradeDerivation, PresentedAssessment, ReviewRule, ReviewStatus } from "@shared/schema";
+import type { AnnotatedFinding, DamageSummary } from "@shared/annotations";
+
+interface StoredMedia {
+  id: string;
+  kind: string;
+  position: number;
+  originalFileName: string | null;
+  mimeType: string | null;
+  fileSize: number | null;
+  width: number | null; // As uploaded, before auto-orientation
+  height: number | null;
+  orientation: number | null; // EXIF orientation; 1 or null means the upload was already upright
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+function describeMedia(item: StoredMedia): string | undefined {
+  const parts = [
+    item.originalFileName,
+    item.width && item.height ? `${item.width}×${item.height}px` : null,
+    item.orientation && item.orientation > 1 ? `rotated upright (EXIF orientation ${item.orientation})` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : undefined;
+}
+
+// GET /api/assessments/:id response (dates arrive as ISO strings)
+type AssessmentDetail = Omit<PresentedAssessment, "assessmentDate" | "imageAnalyses"> & {
+  assessmentDate: string;
+  updatedByName: string | null;
+  imageAnalyses: MediaAnalysisDetail[];
+  media: StoredMedia[];
+  annotations: AnnotationEntry[];
+  findings: AnnotatedFinding[]; // AI findings with the annotations applied
+  damageSummary: DamageSummary;
+};
+
+const failureStageLabels: Record<AssessmentFailureStage, string> = {
+  "extracting-frames": "extracting video frames",
+  "calling-model": "running the AI assessment"
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Per-image findings as the graders left them; without per-image analyses the merged findings are the overall ones
+function toAssessmentData(detail: AssessmentDetail): AssessmentData {
+  const isVideo = detail.fileType === "video";
+  const hasImageAnalyses = detail.imageAnalyses.length > 0;
+
+  return {
+    gradedBy: detail.createdByName || undefined,
+    grade: detail.grade as Grade,
+    confidence: detail.confidence ?? 0,
+    damageTypes: (detail.damageTypes as string[] | null) || [],
+    overallCondition: detail.damageDescription || "No description available",
+    detailedFindings: hasImageAnalyses
+      ? (detail.detailedFindings as AssessmentData["detailedFindings"] | null) || []
+      : detail.findings,
+    processingTime: detail.processingTime ?? 0,
+    mediaUrl: detail.imageUrl || undefined,
+    mediaType: isVideo ? "video" : "image",
+    mediaAnalyses: detail.imageAnalyses.map(analysis => ({
+      ...analysis,
+      detailedFindings: detail.findings.filter(finding => finding.imageIndex === analysis.imageIndex)
+    })),
+    videoMetadata: isVideo
+      ? {
+          duration: detail.videoDuration ?? 0,
+          width: detail.videoWidth ?? 0,
+          height: detail.videoHeight ?? 0,
+          fps: detail.videoFps ?? 0,
+          framesAnalyzed: detail.framesAnalyzed ?? 0
+        }
+      : undefined
+  };
+}
+
+export default function AssessmentDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+  const { data: assessment, isLoading, error, refetch } = useQuery<AssessmentDetail>({
+    queryKey: ["/api/assessments", id],
+    // Keep checking while a re-run is analyzing the stored media
+    refetchInterval: query => query.state.data?.status === "PENDING" ? 3000 : false
+  });
+  const { data: auditEntries } = useQuery<AuditTimelineEntry[]>({
+    queryKey: ["/api/assessments", id, "audit"],
+    enabled: !!assessment
+  });
+
+  const deleteAssessment = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/assessments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments/search"] });
+      queryClient.removeQueries({ queryKey: ["/api/assessments", id] });
+      toast({ title: "Assessment deleted" });
+      navigate("/search");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete assessment", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const rerunAssessment = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/assessments/${id}/rerun`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/assessments/search"] });
+      toast({ title: "Re-running assessment", description: "The stored media is being analyzed again." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not re-run assessment", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const backLink = (
+    <Button variant="ghost" size="sm" asChild className="mb-4" data-testid="back-to-records">
+      <Link href="/search">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to Records
+      </Link>
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        {backLink}
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !assessment) {
+    const notFound = error instanceof Error && error.message.startsWith("404");
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {backLink}
+        <Card>
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-xl font-semibold mb-2">
+              {notFound ? "Assessment Not Found" : "Failed to Load Assessment"}
+            </h3>
+            <p className="text-muted-foreground mb-4">
+              {notFound
+                ? "This assessment does not exist or has been deleted."
+                : "Something went wrong while loading this assessment."}
+            </p>
+            {!notFound && (
+              <Button variant="outline" onClick={() => refetch()} data-testid="retry-load-assessment">
+                Try Again
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const displayName = assessment.brand && assessment.model
+    ? `${assessment.brand} ${assessment.model}`
+    : assessment.sku || "Unnamed assessment";
+  const reviewReasons = (assessment.reviewReasons as ReviewRule[] | null) || [];
+  // Only stored photos can be annotated; video frames are not kept
+  const annotatableImages = assessment.media
+    .filter(item => item.kind === "image")
+    .map(item => ({
+      imageIndex: item.position + 1,
+      url: item.url,
+      label: item.originalFileName || `Image ${item.position + 1}`
+    }));
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {backLink}
+
+      {/* Header */}
+      <div className="mb-6 space-y-2">
+        <div className="flex items-start justify-between gap-4">
+          <h1 className="text-3xl font-bold" data-testid="assessment-title">{displayName}</h1>
+          {hasRole("supervisor", "admin") && (
+            <div className="flex items-center gap-2">
+              {assessment.status !== "PENDING" && (
+                <GradeOverrideDialog
+                  assessmentId={assessment.id}
+                  grade={assessment.grade}
+                  damageDescription={assessment.damageDescription || ""}
+                  detailedFindings={(assessment.detailedFindings as AssessmentData["detailedFindings"] | null) || []}
+                />
+              )}
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={deleteAssessment.isPending} data-testid="delete-assessment">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this assessment?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The record and its uploaded photos and videos will be permanently removed.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => deleteAssessment.mutate()} data-testid="confirm-delete-assessment">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+          {assessment.sku && <span>SKU: {assessment.sku}</span>}
+          <span className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            {new Date(assessment.assessmentDate).toLocaleString()}
+          </span>
+          {assessment.createdByName && (
+            <span className="flex items-center gap-1" data-testid="assessment-graded-by">
+              <User className="h-4 w-4" />
+              Graded by {assessment.createdByName}
+            </span>
+          )}
+          {assessment.originalFileName && (
+            <span className="flex items-center gap-1" data-testid="assessment-file-name">
+              <FileText className="h-4 w-4" />
+              {assessment.originalFileName}
+            </span>
+          )}
+          {assessment.fileSize != null && (
+            <Badge variant="outline" className="text-xs">{formatFileSize(assessment.fileSize)}</Badge>
+          )}
+          {assessment.aiGrade && assessment.aiGrade !== assessment.grade && (
+            <Badge variant="secondary" className="text-xs" data-testid="grade-overridden">
+              AI graded {assessment.aiGrade}, overridden to {assessment.grade}
+            </Badge>
+          )}
+          {assessment.rubricVersion != null && (
+            <RubricBadge version={assessment.rubricVersion} grade={assessment.grade} />
+          )}
+          {assessment.reviewStatus && (
+            <Badge variant="outline" className="text-xs" data-testid="review-status">
+              {reviewStatusLabels[assessment.reviewStatus as ReviewStatus] || assessment.reviewStatus}
+              {reviewReasons.length > 0 && `: ${reviewReasons.map(reason => reviewRuleLabels[reason] || reason).join(", ")}`}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Media Gallery */}
+      {assessment.media.length > 0 && (
+        <Card className="mb-6" data-testid="media-gallery">
+          <CardHeader>
+            <CardTitle className="text-base">Evidence ({assessment.media.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {assessment.media.map(item => (
+                <div key={item.id} className="space-y-2" data-testid={`media-item-${item.id}`}>
+                  <div className="aspect-video bg-muted rounded-lg overflow-hidden">
+                    {item.kind === "video" ? (
+                      <video
+                        src={item.url}
+                        poster={item.thumbnailUrl || undefined}
+                        controls
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <a href={item.url} target="_blank" rel="noopener noreferrer">
+                        <img
+                          src={item.thumbnailUrl || item.url}
+                          alt={item.originalFileName || "Assessment evidence"}
+                          className="w-full h-full object-cover"
+                        />
+                      </a>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1 truncate" title={describeMedia(item)}>
+                      {item.kind === "video" ? <Video className="h-3 w-3 shrink-0" /> : <Image className="h-3 w-3 shrink-0" />}
+                      {item.originalFileName || `${item.kind} ${item.position + 1}`}
+                    </span>
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 shrink-0 hover:text-foreground">
+                      Original
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {assessment.status === "ERROR" ? (
+        <Card className="border-destructive" data-testid="assessment-failed">
+          <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+            <AlertCircle className="h-10 w-10 text-destructive shrink-0" />
+            <div className="flex-1 space-y-1">
+              <h3 className="font-semibold">
+                Analysis failed{assessment.failureStage ? ` while ${failureStageLabels[assessment.failureStage as AssessmentFailureStage] || assessment.failureStage}` : ""}
+              </h3>
+              <p className="text-sm text-muted-foreground" data-testid="assessment-failure-reason">
+                {assessment.failureReason || "Unknown error"}
+              </p>
+            </div>
+            <Button onClick={() => rerunAssessment.mutate()} disabled={rerunAssessment.isPending} data-testid="rerun-assessment">
+              {rerunAssessment.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+              Re-run
+            </Button>
+          </CardContent>
+        </Card>
+      ) : assessment.status === "PENDING" ? (
+        <Card data-testid="assessment-pending">
+          <CardContent className="p-6 flex items-center gap-4">
+            <Loader2 className="h-8 w-8 text-primary animate-spin shrink-0" />
+            <div>
+              <h3 className="font-semibold">Analysis in progress</h3>
+              <p className="text-sm text-muted-foreground">The result will appear here when the AI assessment finishes.</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <AssessmentResult assessment={toAssessmentData(assessment)} />
+          {assessment.gradeDerivation != null && (
+            <GradeDerivationCard className="mt-6" derivation={assessment.gradeDerivation as GradeDerivation} />
+          )}
+          {hasRole("admin") && <ModelRunCard className="mt-6" assessmentId={assessment.id} />}
+          {annotatableImages.length > 0 && (
+            <AnnotationEditor
+              className="mt-6"
+              assessmentId={assessment.id}
+              images={annotatableImages}
+              findings={assessment.findings}
+              annotations={assessment.annotations}
+              damageSummary={assessment.damageSummary}
+            />
+          )}
+        </>
+      )}
+
+      {/* Change History */}
+      <Card className="mt-6" data-testid="assessment-history">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {auditEntries ? (
+            <AuditTimeline entries={auditEntries} />
+          ) : (
+            <Skeleton className="h-16 w-full" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, LogIn, Monitor, UserPlus } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { loginSchema, registerUserSchema, type LoginRequest, type RegisterUserRequest } from "@shared/schema";
+
+function LoginForm() {
+  const { loginMutation } = useAuth();
+  const form = useForm<LoginRequest>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => loginMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" autoFocus {...field} data-testid="login-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} data-testid="login-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="login-submit">
+          {loginMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogIn className="h-4 w-4 mr-2" />}
+          Sign In
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Shown only while no account exists; the first account becomes the admin
+function SetupForm() {
+  const { registerMutation } = useAuth();
+  const form = useForm<RegisterUserRequest>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: "", password: "" }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => registerMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" autoFocus {...field} data-testid="setup-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="setup-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="setup-submit">
+          {registerMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+          Create Admin Account
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user } = useAuth();
+  const { data: setup, isLoading } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ["/api/auth/setup"]
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const needsSetup = setup?.needsSetup ?? false;
+
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-md">
+      <Card>
+        <CardHeader className="text-center">
+          <Monitor className="h-10 w-10 mx-auto mb-2 text-primary" />
+          <CardTitle>{needsSetup ? "Set Up AI Laptop Diagnostics" : "Sign In"}</CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? "No accounts exist yet. Create the administrator account to get started."
+              : "Sign in with the account provided by your administrator."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : needsSetup ? (
+            <SetupForm />
+          ) : (
+            <LoginForm />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import MediaUploader from "@/components/ImageUploader";
 import AssessmentResult, { AssessmentData } from "@/components/AssessmentResult";
 import DiagnosticChatbot from "@/components/DiagnosticChatbot";
+import JobProgress from "@/components/JobProgress";
+import { followAssessmentJob, isQueuedJobResponse, type JobProgress as JobProgressState } from "@/lib/assessment-jobs";
+import { renderAnnotatedImage, type ImageBoxAnnotation } from "@/lib/annotated-image";
 import { Upload, Zap, Database, Search, MessageSquare, Bot } from "lucide-react";
 import { Link } from "wouter";
 
@@ -13,17 +16,20 @@ export default function Home() {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isAssessing, setIsAssessing] = useState(false);
   const [assessmentResults, setAssessmentResults] = useState<AssessmentData[]>([]);
+  const [jobProgress, setJobProgress] = useState<JobProgressState | null>(null);
 
   const handleFilesSelected = (files: File[]) => {
     setSelectedFiles(files);
     setAssessmentResults([]);
   };
 
-  const handleStartAssessment = async () => {
+  // force skips the server's analysis cache so the model looks at the photos again
+  const handleStartAssessment = async ({ force = false }: { force?: boolean } = {}) => {
     if (selectedFiles.length === 0) return;
     
     setIsAssessing(true);
     setAssessmentResults([]);
+    setJobProgress(null);
     
     try {
       const formData = new FormData();
@@ -31,7 +37,7 @@ export default function Home() {
         formData.append('files', file);
       });
 
-      const response = await fetch('/api/assessments', {
+      const response = await fetch(`/api/assessments${force ? '?force=true' : ''}`, {
         method: 'POST',
         body: formData,
       });
@@ -41,15 +47,20 @@ export default function Home() {
         throw new Error(error.message || 'Assessment failed');
       }
 
-      const result = await response.json();
-      
-      if (!result.success) {
+      const queued = await response.json();
+
+      // Uploads are processed in the background; follow the job until the results are ready
+      const result = isQueuedJobResponse(queued)
+        ? await followAssessmentJob(queued.jobId, setJobProgress)
+        : queued;
+
+      if (!result?.success) {
         throw new Error('Assessment failed');
       }
 
       const isImageFile = (file: File) =>
         file.type.startsWith('image/') ||
-        (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif)$/i));
+        (file.type === 'application/octet-stream' && file.name.match(/\.(heic|heif|tiff?|bmp)$/i));
 
       const isVideoFile = (file: File) => file.type.startsWith('video/');
 
@@ -62,24 +73,28 @@ export default function Home() {
       if (imageBatchResult?.assessment) {
         const analyses = (imageBatchResult.assessment.imageAnalyses || []).map((analysis: any) => {
           const fileIndex = analysis.imageIndex ? analysis.imageIndex - 1 : 0;
-          const matchingFile = imageFiles[fileIndex] || imageFiles.find(file => file.name === analysis.originalFileName);
+          // Rejected files leave gaps in the server-side numbering, so match by name first
+          const matchingFile = imageFiles.find(file => file.name === analysis.originalFileName) || imageFiles[fileIndex];
           return {
             imageIndex: analysis.imageIndex,
             summary: analysis.summary,
             damageTypes: analysis.damageTypes || [],
             detailedFindings: analysis.detailedFindings || [],
             originalFileName: matchingFile?.name || analysis.originalFileName,
-            mediaUrl: matchingFile ? URL.createObjectURL(matchingFile) : undefined
+            // Prefer the stored evidence so exported reports reference the persisted file
+            mediaUrl: analysis.mediaUrl || (matchingFile ? URL.createObjectURL(matchingFile) : undefined)
           };
         });
 
         successAssessments.push({
+          gradedBy: imageBatchResult.assessment.createdByName || undefined,
           grade: imageBatchResult.assessment.grade,
           confidence: imageBatchResult.assessment.confidence,
           damageTypes: imageBatchResult.assessment.damageTypes || [],
           overallCondition: imageBatchResult.assessment.damageDescription || imageBatchResult.assessment.overallCondition,
           detailedFindings: imageBatchResult.assessment.detailedFindings || [],
           processingTime: imageBatchResult.assessment.processingTime,
+          analysisCache: imageBatchResult.assessment.cache,
           mediaType: 'image',
           mediaAnalyses: analyses
         });
@@ -93,15 +108,25 @@ export default function Home() {
 
       videoResults.forEach((videoResult: any) => {
         const matchingFile = videoFileMap.get(videoResult.originalFileName);
+        const storedThumbnail = videoResult.assessment.media?.[0]?.thumbnailUrl;
         successAssessments.push({
+          gradedBy: videoResult.assessment.createdByName || undefined,
           grade: videoResult.assessment.grade,
           confidence: videoResult.assessment.confidence,
           damageTypes: videoResult.assessment.damageTypes || [],
           overallCondition: videoResult.assessment.damageDescription || videoResult.assessment.overallCondition,
           detailedFindings: videoResult.assessment.detailedFindings || [],
           processingTime: videoResult.assessment.processingTime,
-          mediaUrl: matchingFile ? URL.createObjectURL(matchingFile) : undefined,
+          analysisCache: videoResult.assessment.cache,
+          mediaUrl: storedThumbnail || (matchingFile ? URL.createObjectURL(matchingFile) : undefined),
           mediaType: 'video',
+          mediaAnalyses: (videoResult.assessment.imageAnalyses || []).map((analysis: any) => ({
+            imageIndex: analysis.imageIndex,
+            summary: analysis.summary,
+            damageTypes: analysis.damageTypes || [],
+            detailedFindings: analysis.detailedFindings || [],
+            timestamp: analysis.timestamp
+          })),
           videoMetadata: videoResult.assessment.videoMetadata
         });
       });
@@ -109,7 +134,10 @@ export default function Home() {
       if (result.results) {
         const failedEntries = result.results.filter((entry: any) => entry.success === false);
         if (failedEntries.length > 0) {
-          const errorMessages = failedEntries.map((entry: any) => `${entry.originalFileName || 'File'}: ${entry.error || 'Unknown error'}`).join('\n');
+          // Failed analyses are kept as ERROR assessments that can be re-run from their record
+          const errorMessages = failedEntries.map((entry: any) =>
+            `${entry.originalFileName || 'File'}: ${entry.error || 'Unknown error'}${entry.assessment?.id ? ' (saved; re-run it from Records)' : ''}`
+          ).join('\n');
           alert(`Some files could not be analyzed:\n${errorMessages}`);
         }
       }
@@ -125,12 +153,13 @@ export default function Home() {
       alert(`Assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsAssessing(false);
+      setJobProgress(null);
     }
   };
 
-  const handleRetryAssessment = () => {
+  const handleRetryAssessment = (options?: { force?: boolean }) => {
     setAssessmentResults([]);
-    handleStartAssessment();
+    handleStartAssessment(options);
   };
 
   const handleExportReport = async (assessment: AssessmentData) => {
@@ -151,6 +180,26 @@ export default function Home() {
         return y + (lines.length * fontSize * 0.4);
       };
 
+      // Numbered finding boxes drawn on the image, matching the numbered findings listed under it
+      const boxesOf = (findings: AssessmentData["detailedFindings"]): ImageBoxAnnotation[] =>
+        findings.flatMap((finding, index) => finding.boundingBox
+          ? [{ label: `${index + 1}`, severity: finding.severity, box: finding.boundingBox }]
+          : []);
+
+      const addAnnotatedImage = async (src: string, annotations: ImageBoxAnnotation[], centered: boolean) => {
+        try {
+          const image = await renderAnnotatedImage(src, annotations, 120, 80);
+          if (yPosition + image.height > pageHeight - 20) {
+            doc.addPage();
+            yPosition = 20;
+          }
+          doc.addImage(image.dataUrl, 'JPEG', centered ? (pageWidth - image.width) / 2 : 20, yPosition, image.width, image.height);
+          yPosition += image.height + (centered ? 10 : 5);
+        } catch (error) {
+          console.warn('Could not add image to PDF:', error);
+        }
+      };
+
       // Title
       doc.setFontSize(20);
       doc.setFont('helvetica', 'bold');
@@ -165,6 +214,10 @@ export default function Home() {
       doc.text(`Generated: ${new Date().toLocaleString()}`, pageWidth / 2, yPosition, { align: 'center' });
       yPosition += 8;
       doc.text(`Analysis Type: ${assessment.mediaType?.toUpperCase() || 'IMAGE'}`, pageWidth / 2, yPosition, { align: 'center' });
+      if (assessment.gradedBy) {
+        yPosition += 8;
+        doc.text(`Graded by: ${assessment.gradedBy}`, pageWidth / 2, yPosition, { align: 'center' });
+      }
       yPosition += 15;
 
       // Add video metadata if available
@@ -189,7 +242,7 @@ export default function Home() {
       if (assessment.mediaAnalyses && assessment.mediaAnalyses.length > 0) {
         doc.setFontSize(16);
         doc.setFont('helvetica', 'bold');
-        doc.text('Individual Image Analyses', 20, yPosition);
+        doc.text(assessment.mediaType === 'video' ? 'Individual Frame Analyses' : 'Individual Image Analyses', 20, yPosition);
         yPosition += 10;
 
         for (const analysis of assessment.mediaAnalyses) {
@@ -200,46 +253,14 @@ export default function Home() {
 
           doc.setFontSize(12);
           doc.setFont('helvetica', 'bold');
-          doc.text(`Image ${analysis.imageIndex}${analysis.originalFileName ? ` - ${analysis.originalFileName}` : ''}`, 20, yPosition);
+          const analysisLabel = assessment.mediaType === 'video'
+            ? `Frame ${analysis.imageIndex}${analysis.timestamp !== undefined ? ` - ${analysis.timestamp.toFixed(1)}s` : ''}`
+            : `Image ${analysis.imageIndex}${analysis.originalFileName ? ` - ${analysis.originalFileName}` : ''}`;
+          doc.text(analysisLabel, 20, yPosition);
           yPosition += 8;
 
           if (analysis.mediaUrl) {
-            try {
-              const canvas = document.createElement('canvas');
-              const ctx = canvas.getContext('2d');
-              const img = new Image();
-
-              await new Promise((resolve, reject) => {
-                img.onload = () => {
-                  const maxWidth = 120;
-                  const maxHeight = 80;
-                  let { width, height } = img;
-
-                  if (width > maxWidth) {
-                    height = (height * maxWidth) / width;
-                    width = maxWidth;
-                  }
-                  if (height > maxHeight) {
-                    width = (width * maxHeight) / height;
-                    height = maxHeight;
-                  }
-
-                  canvas.width = width;
-                  canvas.height = height;
-                  ctx?.drawImage(img, 0, 0, width, height);
-
-                  const imgData = canvas.toDataURL('image/jpeg', 0.8);
-                  doc.addImage(imgData, 'JPEG', 20, yPosition, width, height);
-                  resolve(null);
-                };
-                img.onerror = reject;
-                img.src = analysis.mediaUrl!;
-              });
-
-              yPosition += 85;
-            } catch (error) {
-              console.warn('Could not add image to PDF:', error);
-            }
+            await addAnnotatedImage(analysis.mediaUrl, boxesOf(analysis.detailedFindings), false);
           }
 
           doc.setFontSize(11);
@@ -281,42 +302,8 @@ export default function Home() {
           yPosition += 10;
         }
       } else if (assessment.mediaUrl) {
-        try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          const img = new Image();
-
-          await new Promise((resolve, reject) => {
-            img.onload = () => {
-              const maxWidth = 120;
-              const maxHeight = 80;
-              let { width, height } = img;
-
-              if (width > maxWidth) {
-                height = (height * maxWidth) / width;
-                width = maxWidth;
-              }
-              if (height > maxHeight) {
-                width = (width * maxHeight) / height;
-                height = maxHeight;
-              }
-
-              canvas.width = width;
-              canvas.height = height;
-              ctx?.drawImage(img, 0, 0, width, height);
-
-              const imgData = canvas.toDataURL('image/jpeg', 0.8);
-              doc.addImage(imgData, 'JPEG', (pageWidth - width) / 2, yPosition, width, height);
-              resolve(null);
-            };
-            img.onerror = reject;
-            img.src = assessment.mediaUrl;
-          });
-
-          yPosition += 90;
-        } catch (error) {
-          console.warn('Could not add image to PDF:', error);
-        }
+        // Video frames carry no boxes of their own here; a single photo shows the overall findings
+        await addAnnotatedImage(assessment.mediaUrl, assessment.mediaType === 'video' ? [] : boxesOf(assessment.detailedFindings), true);
       }
 
       // Assessment Summary
@@ -408,6 +395,10 @@ export default function Home() {
           doc.setTextColor(...(severityColors[finding.severity] || [0, 0, 0]));
           doc.text(`(${finding.severity})`, 120, yPosition);
           doc.setTextColor(0, 0, 0);
+          if (finding.boundingBox && assessment.mediaAnalyses && assessment.mediaAnalyses.length > 0) {
+            doc.setFont('helvetica', 'normal');
+            doc.text(`${assessment.mediaType === 'video' ? 'Frame' : 'Image'} ${finding.boundingBox.imageIndex}`, 150, yPosition);
+          }
           yPosition += 8;
 
           doc.setFontSize(11);
@@ -540,7 +531,7 @@ export default function Home() {
                   
                   {selectedFiles.length > 0 && assessmentResults.length === 0 && (
                     <Button 
-                      onClick={handleStartAssessment}
+                      onClick={() => handleStartAssessment()}
                       disabled={isAssessing}
                       className="w-full"
                       size="sm"
@@ -559,6 +550,10 @@ export default function Home() {
                       )}
                     </Button>
                   )}
+
+                  {isAssessing && jobProgress && (
+                    <JobProgress progress={jobProgress} />
+                  )}
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import GradeBadge, { Grade } from "@/components/GradeBadge";
+import { gradeOverrideReasonLabels } from "@/components/GradeOverrideDialog";
+import { AlertCircle, CheckCircle, ClipboardCheck, Eye, Hand, Loader2, PenLine, Undo2, User } from "lucide-react";
+import { useAuth, authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reviewRuleLabels, reviewStatusLabels } from "@/lib/review";
+import {
+  gradeOverrideReasons,
+  type GradeOverrideReason,
+  type PresentedAssessment,
+  type ReviewRegradeRequest,
+  type ReviewRule,
+  type ReviewStatus
+} from "@shared/schema";
+
+// GET /api/review/queue item (dates arrive as ISO strings)
+type ReviewItem = Omit<PresentedAssessment, "assessmentDate"> & {
+  assessmentDate: string;
+  reviewClaimedByName: string | null;
+};
+
+interface ReviewQueue {
+  items: ReviewItem[];
+  total: number;
+}
+
+const regradeOptions: ReviewRegradeRequest["grade"][] = ["A", "B", "C", "D"];
+
+function invalidateReviewQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/review/queue"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/review/counts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/assessments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/assessments/search"] });
+}
+
+function RegradeDialog({ item, onClose }: { item: ReviewItem; onClose: () => void }) {
+  const { toast } = useToast();
+  const [grade, setGrade] = useState<string>(item.grade);
+  const [reasonCode, setReasonCode] = useState<GradeOverrideReason | "">("");
+  const [note, setNote] = useState("");
+
+  const regrade = useMutation({
+    mutationFn: async (body: ReviewRegradeRequest) => {
+      await apiRequest("POST", `/api/review/${item.id}/regrade`, body);
+    },
+    onSuccess: () => {
+      invalidateReviewQueries();
+      toast({ title: "Assessment regraded" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not regrade", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  const canSubmit = !!reasonCode && grade !== item.grade && (reasonCode !== "other" || !!note.trim());
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Regrade {item.sku || "assessment"}</DialogTitle>
+          <DialogDescription>
+            The AI graded this unit {item.aiGrade || item.grade}. The new grade replaces it and the change is recorded in the history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Grade</Label>
+            <Select value={grade} onValueChange={setGrade}>
+              <SelectTrigger data-testid="regrade-grade">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {regradeOptions.map(option => (
+                  <SelectItem key={option} value={option}>Grade {option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonCode} onValueChange={value => setReasonCode(value as GradeOverrideReason)}>
+              <SelectTrigger data-testid="regrade-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {gradeOverrideReasons.map(reason => (
+                  <SelectItem key={reason} value={reason}>{gradeOverrideReasonLabels[reason]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="regrade-note">Note{reasonCode === "other" ? "" : " (optional)"}</Label>
+            <Textarea id="regrade-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => reasonCode && regrade.mutate({ grade: grade as ReviewRegradeRequest["grade"], reasonCode, note: note.trim() || undefined })}
+            disabled={!canSubmit || regrade.isPending}
+            data-testid="submit-regrade"
+          >
+            {regrade.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Grade
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ReviewPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [regrading, setRegrading] = useState<ReviewItem | null>(null);
+  const { data, isLoading, isError, refetch } = useQuery<ReviewQueue>({
+    queryKey: ["/api/review/queue"],
+    staleTime: 0
+  });
+
+  const reviewAction = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "claim" | "release" | "approve" }) => {
+      await apiRequest("POST", `/api/review/${id}/${action}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidateReviewQueries();
+      if (action === "approve") {
+        toast({ title: "Assessment approved" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review action failed", description: authErrorMessage(error), variant: "destructive" });
+      invalidateReviewQueries();
+    }
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+          <ClipboardCheck className="h-8 w-8 text-primary" />
+          Review Queue
+        </h1>
+        <p className="text-muted-foreground">
+          Assessments flagged for a human check. Claim one, inspect it, then approve the AI grade or regrade it.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4" data-testid="review-loading">
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-28 w-full" />
+        </div>
+      ) : isError || !data ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="h-16 w-16 mx-auto mb-4 text-destructive" />
+            <h3 className="text-xl font-semibold mb-2">Couldn't Load the Queue</h3>
+            <Button variant="outline" onClick={() => refetch()} data-testid="retry-review-queue">Try Again</Button>
+          </CardContent>
+        </Card>
+      ) : data.items.length === 0 ? (
+        <Card data-testid="review-empty">
+          <CardContent className="p-8 text-center">
+            <CheckCircle className="h-16 w-16 mx-auto mb-4 text-chart-1" />
+            <h3 className="text-xl font-semibold mb-2">All Caught Up</h3>
+            <p className="text-muted-foreground">No assessments are waiting for review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {data.total} open {data.total === 1 ? "review" : "reviews"}
+            {data.total > data.items.length && `, showing the oldest ${data.items.length}`}
+          </p>
+          {data.items.map(item => {
+            const claimedByMe = item.reviewClaimedBy === user?.id;
+            const claimedByOther = !!item.reviewClaimedBy && !claimedByMe;
+            const reasons = (item.reviewReasons as ReviewRule[] | null) || [];
+            const busy = reviewAction.isPending && reviewAction.variables?.id === item.id;
+            const failed = item.status === "ERROR";
+
+            return (
+              <Card key={item.id} data-testid={`review-item-${item.id}`}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <GradeBadge grade={item.grade as Grade} size="sm" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">
+                        {item.brand && item.model ? `${item.brand} ${item.model}` : item.sku || "Unnamed assessment"}
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {reviewStatusLabels[item.reviewStatus as ReviewStatus] || item.reviewStatus}
+                      </Badge>
+                      {item.confidence != null && (
+                        <span className="text-xs text-muted-foreground">{Math.round(item.confidence * 100)}% confidence</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {reasons.map(reason => (
+                        <Badge key={reason} variant="secondary" className="text-xs">
+                          {reviewRuleLabels[reason] || reason}
+                        </Badge>
+                      ))}
+                    </div>
+                    {failed && item.failureReason && (
+                      <p className="text-xs text-destructive">{item.failureReason}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-3">
+                      <span>{new Date(item.assessmentDate).toLocaleString()}</span>
+                      {item.createdByName && <span>Graded by {item.createdByName}</span>}
+                      {item.reviewClaimedByName && (
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          Claimed by {claimedByMe ? "you" : item.reviewClaimedByName}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="ghost" size="sm" asChild data-testid={`review-view-${item.id}`}>
+                      <Link href={`/assessments/${item.id}`}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        View
+                      </Link>
+                    </Button>
+                    {!item.reviewClaimedBy && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => reviewAction.mutate({ id: item.id, action: "claim" })}
+                        data-testid={`review-claim-${item.id}`}
+                      >
+                        <Hand className="h-4 w-4 mr-1" />
+                        Claim
+                      </Button>
+                    )}
+                    {claimedByMe && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => reviewAction.mutate({ id: item.id, action: "release" })}
+                        data-testid={`review-release-${item.id}`}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Release
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy || claimedByOther}
+                      onClick={() => setRegrading(item)}
+                      data-testid={`review-regrade-${item.id}`}
+                    >
+                      <PenLine className="h-4 w-4 mr-1" />
+                      Regrade
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busy || claimedByOther || failed}
+                      title={failed ? "The analysis failed; regrade it or re-run it from the record" : undefined}
+                      onClick={() => reviewAction.mutate({ id: item.id, action: "approve" })}
+                      data-testid={`review-approve-${item.id}`}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {regrading && <RegradeDialog item={regrading} onClose={() => setRegrading(null)} />}
+    </div>
+  );
+}
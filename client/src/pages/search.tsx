@@ -1,164 +1,161 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import SearchFilter from "@/components/SearchFilter";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SearchFilter, { FileTypeFilter } from "@/components/SearchFilter";
 import LaptopCard, { LaptopRecord } from "@/components/LaptopCard";
 import { Grade } from "@/components/GradeBadge";
-import { Search, Database } from "lucide-react";
+import { Search, Database, Loader2, AlertCircle, RefreshCw, Upload } from "lucide-react";
+import { Link } from "wouter";
+import { isOpenReview } from "@/lib/review";
+import type { AssessmentSearchPage, AssessmentSortField } from "@shared/schema";
+
+interface SearchState {
+  query: string;
+  grades: Grade[];
+  startDate: string;
+  endDate: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  fileType: FileTypeFilter;
+  damageType: string;
+  mineOnly: boolean;
+}
+
+const sortOptions: { value: string; label: string }[] = [
+  { value: "assessmentDate:desc", label: "Newest first" },
+  { value: "assessmentDate:asc", label: "Oldest first" },
+  { value: "confidence:desc", label: "Highest confidence" },
+  { value: "confidence:asc", label: "Lowest confidence" },
+  { value: "grade:asc", label: "Grade (A to D)" },
+  { value: "grade:desc", label: "Grade (D to A)" },
+  { value: "sku:asc", label: "SKU" },
+];
+
+const PAGE_SIZE = 24;
+
+function buildSearchParams(filters: SearchState, sort: string, cursor?: string) {
+  const [sortField, order] = sort.split(":") as [AssessmentSortField, "asc" | "desc"];
+  const params = new URLSearchParams({ sort: sortField, order, limit: String(PAGE_SIZE) });
+
+  if (filters.query.trim()) params.set("q", filters.query.trim());
+  filters.grades.forEach(grade => params.append("grades", grade));
+  if (filters.startDate) params.set("startDate", filters.startDate);
+  if (filters.endDate) params.set("endDate", filters.endDate);
+  if (filters.minConfidence !== undefined) params.set("minConfidence", String(filters.minConfidence));
+  if (filters.maxConfidence !== undefined) params.set("maxConfidence", String(filters.maxConfidence));
+  if (filters.fileType !== "all") params.set("fileType", filters.fileType);
+  if (filters.damageType) params.set("damageType", filters.damageType);
+  if (filters.mineOnly) params.set("mine", "true");
+  if (cursor) params.set("cursor", cursor);
+
+  return params;
+}
+
+function toLaptopRecord(assessment: AssessmentSearchPage["items"][number]): LaptopRecord {
+  return {
+    id: assessment.id,
+    sku: assessment.sku || 'Unknown',
+    brand: assessment.brand || undefined,
+    model: assessment.model || undefined,
+    grade: assessment.grade as Grade,
+    assessmentDate: String(assessment.assessmentDate),
+    damageDescription: assessment.damageDescription || 'No description available',
+    imageUrl: assessment.imageUrl || undefined,
+    confidence: assessment.confidence ?? undefined,
+    gradedBy: assessment.createdByName || undefined,
+    needsReview: isOpenReview(assessment.reviewStatus)
+  };
+}
 
 export default function SearchPage() {
-  const [laptops, setLaptops] = useState<LaptopRecord[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  
-  // Load assessments on component mount
-  useEffect(() => {
-    loadAssessments();
-  }, []);
+  const [filters, setFilters] = useState<SearchState>({
+    query: "",
+    grades: [],
+    startDate: "",
+    endDate: "",
+    fileType: "all",
+    damageType: "",
+    mineOnly: false
+  });
+  const [sort, setSort] = useState(sortOptions[0].value);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  // Update filtered laptops when real data loads
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ["/api/assessments/search", filters, sort],
+    queryFn: async ({ pageParam }) => {
+      const params = buildSearchParams(filters, sort, pageParam);
+      const response = await fetch(`/api/assessments/search?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`Search failed (${response.status})`);
+      }
+      return await response.json() as AssessmentSearchPage;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    staleTime: 30_000
+  });
+
+  // Load the next page when the sentinel below the grid scrolls into view
   useEffect(() => {
-    const dataToShow = laptops.length > 0 ? laptops : mockLaptops;
-    setFilteredLaptops(dataToShow);
-  }, [laptops]);
-
-  const loadAssessments = async () => {
-    setIsLoading(true);
-    try {
-      const response = await fetch('/api/assessments');
-      if (response.ok) {
-        const assessments = await response.json();
-        const laptopRecords: LaptopRecord[] = assessments.map((assessment: any) => ({
-          id: assessment.id,
-          sku: assessment.sku || 'Unknown',
-          brand: assessment.brand || undefined,
-          model: assessment.model || undefined,
-          grade: assessment.grade,
-          assessmentDate: new Date(assessment.assessmentDate).toLocaleDateString(),
-          damageDescription: assessment.damageDescription || 'No description available',
-          imageUrl: assessment.imageUrl || undefined,
-          confidence: assessment.confidence
-        }));
-        setLaptops(laptopRecords);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
       }
-    } catch (error) {
-      console.error('Failed to load assessments:', error);
-    } finally {
-      setIsLoading(false);
-    }
+    }, { rootMargin: "200px" });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const records = data?.pages.flatMap(page => page.items.map(toLaptopRecord)) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const hasActiveFilters = !!(filters.query.trim() || filters.grades.length > 0 || filters.startDate || filters.endDate ||
+    filters.minConfidence !== undefined || filters.maxConfidence !== undefined || filters.fileType !== "all" || filters.damageType || filters.mineOnly);
+
+  const updateFilters = (updates: Partial<SearchState>) => {
+    setFilters(prev => ({ ...prev, ...updates }));
   };
-  
-  // Mock data for demonstration (remove when database has data)
-  const mockLaptops: LaptopRecord[] = [
-    {
-      id: "1",
-      sku: "LT001",
-      brand: "Dell",
-      model: "Latitude 5520",
-      grade: "A",
-      assessmentDate: "2024-01-15",
-      damageDescription: "Excellent condition with minimal wear on keyboard area",
-      imageUrl: "https://via.placeholder.com/300x200/f3f4f6/9ca3af?text=Dell+Laptop",
-      confidence: 0.95
-    },
-    {
-      id: "2", 
-      sku: "LT002",
-      brand: "HP",
-      model: "EliteBook 840",
-      grade: "C",
-      assessmentDate: "2024-01-14",
-      damageDescription: "Moderate scratches on lid, dent on corner, screen in good condition",
-      confidence: 0.87
-    },
-    {
-      id: "3",
-      sku: "LT003",
-      brand: "Lenovo",
-      model: "ThinkPad X1",
-      grade: "B",
-      assessmentDate: "2024-01-13",
-      damageDescription: "Good condition with light usage wear, minimal scratches",
-      imageUrl: "https://via.placeholder.com/300x200/f3f4f6/9ca3af?text=ThinkPad",
-      confidence: 0.92
-    },
-    {
-      id: "4",
-      sku: "LT004",
-      brand: "Apple",
-      model: "MacBook Pro",
-      grade: "A",
-      assessmentDate: "2024-01-12",
-      damageDescription: "Near perfect condition, very minor wear on corners",
-      imageUrl: "https://via.placeholder.com/300x200/f3f4f6/9ca3af?text=MacBook",
-      confidence: 0.98
-    },
-    {
-      id: "5",
-      sku: "LT005",
-      brand: "ASUS",
-      model: "ZenBook",
-      grade: "D",
-      assessmentDate: "2024-01-11", 
-      damageDescription: "Heavy damage: cracked screen bezel, multiple dents, worn keyboard",
-      imageUrl: "https://via.placeholder.com/300x200/f3f4f6/9ca3af?text=ZenBook",
-      confidence: 0.89
-    },
-    {
-      id: "6",
-      sku: "LT006",
-      brand: "Unknown",
-      model: "Unknown",
-      grade: "PENDING",
-      assessmentDate: "2024-01-16",
-      damageDescription: "Assessment in progress...",
-      imageUrl: "https://via.placeholder.com/300x200/f3f4f6/9ca3af?text=Processing",
-      confidence: 0.0
-    }
-  ];
-
-  const [filteredLaptops, setFilteredLaptops] = useState<LaptopRecord[]>([]);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedGrades, setSelectedGrades] = useState<Grade[]>([]);
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    applyFilters(query, selectedGrades);
+    updateFilters({ query });
   };
 
   const handleGradeFilter = (grades: Grade[]) => {
-    setSelectedGrades(grades);
-    applyFilters(searchQuery, grades);
+    updateFilters({ grades });
   };
 
   const handleDateRangeFilter = (start: string, end: string) => {
-    console.log('Date range filter:', start, end);
-    // TODO: Implement date filtering
+    updateFilters({ startDate: start, endDate: end });
+  };
+
+  const handleConfidenceRangeFilter = (min: number | undefined, max: number | undefined) => {
+    updateFilters({ minConfidence: min, maxConfidence: max });
+  };
+
+  const handleFileTypeFilter = (fileType: FileTypeFilter) => {
+    updateFilters({ fileType });
   };
 
-  const applyFilters = (query: string, grades: Grade[]) => {
-    // Use real data if available, fallback to mock data for demonstration
-    const dataToFilter = laptops.length > 0 ? laptops : mockLaptops;
-    let filtered = dataToFilter;
-
-    // Apply search query filter
-    if (query.trim()) {
-      filtered = filtered.filter(laptop => 
-        laptop.sku.toLowerCase().includes(query.toLowerCase()) ||
-        laptop.brand?.toLowerCase().includes(query.toLowerCase()) ||
-        laptop.model?.toLowerCase().includes(query.toLowerCase())
-      );
-    }
-
-    // Apply grade filter
-    if (grades.length > 0) {
-      filtered = filtered.filter(laptop => grades.includes(laptop.grade));
-    }
-
-    setFilteredLaptops(filtered);
+  const handleDamageTypeFilter = (damageType: string) => {
+    updateFilters({ damageType });
   };
 
-  const handleViewDetails = (laptop: LaptopRecord) => {
-    console.log('View details for:', laptop.sku);
-    // TODO: Navigate to laptop details page or open modal
+  const handleMineOnlyFilter = (mineOnly: boolean) => {
+    updateFilters({ mineOnly });
   };
 
   return (
@@ -180,18 +177,78 @@ export default function SearchPage() {
           onSearch={handleSearch}
           onGradeFilter={handleGradeFilter}
           onDateRangeFilter={handleDateRangeFilter}
+          onConfidenceRangeFilter={handleConfidenceRangeFilter}
+          onFileTypeFilter={handleFileTypeFilter}
+          onDamageTypeFilter={handleDamageTypeFilter}
+          onMineOnlyFilter={handleMineOnlyFilter}
         />
       </div>
 
       {/* Results */}
       <div className="space-y-6">
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-4">
           <h2 className="text-xl font-semibold">
-            Assessment Records ({filteredLaptops.length})
+            Assessment Records{data ? ` (${total})` : ''}
           </h2>
+          <Select value={sort} onValueChange={setSort}>
+            <SelectTrigger className="w-48" data-testid="sort-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
-        {filteredLaptops.length === 0 ? (
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6" data-testid="records-loading">
+            {Array.from({ length: 8 }, (_, index) => (
+              <Card key={index}>
+                <CardContent className="p-6 space-y-3">
+                  <Skeleton className="h-4 w-2/3" />
+                  <Skeleton className="h-3 w-1/3" />
+                  <Skeleton className="aspect-video w-full" />
+                  <Skeleton className="h-3 w-full" />
+                  <Skeleton className="h-8 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : isError ? (
+          <Card data-testid="records-error">
+            <CardContent className="p-8 text-center">
+              <AlertCircle className="h-16 w-16 mx-auto mb-4 text-destructive" />
+              <h3 className="text-xl font-semibold mb-2">Couldn't Load Records</h3>
+              <p className="text-muted-foreground mb-4">
+                Something went wrong while loading assessment records. Check your connection and try again.
+              </p>
+              <Button variant="outline" onClick={() => refetch()} data-testid="retry-records">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : records.length === 0 && !hasActiveFilters ? (
+          <Card data-testid="records-empty">
+            <CardContent className="p-8 text-center">
+              <Database className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-xl font-semibold mb-2">No Assessments Yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Assessed laptops will appear here. Upload photos or a video to create the first record.
+              </p>
+              <Button asChild data-testid="go-to-upload">
+                <Link href="/">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Upload & Assess
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : records.length === 0 ? (
           <Card>
             <CardContent className="p-8 text-center">
               <Search className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
@@ -203,16 +260,29 @@ export default function SearchPage() {
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredLaptops.map(laptop => (
+            {records.map(laptop => (
               <LaptopCard
                 key={laptop.id}
                 laptop={laptop}
-                onViewDetails={handleViewDetails}
               />
             ))}
           </div>
         )}
+
+        {!isError && hasNextPage && (
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="load-more"
+            >
+              {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
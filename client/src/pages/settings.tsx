@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useForm, useFieldArray, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, Plus, Save, Settings, Trash2 } from "lucide-react";
+import { authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { conditionLabel, rubricComponentLabels } from "@/lib/rubric";
+import {
+  assessmentGrades,
+  componentConditions,
+  createRubricSchema,
+  rubricComponents,
+  type CreateRubricRequest,
+  type RubricComponent,
+  type PresentedRubric
+} from "@shared/schema";
+
+interface RubricFormProps {
+  active: PresentedRubric; // Saving creates the version after this one
+  startFrom: PresentedRubric; // Version whose definition the form starts from; an older one to roll back
+}
+
+function RubricForm({ active, startFrom }: RubricFormProps) {
+  const { toast } = useToast();
+  const form = useForm<CreateRubricRequest>({
+    resolver: zodResolver(createRubricSchema),
+    defaultValues: { baseVersion: active.version, definition: startFrom.definition, note: "" }
+  });
+  const hardFailRules = useFieldArray({ control: form.control, name: "definition.hardFailRules" });
+
+  const saveRubric = useMutation({
+    mutationFn: async (values: CreateRubricRequest) => {
+      const res = await apiRequest("POST", "/api/rubric", values);
+      return (await res.json()) as PresentedRubric;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rubric/versions"] });
+      toast({ title: `Rubric version ${saved.version} saved`, description: "New assessments are graded against it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save rubric", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => saveRubric.mutate(values))} className="space-y-6">
+        {assessmentGrades.map((grade, gradeIndex) => (
+          <div key={grade} className="border rounded-lg p-4 space-y-4" data-testid={`rubric-grade-${grade}`}>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name={`definition.grades.${gradeIndex}.label`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Grade {grade} label</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid={`rubric-label-${grade}`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`definition.grades.${gradeIndex}.summary`}
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Summary</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid={`rubric-summary-${grade}`} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {rubricComponents.map(component => (
+                <FormField
+                  key={component}
+                  control={form.control}
+                  name={`definition.grades.${gradeIndex}.criteria.${component}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{rubricComponentLabels[component]}</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} data-testid={`rubric-criteria-${grade}-${component}`} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium">Condition grades</h3>
+            <p className="text-sm text-muted-foreground">
+              The model reports a condition for each component; the final grade is the worst grade these conditions allow.
+            </p>
+          </div>
+          <Table>
+            <TableBody>
+              {rubricComponents.map(component => (
+                <TableRow key={component} data-testid={`condition-grades-${component}`}>
+                  <TableCell className="font-medium w-28">{rubricComponentLabels[component]}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-3">
+                      {componentConditions[component].map(condition => (
+                        <FormField
+                          key={condition}
+                          control={form.control}
+                          name={`definition.conditionGrades.${component}.${condition}` as FieldPath<CreateRubricRequest>}
+                          render={({ field }) => (
+                            <FormItem className="space-y-1">
+                              <FormLabel className="text-xs text-muted-foreground">{conditionLabel(condition)}</FormLabel>
+                              <Select value={field.value as string} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger className="w-20 h-8" data-testid={`condition-grade-${component}-${condition}`}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {assessmentGrades.map(grade => (
+                                    <SelectItem key={grade} value={grade}>{grade}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium">Hard-fail rules</h3>
+            <p className="text-sm text-muted-foreground">
+              A reported condition that caps the grade whatever the rest of the laptop looks like, e.g. keyboard missing keys → D.
+            </p>
+          </div>
+          {hardFailRules.fields.map((rule, index) => (
+            <div key={rule.id} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_7rem_auto] gap-3 items-start" data-testid={`hard-fail-rule-${index}`}>
+              <FormField
+                control={form.control}
+                name={`definition.hardFailRules.${index}.component`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        // Conditions belong to a component, so switch to the new component's worst one
+                        const conditions = componentConditions[value as RubricComponent];
+                        form.setValue(`definition.hardFailRules.${index}.condition`, conditions[conditions.length - 1]);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger aria-label="Component">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rubricComponents.map(component => (
+                          <SelectItem key={component} value={component}>{rubricComponentLabels[component]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`definition.hardFailRules.${index}.condition`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Condition">
+                          <SelectValue placeholder="Condition" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {componentConditions[form.watch(`definition.hardFailRules.${index}.component`)].map(condition => (
+                          <SelectItem key={condition} value={condition}>{conditionLabel(condition)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`definition.hardFailRules.${index}.grade`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger aria-label="Best grade allowed">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {assessmentGrades.map(grade => (
+                          <SelectItem key={grade} value={grade}>{grade} at best</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => hardFailRules.remove(index)}
+                title="Remove rule"
+                data-testid={`remove-hard-fail-rule-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => hardFailRules.append({ component: "chassis", condition: "cracked", grade: "D" })}
+            data-testid="add-hard-fail-rule"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>What changed</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional note for the version history" {...field} data-testid="rubric-note" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={saveRubric.isPending} data-testid="save-rubric">
+            {saveRubric.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save as Version {active.version + 1}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export default function SettingsPage() {
+  const [startVersion, setStartVersion] = useState<number | null>(null);
+  const { data: versions, isLoading, isError, refetch } = useQuery<PresentedRubric[]>({
+    queryKey: ["/api/rubric/versions"]
+  });
+
+  const active = versions?.[0];
+  const startFrom = versions?.find(rubric => rubric.version === startVersion) || active;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+          <Settings className="h-8 w-8 text-primary" />
+          Settings
+        </h1>
+        <p className="text-muted-foreground">
+          The grading rubric is included in every AI prompt and its condition grades decide the final grade. Each save creates a new version; assessments keep the version they were graded against.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : isError || !active || !startFrom ? (
+        <div className="text-center py-6">
+          <p className="text-muted-foreground mb-4">Failed to load the grading rubric.</p>
+          <Button variant="outline" onClick={() => refetch()} data-testid="retry-rubric">Try Again</Button>
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                Grading Rubric
+                <Badge variant="outline" className="text-xs">
+                  {startFrom.version === active.version ? `Version ${active.version}` : `Starting from version ${startFrom.version}`}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RubricForm key={`${active.version}-${startFrom.version}`} active={active} startFrom={startFrom} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Version History ({versions.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Saved</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead className="w-32" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map(rubric => (
+                    <TableRow key={rubric.version} data-testid={`rubric-version-${rubric.version}`}>
+                      <TableCell className="font-medium">
+                        {rubric.version}
+                        {rubric.version === active.version && <Badge variant="secondary" className="ml-2 text-xs">Active</Badge>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{new Date(rubric.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-muted-foreground">{rubric.createdByName || "System"}</TableCell>
+                      <TableCell className="text-muted-foreground">{rubric.note || "—"}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setStartVersion(rubric.version)}
+                          disabled={rubric.version === startFrom.version}
+                          data-testid={`edit-from-rubric-${rubric.version}`}
+                        >
+                          Edit from here
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
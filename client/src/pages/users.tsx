@@ -0,0 +1,209 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, UserPlus, Users } from "lucide-react";
+import { useAuth, authErrorMessage } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { registerUserSchema, userRoles, type PublicUser, type RegisterUserRequest, type UserRole } from "@shared/schema";
+
+const roleLabels: Record<UserRole, string> = {
+  technician: "Technician",
+  supervisor: "Supervisor",
+  admin: "Admin"
+};
+
+function CreateUserForm() {
+  const { toast } = useToast();
+  const form = useForm<RegisterUserRequest>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: "", password: "", role: "technician" }
+  });
+
+  const createUser = useMutation({
+    mutationFn: async (details: RegisterUserRequest) => {
+      const res = await apiRequest("POST", "/api/register", details);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      form.reset();
+      toast({ title: "Account created", description: `${created.username} can now sign in.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create account", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(values => createUser.mutate(values))}
+        className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start"
+      >
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="off" {...field} data-testid="new-user-username" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Initial Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="new-user-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Role</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger data-testid="new-user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="md:mt-8" disabled={createUser.isPending} data-testid="create-user">
+          {createUser.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+          Add User
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function UsersPage() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const { data: users, isLoading, isError, refetch } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"]
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}`, { role });
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change role", description: authErrorMessage(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+          <Users className="h-8 w-8 text-primary" />
+          Users
+        </h1>
+        <p className="text-muted-foreground">
+          Technicians grade devices, supervisors can also delete records, and admins manage accounts.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Add User</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CreateUserForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Accounts{users ? ` (${users.length})` : ""}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : isError || !users ? (
+            <div className="text-center py-6">
+              <p className="text-muted-foreground mb-4">Failed to load users.</p>
+              <Button variant="outline" onClick={() => refetch()} data-testid="retry-users">Try Again</Button>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-48">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(account => (
+                  <TableRow key={account.id} data-testid={`user-row-${account.id}`}>
+                    <TableCell className="font-medium">
+                      {account.username}
+                      {account.id === currentUser?.id && <span className="text-muted-foreground"> (you)</span>}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(account.createdAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={account.role}
+                        onValueChange={role => updateRole.mutate({ id: account.id, role: role as UserRole })}
+                        disabled={account.id === currentUser?.id || updateRole.isPending}
+                      >
+                        <SelectTrigger data-testid={`user-role-${account.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {userRoles.map(role => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,35 +1,109 @@
-import OpenAI from 'openai';
-import { extractVideoFrames, checkFFmpegAvailability, VideoFrameExtractionResult } from './video-utils';
+import { getVisionProvider, type ProviderUsage } from './ai-providers';
+import { extractVideoFrames, checkFFmpegAvailability, VideoFrameExtractionResult, FrameSelectionReport } from './video-utils';
 import { z } from 'zod';
-import sharp from 'sharp';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Verify API key is available
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY environment variable is required');
-}
+import { convertToJpeg, SUPPORTED_IMAGE_TYPES } from './image-conversion';
+import { analysisCacheKey, isAnalysisCacheEnabled, readCachedAnalysis, writeCachedAnalysis } from './analysis-cache';
+import { getActiveRubric } from './grading-rubric';
+import { deriveGrade } from './grade-rules';
+import { renderPrompt } from './prompts';
+import { componentConditions, type AnalysisCacheStatus, type ComponentConditions, type FindingBoundingBox, type GradeDerivation, type GradingRubric } from '@shared/schema';
 
 export interface DetailedFinding {
   category: string;
   severity: 'Low' | 'Medium' | 'High';
   description: string;
+  boundingBox?: FindingBoundingBox;
+}
+
+// Boxes smaller than this share of the image's width or height are too small to point at anything
+const MIN_BOX_SIZE = 0.005;
+
+const boundingBoxSchema = z.object({
+  imageIndex: z.number().int().min(1).optional(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive()
+});
+
+// A clamped box before it is tied to an image; the model may leave out imageIndex where it is implied
+type UnplacedBoundingBox = Omit<FindingBoundingBox, 'imageIndex'> & { imageIndex?: number };
+
+/**
+ * Clamp a model-provided box into the image; boxes given in percent are rescaled, pixel boxes cannot be and are dropped
+ */
+function clampBoundingBox(box: z.infer<typeof boundingBoxSchema>): UnplacedBoundingBox | undefined {
+  const values = [box.x, box.y, box.width, box.height];
+  if (values.some(value => value > 100)) {
+    return undefined;
+  }
+  const scale = values.some(value => value > 1) ? 100 : 1;
+
+  const x = Math.min(Math.max(box.x / scale, 0), 1);
+  const y = Math.min(Math.max(box.y / scale, 0), 1);
+  const width = Math.min(box.width / scale + Math.min(box.x / scale, 0), 1 - x);
+  const height = Math.min(box.height / scale + Math.min(box.y / scale, 0), 1 - y);
+  if (width < MIN_BOX_SIZE || height < MIN_BOX_SIZE) {
+    return undefined;
+  }
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return { imageIndex: box.imageIndex, x: round(x), y: round(y), width: round(width), height: round(height) };
 }
 
-// Validation schema for AI assessment responses
+// Validation schema for AI assessment responses; a malformed box is dropped rather than failing the whole analysis
 const detailedFindingSchema = z.object({
   category: z.string(),
   severity: z.enum(['Low', 'Medium', 'High']),
-  description: z.string()
+  description: z.string(),
+  boundingBox: boundingBoxSchema.nullish().catch(null).transform(box => box ? clampBoundingBox(box) : undefined)
 });
 
+/**
+ * Tie each finding's box to an analyzed image: per-image findings belong to their own image, overall findings
+ * must name one that exists (or there is only one); boxes that cannot be placed are dropped
+ */
+function placeBoundingBoxes(
+  findings: z.infer<typeof detailedFindingSchema>[],
+  imageCount: number,
+  imageIndex?: number
+): DetailedFinding[] {
+  return findings.map(({ boundingBox, ...finding }) => {
+    const index = imageIndex ?? boundingBox?.imageIndex ?? (imageCount === 1 ? 1 : undefined);
+    if (!boundingBox || !index || index > imageCount) {
+      return finding;
+    }
+    return { ...finding, boundingBox: { ...boundingBox, imageIndex: index } };
+  });
+}
+
+function componentConditionSchema<T extends string>(levels: readonly [T, ...T[]]) {
+  return z.enum([...levels, 'not-visible']).catch('not-visible');
+}
+
+const NOTHING_VISIBLE: ComponentConditions = {
+  chassis: 'not-visible',
+  screen: 'not-visible',
+  hinges: 'not-visible',
+  keyboard: 'not-visible',
+  ports: 'not-visible'
+};
+
+// An unknown condition counts as not visible, so the grade rules skip that component instead of failing the analysis
+const componentConditionsSchema = z.object({
+  chassis: componentConditionSchema(componentConditions.chassis),
+  screen: componentConditionSchema(componentConditions.screen),
+  hinges: componentConditionSchema(componentConditions.hinges),
+  keyboard: componentConditionSchema(componentConditions.keyboard),
+  ports: componentConditionSchema(componentConditions.ports)
+}).catch(NOTHING_VISIBLE);
+
 const aiAssessmentResponseSchema = z.object({
   grade: z.enum(['A', 'B', 'C', 'D']),
   confidence: z.number().min(0).max(1),
   overallCondition: z.string(),
   damageTypes: z.array(z.string()),
+  componentConditions: componentConditionsSchema,
   detailedFindings: z.array(detailedFindingSchema)
 });
 
@@ -45,13 +119,26 @@ function validateAIResponse(response: any): z.infer<typeof aiAssessmentResponseS
   }
 }
 
+// What produced an analysis, stamped on the assessment so results can be compared across prompt and model changes
+export interface ModelRun {
+  modelName: string; // As reported by the provider, e.g. gpt-4o-2024-08-06
+  promptVersion: string; // "<prompt id>@<version>" from the prompt registry (prompts.ts)
+  usage: ProviderUsage | null; // Null when the analysis came from the cache, since no model call was made
+  rawResponse: string | null; // Model output before validation; null for cache entries saved before raw responses were kept
+}
+
 export interface AIAssessmentResult {
-  grade: 'A' | 'B' | 'C' | 'D';
+  grade: 'A' | 'B' | 'C' | 'D'; // Derived by the grade rules from componentConditions
+  modelGrade: 'A' | 'B' | 'C' | 'D'; // Grade the model suggested
   confidence: number;
   overallCondition: string;
   damageTypes: string[];
+  componentConditions: ComponentConditions;
+  gradeDerivation: GradeDerivation;
   detailedFindings: DetailedFinding[];
   processingTime: number;
+  rubricVersion: number; // Grading rubric version the prompt was built from
+  modelRun: ModelRun;
   videoMetadata?: {
     duration: number;
     width: number;
@@ -67,16 +154,43 @@ export interface ImageAnalysisDetail {
   damageTypes: string[];
   detailedFindings: DetailedFinding[];
   originalFileName?: string;
+  timestamp?: number; // Position in seconds when the image is a video frame
 }
 
 export interface MultiImageAssessmentResult {
-  grade: 'A' | 'B' | 'C' | 'D';
+  grade: 'A' | 'B' | 'C' | 'D'; // Derived by the grade rules from componentConditions
+  modelGrade: 'A' | 'B' | 'C' | 'D'; // Grade the model suggested
   confidence: number;
   overallCondition: string;
   damageTypes: string[];
+  componentConditions: ComponentConditions;
+  gradeDerivation: GradeDerivation;
   detailedFindings: DetailedFinding[];
   imageAnalyses: ImageAnalysisDetail[];
   processingTime: number;
+  rubricVersion: number; // Grading rubric version the prompt was built from
+  modelRun: ModelRun;
+  cache: AnalysisCacheStatus; // Whether the model output was reused from an identical earlier submission
+}
+
+export interface VideoAssessmentResult extends MultiImageAssessmentResult {
+  videoMetadata: {
+    duration: number;
+    width: number;
+    height: number;
+    fps: number;
+    framesAnalyzed: number;
+    frameSelection?: FrameSelectionReport; // Why each frame was chosen
+  };
+}
+
+export interface BatchAssessmentOptions {
+  force?: boolean; // Skip the analysis cache and always call the model
+}
+
+export interface VideoAssessmentOptions extends BatchAssessmentOptions {
+  frameCount?: number; // Number of frames to extract and analyze (default: VIDEO_FRAME_COUNT or 5)
+  onStage?: (stage: 'extracting-frames' | 'calling-model') => void; // Progress hook for background jobs
 }
 
 interface PreparedImage {
@@ -89,6 +203,7 @@ const multiImageAnalysisSchema = z.object({
   confidence: z.number().min(0).max(1),
   overallCondition: z.string(),
   damageTypes: z.array(z.string()),
+  componentConditions: componentConditionsSchema,
   detailedFindings: z.array(detailedFindingSchema),
   imageAnalyses: z.array(z.object({
     imageIndex: z.number().int().min(1),
@@ -99,6 +214,9 @@ const multiImageAnalysisSchema = z.object({
   }))
 });
 
+// Longest side sent to the vision model; OpenAI's high-detail mode scales larger images down to fit 2048px anyway
+const VISION_MAX_DIMENSION = parseInt(process.env.VISION_MAX_DIMENSION || '2048', 10) || 2048;
+
 async function prepareImageForVision(imageBase64: string, mimeType: string = 'image/jpeg'): Promise<PreparedImage> {
   // Validate image format and size
   if (!imageBase64 || imageBase64.length < 50) {
@@ -111,17 +229,13 @@ async function prepareImageForVision(imageBase64: string, mimeType: string = 'im
     throw new Error('Invalid image data format. Please try uploading a different image.');
   }
 
-  const originalSupportedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif'];
-  if (!originalSupportedTypes.includes(mimeType.toLowerCase())) {
-    throw new Error(`Image format '${mimeType}' is not supported by the AI vision system. Please upload a JPEG, PNG, GIF, WebP, or HEIC image.`);
+  if (!SUPPORTED_IMAGE_TYPES.includes(mimeType.toLowerCase())) {
+    throw new Error(`Image format '${mimeType}' is not supported by the AI vision system. Please upload a JPEG, PNG, GIF, WebP, HEIC, TIFF, or BMP image.`);
   }
 
   try {
-    const imageBuffer = Buffer.from(cleanBase64, 'base64');
-    await sharp(imageBuffer).metadata();
-    const reprocessedBuffer = await sharp(imageBuffer)
-      .jpeg({ quality: 95, mozjpeg: true })
-      .toBuffer();
+    // HEIC, TIFF and BMP are converted here too; every provider receives an upright JPEG
+    const reprocessedBuffer = await convertToJpeg(Buffer.from(cleanBase64, 'base64'), mimeType, { maxDimension: VISION_MAX_DIMENSION });
 
     return {
       processedBase64: reprocessedBuffer.toString('base64'),
@@ -137,68 +251,23 @@ export async function assessLaptopDamage(imageBase64: string, mimeType: string =
   const startTime = Date.now();
 
   const { processedBase64, processedMimeType } = await prepareImageForVision(imageBase64, mimeType);
+  const rubric = await getActiveRubric();
+  const prompt = renderPrompt('single-image', { rubric });
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // Using gpt-4o which supports vision capabilities
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `You are a professional laptop condition assessor. Analyze this laptop image and provide a detailed damage assessment.
-
-Return your assessment as a JSON object with this exact structure:
-{
-  "grade": "A" | "B" | "C" | "D",
-  "confidence": 0.0 to 1.0,
-  "overallCondition": "Brief overall condition summary",
-  "damageTypes": ["array", "of", "damage", "types"],
-  "detailedFindings": [
-    {
-      "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
-      "severity": "Low" | "Medium" | "High",
-      "description": "Detailed description of findings"
-    }
-  ]
-}
-
-Grading Scale (Based on Visual Assessment):
-- Grade A (Excellent): Excellent condition on all sides (top, bottom, left, right, front, back). Excellent screen with no visible damage. Good hinges. Complete keyboard with no missing keys. Like new appearance.
-- Grade B (Very Good to Good): Fully functional appearance. Excellent to moderate scratches/dents on chassis. Excellent to moderate screen condition. Good hinges visible. Complete keyboard with no missing keys. Minor to moderate cosmetic wear acceptable.
-- Grade C (Fair): Moderate to severe cosmetic wear acceptable. Any screen condition (excellent/minor/moderate/severe). Hinges may appear loose but present. Complete keyboard. Heavy cosmetic wear or visible flaws, but structurally intact.
-- Grade D (Poor / Parts Only): Severe damage including cracks on chassis or screen. Bad or broken hinges visible. Missing keyboard keys. Major structural damage. Non-functional appearance or parts-only condition.
-
-Focus on Visual Assessment:
-- Chassis condition: Assess scratches and dents on all visible sides (top, bottom, left, right, front, back)
-- Screen condition: Look for cracks, dead pixels, lines, scratches, or other visible damage
-- Hinges: Check if hinges appear intact, loose, or broken/damaged
-- Keyboard: Verify all keys are present and intact (look for missing keys)
-- Overall structural integrity: Assess for cracks, major dents, or broken components
-
-Be thorough but concise. Provide realistic confidence scores based on image quality and visibility of potential issues.`
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${processedMimeType};base64,${processedBase64}`
-              }
-            }
-          ]
-        }
-      ],
-      max_completion_tokens: 1000,
-      temperature: 0.1,
-      response_format: { type: "json_object" }
+    const response = await getVisionProvider().analyzeImages({
+      prompt: prompt.text,
+      images: [{ base64: processedBase64, mimeType: processedMimeType }],
+      maxTokens: 1200,
+      temperature: 0.1
     });
 
     const processingTime = (Date.now() - startTime) / 1000;
 
-    const content = response.choices?.[0]?.message?.content;
+    const content = response.content;
 
     if (!content) {
-      throw new Error(`No response content from OpenAI. Response had ${response.choices?.length || 0} choices. First choice finish reason: ${response.choices?.[0]?.finish_reason || 'unknown'}`);
+      throw new Error(`No response content from ${response.model}. Finish reason: ${response.finishReason || 'unknown'}`);
     }
 
     try {
@@ -210,15 +279,19 @@ Be thorough but concise. Provide realistic confidence scores based on image qual
 
       return {
         ...validatedResult,
-        processingTime
+        ...applyGradeRules(validatedResult, rubric),
+        detailedFindings: placeBoundingBoxes(validatedResult.detailedFindings, 1),
+        processingTime,
+        rubricVersion: rubric.version,
+        modelRun: { modelName: response.model, promptVersion: prompt.promptVersion, usage: response.usage ?? null, rawResponse: content }
       };
     } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
+      console.error('Failed to parse AI response:', content);
       throw new Error('Invalid JSON response from AI assessment');
     }
 
   } catch (error: any) {
-    console.error('OpenAI API error:', error);
+    console.error('AI provider error:', error);
 
     // Provide more specific error messages for common OpenAI errors
     if (error?.code === 'image_parse_error') {
@@ -237,108 +310,137 @@ Be thorough but concise. Provide realistic confidence scores based on image qual
   }
 }
 
-export async function assessLaptopDamageBatch(images: { base64: string; mimeType: string; originalFileName?: string }[]): Promise<MultiImageAssessmentResult> {
+interface LabeledImage extends PreparedImage {
+  label: string;
+  originalFileName?: string;
+}
+
+
+// Replace the model's grade with the one the grade rules derive from its component conditions, keeping the model's as modelGrade
+function applyGradeRules(
+  analysis: { grade: 'A' | 'B' | 'C' | 'D'; componentConditions: ComponentConditions },
+  rubric: GradingRubric
+): Pick<MultiImageAssessmentResult, 'grade' | 'modelGrade' | 'gradeDerivation'> {
+  const gradeDerivation = deriveGrade(rubric, analysis.componentConditions, analysis.grade);
+  return { grade: gradeDerivation.grade, modelGrade: analysis.grade, gradeDerivation };
+}
+
+// Attach the uploaded file names and place finding boxes on a validated model response; a cached response may carry an earlier upload's names
+function withFileNames(
+  analysis: z.infer<typeof multiImageAnalysisSchema>,
+  images: LabeledImage[]
+): Omit<MultiImageAssessmentResult, 'processingTime' | 'rubricVersion' | 'modelRun' | 'cache' | 'modelGrade' | 'gradeDerivation'> {
+  return {
+    ...analysis,
+    detailedFindings: placeBoundingBoxes(analysis.detailedFindings, images.length),
+    imageAnalyses: analysis.imageAnalyses.map((imageAnalysis) => ({
+      ...imageAnalysis,
+      detailedFindings: placeBoundingBoxes(imageAnalysis.detailedFindings, images.length, imageAnalysis.imageIndex),
+      originalFileName:
+        images[imageAnalysis.imageIndex - 1]?.originalFileName ||
+        imageAnalysis.originalFileName ||
+        undefined,
+    }))
+  };
+}
+
+/**
+ * Send several prepared images in one request, graded against the active rubric, and validate the per-image and overall analysis;
+ * identical images (same bytes, prompt and rubric version and model) are answered from the analysis cache unless forced
+ */
+async function requestMultiImageAssessment(
+  images: LabeledImage[],
+  source: 'photos' | 'video',
+  { force = false }: BatchAssessmentOptions = {}
+): Promise<Omit<MultiImageAssessmentResult, 'processingTime'>> {
+  const provider = getVisionProvider();
+  const rubric = await getActiveRubric();
+  const prompt = renderPrompt('multi-image', { count: images.length, source, rubric });
+  const cachedPromptVersion = `${prompt.promptVersion}+rubric.${rubric.version}`;
+  const cacheEnabled = isAnalysisCacheEnabled();
+  const cacheKey = analysisCacheKey({
+    images: images.map(image => image.processedBase64),
+    source,
+    promptVersion: cachedPromptVersion,
+    model: provider.model
+  });
+
+  if (cacheEnabled && !force) {
+    const entry = await readCachedAnalysis(cacheKey);
+    const cached = multiImageAnalysisSchema.safeParse(entry?.result);
+    if (entry && cached.success) {
+      // The model snapshot and output of the call that filled the entry, so the assessment records what produced its grade
+      return {
+        ...withFileNames(cached.data, images),
+        ...applyGradeRules(cached.data, rubric),
+        rubricVersion: rubric.version,
+        modelRun: { modelName: entry.modelName, promptVersion: prompt.promptVersion, usage: null, rawResponse: entry.rawResponse },
+        cache: 'hit'
+      };
+    }
+  }
+
+  const response = await provider.analyzeImages({
+    prompt: prompt.text,
+    images: images.map(image => ({
+      label: image.label,
+      base64: image.processedBase64,
+      mimeType: image.processedMimeType
+    })),
+    // Every extra image adds a per-image analysis to the response
+    maxTokens: Math.max(1400, 400 + images.length * 300),
+    temperature: 0.1
+  });
+
+  const responseContent = response.content;
+  if (!responseContent) {
+    throw new Error(`No response content from ${response.model} when processing ${images.length} image(s). Finish reason: ${response.finishReason || 'unknown'}`);
+  }
+
+  const parsed = JSON.parse(responseContent);
+  const validated = multiImageAnalysisSchema.parse(parsed);
+
+  if (cacheEnabled) {
+    await writeCachedAnalysis({ cacheKey, modelName: response.model, promptVersion: cachedPromptVersion, result: validated, rawResponse: responseContent });
+  }
+
+  return {
+    ...withFileNames(validated, images),
+    ...applyGradeRules(validated, rubric),
+    rubricVersion: rubric.version,
+    modelRun: { modelName: response.model, promptVersion: prompt.promptVersion, usage: response.usage ?? null, rawResponse: responseContent },
+    cache: !cacheEnabled ? 'disabled' : force ? 'bypass' : 'miss'
+  };
+}
+
+export async function assessLaptopDamageBatch(
+  images: { base64: string; mimeType: string; originalFileName?: string }[],
+  options: BatchAssessmentOptions = {}
+): Promise<MultiImageAssessmentResult> {
   if (!images || images.length === 0) {
     throw new Error('No images provided for assessment');
   }
 
   const startTime = Date.now();
 
-  const processedImages: { processedBase64: string; processedMimeType: string; originalFileName?: string }[] = [];
+  const processedImages: LabeledImage[] = [];
 
-  for (const image of images) {
+  for (let index = 0; index < images.length; index++) {
+    const image = images[index];
     const prepared = await prepareImageForVision(image.base64, image.mimeType);
     processedImages.push({
-      processedBase64: prepared.processedBase64,
-      processedMimeType: prepared.processedMimeType,
+      ...prepared,
+      label: `Image ${index + 1}${image.originalFileName ? ` (${image.originalFileName})` : ''}`,
       originalFileName: image.originalFileName
     });
   }
 
-  const analysisInstruction = `You are a professional laptop condition assessor. You will receive ${processedImages.length} laptop photo${processedImages.length > 1 ? 's' : ''}.
-
-For each photo, provide a thorough analysis BEFORE giving the overall grade. Return a JSON object with this exact structure:
-{
-  "grade": "A" | "B" | "C" | "D",
-  "confidence": 0.0 to 1.0,
-  "overallCondition": "Overall summary after reviewing every image",
-  "damageTypes": ["array", "of", "damage", "types"],
-  "detailedFindings": [
-    {
-      "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
-      "severity": "Low" | "Medium" | "High",
-      "description": "Combined description across all images"
-    }
-  ],
-  "imageAnalyses": [
-    {
-      "imageIndex": 1,
-      "summary": "Summary for the specific photo",
-      "damageTypes": ["damage", "types", "seen", "in", "this", "image"],
-      "detailedFindings": [
-        {
-          "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
-          "severity": "Low" | "Medium" | "High",
-          "description": "Observation specific to this image"
-        }
-      ]
-    }
-  ]
-}
-
-Discuss every photo individually within imageAnalyses before summarizing and grading the overall condition.`;
-
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: analysisInstruction },
-            ...processedImages.flatMap((image, index) => [
-              {
-                type: 'text' as const,
-                text: `Image ${index + 1}${image.originalFileName ? ` (${image.originalFileName})` : ''}`
-              },
-              {
-                type: 'image_url' as const,
-                image_url: {
-                  url: `data:${image.processedMimeType};base64,${image.processedBase64}`,
-                  detail: 'auto'
-                }
-              }
-            ])
-          ]
-        }
-      ],
-      max_completion_tokens: 1200,
-      temperature: 0.1,
-      response_format: { type: 'json_object' }
-    });
-
-    const processingTime = (Date.now() - startTime) / 1000;
-
-    const content = response.choices?.[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response content from OpenAI when processing multiple images');
-    }
-
-    const parsed = JSON.parse(content);
-    const validated = multiImageAnalysisSchema.parse(parsed);
-
-    const normalizedImageAnalyses: ImageAnalysisDetail[] = validated.imageAnalyses.map((analysis) => ({
-      ...analysis,
-      originalFileName:
-        analysis.originalFileName ||
-        processedImages[analysis.imageIndex - 1]?.originalFileName ||
-        undefined,
-    }));
+    const result = await requestMultiImageAssessment(processedImages, 'photos', options);
 
     return {
-      ...validated,
-      imageAnalyses: normalizedImageAnalyses,
-      processingTime
+      ...result,
+      processingTime: (Date.now() - startTime) / 1000
     };
   } catch (error: any) {
     console.error('Multi-image assessment error:', error);
@@ -355,11 +457,23 @@ Discuss every photo individually within imageAnalyses before summarizing and gra
   }
 }
 
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.floor(seconds % 60);
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+}
+
+const DEFAULT_VIDEO_FRAME_COUNT = parseInt(process.env.VIDEO_FRAME_COUNT || '5', 10) || 5;
+
 /**
- * Assess laptop damage from video file by extracting frames and analyzing them
+ * Assess laptop damage from video file by extracting frames and analyzing all of them together
  */
-export async function assessLaptopDamageFromVideo(videoBuffer: Buffer): Promise<AIAssessmentResult> {
+export async function assessLaptopDamageFromVideo(
+  videoBuffer: Buffer,
+  options: VideoAssessmentOptions = {}
+): Promise<VideoAssessmentResult> {
   const startTime = Date.now();
+  const frameCount = Math.min(Math.max(options.frameCount ?? DEFAULT_VIDEO_FRAME_COUNT, 1), 10);
 
   // Check if ffmpeg is available
   const isFFmpegAvailable = await checkFFmpegAvailability();
@@ -369,111 +483,41 @@ export async function assessLaptopDamageFromVideo(videoBuffer: Buffer): Promise<
 
   try {
     // Extract frames from video
-    const frameResult: VideoFrameExtractionResult = await extractVideoFrames(videoBuffer, 3);
+    options.onStage?.('extracting-frames');
+    const frameResult: VideoFrameExtractionResult = await extractVideoFrames(videoBuffer, frameCount);
 
     if (!frameResult.success || frameResult.frames.length === 0) {
       throw new Error(frameResult.error || 'Failed to extract frames from video');
     }
 
-    // Analyze the best quality frame (typically the middle one)
-    const bestFrameIndex = Math.floor(frameResult.frames.length / 2);
-    const bestFrame = frameResult.frames[bestFrameIndex];
-    const frameBase64 = fileToBase64(bestFrame);
-
-    // Use the existing image assessment function with enhanced prompt for video context
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `You are a professional laptop condition assessor analyzing a frame extracted from a video assessment. This frame represents one view of the laptop during video recording.
-
-Return your assessment as a JSON object with this exact structure:
-{
-  "grade": "A" | "B" | "C" | "D",
-  "confidence": 0.0 to 1.0,
-  "overallCondition": "Brief overall condition summary",
-  "damageTypes": ["array", "of", "damage", "types"],
-  "detailedFindings": [
-    {
-      "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
-      "severity": "Low" | "Medium" | "High",
-      "description": "Detailed description of findings"
-    }
-  ]
-}
-
-Grading Scale:
-- Grade A (90-100%): Excellent condition, minimal wear, no functional damage
-- Grade B (75-89%): Good condition, minor cosmetic wear, fully functional
-- Grade C (60-74%): Fair condition, moderate wear/damage, may have minor functional issues
-- Grade D (Below 60%): Poor condition, significant damage, major functional concerns
-
-Since this is from a video, consider:
-- This frame may show the laptop from a specific angle - adjust confidence accordingly
-- Video quality may affect detail visibility
-- Multiple angles in video provide comprehensive view
-- Focus on clearly visible damage indicators
-
-Note: Confidence should reflect both the assessment certainty and the limitations of single-frame analysis from video.`
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${frameBase64}`
-              }
-            }
-          ]
-        }
-      ],
-      max_completion_tokens: 1000,
-      temperature: 0.1,
-      response_format: { type: "json_object" }
-    });
-
-    const processingTime = (Date.now() - startTime) / 1000;
-
-    // Enhanced logging to debug OpenAI response issues
-    console.log('OpenAI response details:', {
-      choices: response.choices?.length || 0,
-      firstChoice: response.choices?.[0],
-      message: response.choices?.[0]?.message,
-      content: response.choices?.[0]?.message?.content,
-      finishReason: response.choices?.[0]?.finish_reason,
-      usage: response.usage
-    });
-
-    const content = response.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error(`No response content from OpenAI. Response had ${response.choices?.length || 0} choices. First choice finish reason: ${response.choices?.[0]?.finish_reason || 'unknown'}`);
+    const frames: LabeledImage[] = [];
+    for (let index = 0; index < frameResult.frames.length; index++) {
+      const prepared = await prepareImageForVision(fileToBase64(frameResult.frames[index]), 'image/jpeg');
+      frames.push({
+        ...prepared,
+        label: `Frame ${index + 1} at ${formatTimestamp(frameResult.timestamps[index] ?? 0)}`
+      });
     }
 
-    try {
-      const rawResult = JSON.parse(content);
-
-      // Validate the response structure
-      const validatedResult = validateAIResponse(rawResult);
-
-      return {
-        ...validatedResult,
-        processingTime,
-        videoMetadata: {
-          duration: frameResult.metadata?.duration || 0,
-          width: frameResult.metadata?.width || 0,
-          height: frameResult.metadata?.height || 0,
-          fps: frameResult.metadata?.fps || 0,
-          framesAnalyzed: frameResult.frames.length
-        }
-      };
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
-      throw new Error('Invalid JSON response from AI assessment');
-    }
+    options.onStage?.('calling-model');
+    const result = await requestMultiImageAssessment(frames, 'video', options);
 
+    return {
+      ...result,
+      imageAnalyses: result.imageAnalyses.map((analysis) => ({
+        ...analysis,
+        timestamp: frameResult.timestamps[analysis.imageIndex - 1]
+      })),
+      processingTime: (Date.now() - startTime) / 1000,
+      videoMetadata: {
+        duration: frameResult.metadata?.duration || 0,
+        width: frameResult.metadata?.width || 0,
+        height: frameResult.metadata?.height || 0,
+        fps: frameResult.metadata?.fps || 0,
+        framesAnalyzed: frameResult.frames.length,
+        frameSelection: frameResult.metadata?.frameSelection
+      }
+    };
   } catch (error) {
     console.error('Video assessment error:', error);
     throw new Error(`Video assessment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,302 @@
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export interface VisionImageInput {
+  label?: string; // Text sent right before the image (e.g. "Image 2 (lid.jpg)")
+  base64: string;
+  mimeType: string;
+}
+
+export interface VisionRequest {
+  prompt: string;
+  images: VisionImageInput[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface ChatProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatProviderMessage[];
+  maxTokens: number;
+}
+
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ProviderResponse {
+  content: string | null;
+  finishReason?: string | null;
+  model: string;
+  usage?: ProviderUsage;
+}
+
+/**
+ * Model that grades laptop photos; vision responses are expected to be a JSON object
+ */
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  analyzeImages(request: VisionRequest): Promise<ProviderResponse>;
+}
+
+/**
+ * Model that answers free-form chat messages
+ */
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: ChatRequest): Promise<ProviderResponse>;
+}
+
+export type ProviderName = 'openai' | 'local' | 'mock';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  visionModel: string;
+  chatModel: string;
+  jsonMode: boolean; // Send response_format: json_object for vision requests
+  useLegacyMaxTokens: boolean; // Many local servers only understand max_tokens
+}
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements VisionProvider, ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly chatModel: string;
+  private readonly client: OpenAI;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.visionModel;
+    this.chatModel = options.chatModel;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  private tokenLimit(maxTokens: number): Pick<ChatCompletionCreateParamsNonStreaming, 'max_tokens' | 'max_completion_tokens'> {
+    return this.options.useLegacyMaxTokens ? { max_tokens: maxTokens } : { max_completion_tokens: maxTokens };
+  }
+
+  private toProviderResponse(response: OpenAI.Chat.Completions.ChatCompletion): ProviderResponse {
+    return {
+      content: response.choices?.[0]?.message?.content ?? null,
+      finishReason: response.choices?.[0]?.finish_reason ?? null,
+      model: response.model || this.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async analyzeImages(request: VisionRequest): Promise<ProviderResponse> {
+    const content: ChatCompletionContentPart[] = [{ type: 'text', text: request.prompt }];
+    for (const image of request.images) {
+      if (image.label) {
+        content.push({ type: 'text', text: image.label });
+      }
+      content.push({
+        type: 'image_url',
+        image_url: {
+          url: `data:${image.mimeType};base64,${image.base64}`,
+          detail: 'auto',
+        },
+      });
+    }
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content }],
+      ...this.tokenLimit(request.maxTokens),
+      temperature: request.temperature ?? 0.1,
+      ...(this.options.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return this.toProviderResponse(response);
+  }
+
+  async complete(request: ChatRequest): Promise<ProviderResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages: request.messages,
+      ...this.tokenLimit(request.maxTokens),
+    });
+
+    return { ...this.toProviderResponse(response), model: response.model || this.chatModel };
+  }
+}
+
+/**
+ * OpenAI's hosted API
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY environment variable is required when AI_PROVIDER=openai');
+    }
+
+    super({
+      name: 'openai',
+      apiKey: process.env.OPENAI_API_KEY,
+      visionModel: process.env.OPENAI_VISION_MODEL || 'gpt-4o',
+      // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+      chatModel: process.env.OPENAI_CHAT_MODEL || 'gpt-5',
+      jsonMode: true,
+      useLegacyMaxTokens: false,
+    });
+  }
+}
+
+/**
+ * Self-hosted OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, ...)
+ */
+export class LocalEndpointProvider extends OpenAICompatibleProvider {
+  constructor() {
+    const baseURL = process.env.AI_LOCAL_BASE_URL;
+    if (!baseURL) {
+      throw new Error('AI_LOCAL_BASE_URL environment variable is required when AI_PROVIDER=local');
+    }
+
+    const visionModel = process.env.AI_LOCAL_VISION_MODEL || 'llava';
+    super({
+      name: 'local',
+      apiKey: process.env.AI_LOCAL_API_KEY || 'not-needed',
+      baseURL,
+      visionModel,
+      chatModel: process.env.AI_LOCAL_CHAT_MODEL || visionModel,
+      jsonMode: process.env.AI_LOCAL_JSON_MODE !== 'false',
+      useLegacyMaxTokens: true,
+    });
+  }
+}
+
+interface MockVisionFixture {
+  grade: 'A' | 'B' | 'C' | 'D';
+  confidence: number;
+  overallCondition: string;
+  damageTypes: string[];
+  componentConditions?: Record<string, string>; // Per rubric component; the grade rules derive the final grade from these
+  detailedFindings: {
+    category: string;
+    severity: 'Low' | 'Medium' | 'High';
+    description: string;
+    boundingBox?: { x: number; y: number; width: number; height: number } | null; // Fractions of the image, drawn on every image
+  }[];
+}
+
+/**
+ * Offline provider that answers from JSON fixtures, picked deterministically from the request content
+ */
+export class MockProvider implements VisionProvider, ChatProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-vision';
+  private visionFixtures?: MockVisionFixture[];
+  private chatFixtures?: string[];
+
+  constructor(private readonly fixturesDir: string) {}
+
+  private loadFixture<T>(fileName: string): T[] {
+    const filePath = path.join(this.fixturesDir, fileName);
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error(`Mock AI fixture ${filePath} must be a non-empty JSON array`);
+    }
+    return parsed;
+  }
+
+  private pick<T>(items: T[], seed: string): T {
+    const digest = createHash('sha256').update(seed).digest();
+    return items[digest.readUInt32BE(0) % items.length];
+  }
+
+  async analyzeImages(request: VisionRequest): Promise<ProviderResponse> {
+    this.visionFixtures ??= this.loadFixture<MockVisionFixture>('vision.json');
+
+    const fixture = this.pick(this.visionFixtures, request.images.map(image => image.base64).join('|'));
+
+    // Always include per-image analyses; single-image callers ignore the extra field
+    const response = {
+      ...fixture,
+      imageAnalyses: request.images.map((image, index) => ({
+        imageIndex: index + 1,
+        summary: `${image.label || `Image ${index + 1}`}: ${fixture.overallCondition}`,
+        damageTypes: fixture.damageTypes,
+        detailedFindings: fixture.detailedFindings,
+      })),
+    };
+
+    const content = JSON.stringify(response);
+    return {
+      content,
+      finishReason: 'stop',
+      model: this.model,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+
+  async complete(request: ChatRequest): Promise<ProviderResponse> {
+    this.chatFixtures ??= this.loadFixture<string>('chat.json');
+
+    const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+    return {
+      content: this.pick(this.chatFixtures, lastMessage),
+      finishReason: 'stop',
+      model: 'mock-chat',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+}
+
+function selectedProviderName(): ProviderName {
+  const configured = (process.env.AI_PROVIDER || 'openai').toLowerCase();
+  if (configured === 'openai' || configured === 'local' || configured === 'mock') {
+    return configured;
+  }
+  throw new Error(`Unknown AI_PROVIDER "${configured}". Use "openai", "local" or "mock".`);
+}
+
+let provider: (VisionProvider & ChatProvider) | undefined;
+
+/**
+ * Provider selected by AI_PROVIDER, created on first use so the server can start without credentials
+ */
+function getProvider(): VisionProvider & ChatProvider {
+  if (!provider) {
+    switch (selectedProviderName()) {
+      case 'local':
+        provider = new LocalEndpointProvider();
+        break;
+      case 'mock':
+        // Resolved from the project root rather than this module, which is bundled into dist/ for production
+        provider = new MockProvider(process.env.AI_MOCK_FIXTURES_DIR || path.resolve(process.cwd(), 'server', 'fixtures', 'mock-ai'));
+        break;
+      default:
+        provider = new OpenAIProvider();
+    }
+  }
+  return provider;
+}
+
+export function getVisionProvider(): VisionProvider {
+  return getProvider();
+}
+
+export function getChatProvider(): ChatProvider {
+  return getProvider();
+}
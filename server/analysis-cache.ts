@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import type { AnalysisCacheEntry, InsertAnalysisCacheEntry } from '@shared/schema';
+
+/**
+ * Analysis cache configuration, read from ANALYSIS_CACHE: "off" disables lookups and writes (default: on)
+ */
+export function isAnalysisCacheEnabled(): boolean {
+  return (process.env.ANALYSIS_CACHE || 'on').toLowerCase() !== 'off';
+}
+
+export interface AnalysisCacheKeyParts {
+  images: string[]; // Base64 of the images exactly as sent to the model, in order
+  source: string; // What the images are (photos or video frames); the prompt differs per source
+  promptVersion: string;
+  model: string;
+}
+
+/**
+ * SHA-256 over the normalized image bytes plus everything else that shapes the model's answer
+ */
+export function analysisCacheKey({ images, source, promptVersion, model }: AnalysisCacheKeyParts): string {
+  const hash = createHash('sha256');
+  hash.update(`${promptVersion}\0${model}\0${source}\0${images.length}\0`);
+  for (const image of images) {
+    const bytes = Buffer.from(image, 'base64');
+    // Length prefix so two batches can never hash the same by splitting bytes differently between images
+    hash.update(`${bytes.length}\0`);
+    hash.update(bytes);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Stored model output for a key, with the model and raw response that produced it; lookup failures count as a miss so the
+ * cache can never block an assessment
+ */
+export async function readCachedAnalysis(cacheKey: string): Promise<AnalysisCacheEntry | undefined> {
+  try {
+    const entry = await storage.getAnalysisCacheEntry(cacheKey);
+    if (!entry) {
+      return undefined;
+    }
+    await storage.recordAnalysisCacheHit(cacheKey);
+    return entry;
+  } catch (error) {
+    console.warn('Analysis cache lookup failed:', error);
+    return undefined;
+  }
+}
+
+export async function writeCachedAnalysis(entry: InsertAnalysisCacheEntry): Promise<void> {
+  try {
+    await storage.saveAnalysisCacheEntry(entry);
+  } catch (error) {
+    console.warn('Could not save analysis to the cache:', error);
+  }
+}
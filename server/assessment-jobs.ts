@@ -0,0 +1,144 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobStage = 'queued' | 'extracting-frames' | 'calling-model' | 'saving' | 'saved' | 'failed';
+
+export interface JobEvent {
+  jobId: string;
+  status: JobStatus;
+  stage: JobStage;
+  message: string;
+  progress: number; // 0-100
+  timestamp: string;
+  result?: unknown; // Only on the final 'saved' event
+  error?: string; // Only on the final 'failed' event
+}
+
+export interface AssessmentJob {
+  id: string;
+  userId: string; // Who queued the job; results are only shown to them and to reviewers
+  status: JobStatus;
+  stage: JobStage;
+  message: string;
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+  events: JobEvent[];
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Callback handed to job processors to publish their progress
+ */
+export type JobReporter = (stage: Exclude<JobStage, 'queued' | 'saved' | 'failed'>, message: string, progress: number) => void;
+
+export type JobProcessor<T> = (report: JobReporter) => Promise<T>;
+
+// Finished jobs are kept around for a while so clients can reconnect and fetch the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * In-process queue that runs assessment uploads in the background and broadcasts progress events
+ */
+export class AssessmentJobQueue {
+  private jobs = new Map<string, AssessmentJob>();
+  private pending: { job: AssessmentJob; processor: JobProcessor<unknown> }[] = [];
+  private running = 0;
+  private emitter = new EventEmitter();
+
+  constructor(private readonly concurrency: number) {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  enqueue<T>(userId: string, processor: JobProcessor<T>): AssessmentJob {
+    const now = new Date().toISOString();
+    const job: AssessmentJob = {
+      id: randomUUID(),
+      userId,
+      status: 'queued',
+      stage: 'queued',
+      message: 'Waiting for an available worker',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+      events: [],
+    };
+
+    this.jobs.set(job.id, job);
+    this.publish(job, { status: 'queued', stage: 'queued', message: job.message, progress: 0 });
+
+    this.pending.push({ job, processor });
+    this.runNext();
+    return job;
+  }
+
+  get(id: string): AssessmentJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Listen for new events of a job
+   * @returns Function that removes the listener
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    const channel = `job:${id}`;
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  private publish(job: AssessmentJob, update: Omit<JobEvent, 'jobId' | 'timestamp'>) {
+    const event: JobEvent = {
+      ...update,
+      jobId: job.id,
+      progress: Math.round(Math.min(Math.max(update.progress, 0), 100)),
+      timestamp: new Date().toISOString(),
+    };
+
+    job.status = event.status;
+    job.stage = event.stage;
+    job.message = event.message;
+    job.progress = event.progress;
+    job.updatedAt = event.timestamp;
+    job.events.push(event);
+
+    this.emitter.emit(`job:${job.id}`, event);
+  }
+
+  private runNext() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+      this.run(next.job, next.processor).finally(() => {
+        this.running--;
+        this.runNext();
+      });
+    }
+  }
+
+  private async run(job: AssessmentJob, processor: JobProcessor<unknown>) {
+    const report: JobReporter = (stage, message, progress) => {
+      this.publish(job, { status: 'running', stage, message, progress });
+    };
+
+    try {
+      const result = await processor(report);
+      job.result = result;
+      this.publish(job, { status: 'completed', stage: 'saved', message: 'Assessment saved', progress: 100, result });
+    } catch (error) {
+      console.error(`Assessment job ${job.id} failed:`, error);
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      this.publish(job, { status: 'failed', stage: 'failed', message: job.error, progress: job.progress, error: job.error });
+    }
+
+    setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+  }
+}
+
+export const assessmentJobs = new AssessmentJobQueue(
+  Math.max(1, parseInt(process.env.ASSESSMENT_JOB_CONCURRENCY || '1', 10) || 1)
+);
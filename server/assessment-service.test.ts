@@ -0,0 +1,372 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import sharp from 'sharp';
+import type { ImageQualityReport, User } from '@shared/schema';
+import { storage } from './storage';
+import { assessLaptopDamageBatch, assessLaptopDamageFromVideo, type MultiImageAssessmentResult, type VideoAssessmentResult } from './ai-assessment';
+import { analyzeImageQuality } from './image-quality';
+import type { UploadedMediaFile } from './media-storage';
+import { classifyUploads, processUpload, sniffMediaType } from './assessment-service';
+
+// The model and the media store are replaced; classification, quality screening and persistence (in-memory storage) are real
+vi.mock('./ai-assessment', () => ({
+  assessLaptopDamageBatch: vi.fn(),
+  assessLaptopDamageFromVideo: vi.fn(),
+  fileToBase64: (buffer: Buffer) => buffer.toString('base64')
+}));
+
+vi.mock('./media-storage', () => ({
+  saveAssessmentMedia: vi.fn(async () => []),
+  readMedia: vi.fn(),
+  mediaPath: (mediaId: string, variant = 'original') => `/api/media/${mediaId}/${variant}`,
+  signMediaPath: (url: string | null) => url,
+  presentMedia: (record: unknown) => record
+}));
+
+vi.mock('./image-quality', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./image-quality')>()),
+  analyzeImageQuality: vi.fn()
+}));
+
+// File header built from ASCII strings and byte values, zero-padded to at least `length` bytes
+function header(parts: (string | number[])[], length = 64): Buffer {
+  const bytes = Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part)));
+  return bytes.length >= length ? bytes : Buffer.concat([bytes, Buffer.alloc(length - bytes.length)]);
+}
+
+const SIZE = [0x00, 0x00, 0x00, 0x20]; // Box or chunk size preceding a format tag
+const EBML = [0x1A, 0x45, 0xDF, 0xA3];
+
+function upload(originalname: string, buffer: Buffer, mimetype = 'application/octet-stream'): UploadedMediaFile {
+  return { buffer, originalname, mimetype, size: buffer.length };
+}
+
+function qualityReport(verdict: ImageQualityReport['verdict']): ImageQualityReport {
+  return {
+    verdict,
+    width: 64,
+    height: 48,
+    checks: [
+      { check: 'resolution', verdict: 'ok', score: 64, message: null },
+      { check: 'sharpness', verdict, score: 10, message: verdict === 'ok' ? null : 'The photo is blurry; hold the camera still.' }
+    ]
+  };
+}
+
+function analysisResult(overrides: Partial<MultiImageAssessmentResult> = {}): MultiImageAssessmentResult {
+  return {
+    grade: 'B',
+    modelGrade: 'B',
+    confidence: 0.9,
+    overallCondition: 'Light wear on the lid',
+    damageTypes: ['scratch'],
+    componentConditions: { chassis: 'light-wear', screen: 'pristine', hinges: 'good', keyboard: 'complete', ports: 'intact' },
+    gradeDerivation: { rubricVersion: 1, grade: 'B', modelGrade: 'B', source: 'rules', agreesWithModel: true, steps: [] },
+    detailedFindings: [],
+    imageAnalyses: [],
+    processingTime: 1200,
+    rubricVersion: 1,
+    modelRun: {
+      modelName: 'test-vision',
+      promptVersion: 'multi-image@test',
+      usage: { promptTokens: 900, completionTokens: 150, totalTokens: 1050 },
+      rawResponse: '{"grade":"B"}'
+    },
+    cache: 'miss',
+    ...overrides
+  };
+}
+
+function videoResult(): VideoAssessmentResult {
+  return {
+    ...analysisResult(),
+    videoMetadata: { duration: 12.5, width: 1920, height: 1080, fps: 30, framesAnalyzed: 5 }
+  };
+}
+
+const mp4 = header([SIZE, 'ftypisom']);
+
+describe('sniffMediaType', () => {
+  it.each([
+    ['JPEG', header([[0xFF, 0xD8, 0xFF, 0xE0]]), 'image', 'image/jpeg'],
+    ['PNG', header([[0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]]), 'image', 'image/png'],
+    ['GIF87a', header(['GIF87a']), 'image', 'image/gif'],
+    ['GIF89a', header(['GIF89a']), 'image', 'image/gif'],
+    ['WebP', header(['RIFF', SIZE, 'WEBP']), 'image', 'image/webp'],
+    ['little-endian TIFF', header([[0x49, 0x49, 0x2A, 0x00]]), 'image', 'image/tiff'],
+    ['big-endian TIFF', header([[0x4D, 0x4D, 0x00, 0x2A]]), 'image', 'image/tiff'],
+    ['BMP', header(['BM']), 'image', 'image/bmp'],
+    ['HEIC', header([SIZE, 'ftypheic']), 'image', 'image/heic'],
+    ['HEIF', header([SIZE, 'ftypmif1']), 'image', 'image/heif'],
+    ['MP4', mp4, 'video', 'video/mp4'],
+    ['MOV', header([SIZE, 'ftypqt  ']), 'video', 'video/quicktime'],
+    ['WebM', header([EBML, [0x42, 0x82, 0x84], 'webm']), 'video', 'video/webm'],
+    ['MKV', header([EBML, [0x42, 0x82, 0x88], 'matroska']), 'video', 'video/x-matroska'],
+    ['AVI', header(['RIFF', SIZE, 'AVI LIST']), 'video', 'video/x-msvideo']
+  ])('detects %s', (_format, buffer, kind, mimeType) => {
+    expect(sniffMediaType(buffer)).toEqual({ kind, mimeType });
+  });
+
+  it.each([
+    ['unknown content', Buffer.from('just some text, not a photo or a video')],
+    ['a RIFF file that is neither WebP nor AVI', header(['RIFF', SIZE, 'WAVE'])],
+    ['an ISO media file with an unsupported brand', header([SIZE, 'ftypavif'])],
+    ['an empty buffer', Buffer.alloc(0)],
+    ['a buffer shorter than the JPEG signature', Buffer.from([0xFF, 0xD8])],
+    ['a BMP header too short for its dimensions', Buffer.from('BM0123456789')]
+  ])('returns null for %s', (_description, buffer) => {
+    expect(sniffMediaType(buffer)).toBeNull();
+  });
+});
+
+describe('classifyUploads', () => {
+  it('sorts files by content and replaces the client MIME type with the detected one', () => {
+    const photo = header([[0xFF, 0xD8, 0xFF, 0xE0]], 200);
+    const result = classifyUploads([
+      upload('lid.mp4', photo, 'video/mp4'),
+      upload('walkaround.jpg', mp4, 'image/jpeg')
+    ]);
+
+    expect(result.images).toEqual([upload('lid.mp4', photo, 'image/jpeg')]);
+    expect(result.videos).toEqual([upload('walkaround.jpg', mp4, 'video/mp4')]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('names commonly mistaken formats in the rejection', () => {
+    const { rejected } = classifyUploads([upload('report.pdf', Buffer.from('%PDF-1.7 ...'), 'image/jpeg')]);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toMatch(/^File is a PDF document, which cannot be assessed\./);
+  });
+
+  it('rejects unrecognized content with the type it was uploaded as', () => {
+    const { rejected } = classifyUploads([upload('notes.txt', Buffer.from('hello'), 'text/plain')]);
+    expect(rejected[0]).toEqual({
+      originalFileName: 'notes.txt',
+      reason: expect.stringContaining('(uploaded as text/plain)')
+    });
+  });
+
+  it('rejects empty files', () => {
+    const { rejected } = classifyUploads([upload('empty.jpg', Buffer.alloc(0), 'image/jpeg')]);
+    expect(rejected[0].reason).toBe('File is empty.');
+  });
+
+  it('rejects images too small to be a real photo', () => {
+    const { images, rejected } = classifyUploads([upload('tiny.jpg', header([[0xFF, 0xD8, 0xFF, 0xE0]], 50))]);
+    expect(images).toEqual([]);
+    expect(rejected[0].reason).toBe('Image file is too small (50 bytes) and appears to be corrupted.');
+  });
+
+  it('splits a mixed upload into images, videos and rejections', () => {
+    const photo = header([[0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]], 200);
+    const result = classifyUploads([
+      upload('front.png', photo),
+      upload('clip.mov', header([SIZE, 'ftypqt  '])),
+      upload('archive.zip', header([[0x50, 0x4B, 0x03, 0x04]])),
+      upload('back.png', photo)
+    ]);
+
+    expect(result.images.map(file => file.originalname)).toEqual(['front.png', 'back.png']);
+    expect(result.videos.map(file => file.originalname)).toEqual(['clip.mov']);
+    expect(result.rejected.map(rejection => rejection.originalFileName)).toEqual(['archive.zip']);
+  });
+});
+
+describe('processUpload', () => {
+  let uploader: User;
+  let photo: Buffer;
+  const report = vi.fn();
+
+  beforeAll(async () => {
+    uploader = await storage.createUser({ username: 'tech', password: 'not-used', role: 'technician' });
+    photo = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#888888' } }).jpeg().toBuffer();
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    // The service logs every failure it handles; the tests assert on what it saves instead
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(analyzeImageQuality).mockResolvedValue(qualityReport('ok'));
+    vi.mocked(assessLaptopDamageBatch).mockResolvedValue(analysisResult());
+    vi.mocked(assessLaptopDamageFromVideo).mockResolvedValue(videoResult());
+  });
+
+  describe('unsupported and mixed uploads', () => {
+    it('reports unsupported files without creating an assessment or calling the model', async () => {
+      const before = (await storage.getAllAssessments()).length;
+
+      const result = await processUpload(classifyUploads([upload('report.pdf', Buffer.from('%PDF-1.7 ...'))]), uploader, report);
+
+      expect(result.results).toEqual([{
+        type: 'rejected',
+        originalFileName: 'report.pdf',
+        success: false,
+        error: expect.stringContaining('PDF document'),
+        quality: undefined
+      }]);
+      expect(assessLaptopDamageBatch).not.toHaveBeenCalled();
+      expect(await storage.getAllAssessments()).toHaveLength(before);
+    });
+
+    it('assesses all images together and each video on its own, listing rejections first', async () => {
+      const result = await processUpload(classifyUploads([
+        upload('front.jpg', photo),
+        upload('notes.txt', Buffer.from('hello')),
+        upload('clip.mp4', mp4),
+        upload('back.jpg', photo)
+      ]), uploader, report);
+
+      expect(result.results.map(item => [item.type, item.success])).toEqual([
+        ['rejected', false],
+        ['image-batch', true],
+        ['video', true]
+      ]);
+      expect(assessLaptopDamageBatch).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(assessLaptopDamageBatch).mock.calls[0][0].map(image => image.originalFileName)).toEqual(['front.jpg', 'back.jpg']);
+      expect(assessLaptopDamageFromVideo).toHaveBeenCalledTimes(1);
+      expect(report).toHaveBeenLastCalledWith('saving', 'Saving assessment for clip.mp4', 90);
+    });
+  });
+
+  describe('quality gate', () => {
+    it('rejects failing photos before the model call in enforce mode', async () => {
+      vi.stubEnv('IMAGE_QUALITY_GATE', 'enforce');
+      vi.mocked(analyzeImageQuality)
+        .mockResolvedValueOnce(qualityReport('reject'))
+        .mockResolvedValueOnce(qualityReport('ok'));
+
+      const result = await processUpload(classifyUploads([upload('blurry.jpg', photo), upload('sharp.jpg', photo)]), uploader, report);
+
+      const [rejected, batch] = result.results;
+      expect(rejected).toMatchObject({
+        type: 'rejected',
+        originalFileName: 'blurry.jpg',
+        error: 'Photo quality is too low to assess. The photo is blurry; hold the camera still.',
+        quality: { verdict: 'reject' }
+      });
+      expect(batch).toMatchObject({ type: 'image-batch', success: true, files: [{ originalFileName: 'sharp.jpg', quality: { verdict: 'ok' } }] });
+      expect(vi.mocked(assessLaptopDamageBatch).mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('assesses failing photos but reports their quality in warn mode', async () => {
+      vi.stubEnv('IMAGE_QUALITY_GATE', 'warn');
+      vi.mocked(analyzeImageQuality).mockResolvedValue(qualityReport('reject'));
+
+      const result = await processUpload(classifyUploads([upload('blurry.jpg', photo)]), uploader, report);
+
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0]).toMatchObject({
+        type: 'image-batch',
+        success: true,
+        files: [{ originalFileName: 'blurry.jpg', quality: { verdict: 'reject' } }]
+      });
+    });
+
+    it('skips the checks in off mode but still rejects photos that cannot be decoded', async () => {
+      vi.stubEnv('IMAGE_QUALITY_GATE', 'off');
+      const truncated = photo.subarray(0, 120);
+
+      const result = await processUpload(classifyUploads([upload('good.jpg', photo), upload('truncated.jpg', truncated)]), uploader, report);
+
+      expect(analyzeImageQuality).not.toHaveBeenCalled();
+      const [rejected, batch] = result.results;
+      expect(rejected).toMatchObject({
+        type: 'rejected',
+        originalFileName: 'truncated.jpg',
+        error: 'Image could not be decoded as JPEG; the file may be truncated or corrupted.'
+      });
+      expect(batch).toMatchObject({ type: 'image-batch', success: true, files: [{ originalFileName: 'good.jpg', quality: undefined }] });
+    });
+  });
+
+  describe('persistence', () => {
+    it('saves a successful analysis as COMPLETED with the model run details', async () => {
+      const result = await processUpload(classifyUploads([upload('front.jpg', photo)]), uploader, report);
+
+      const [batch] = result.results;
+      expect(batch.success).toBe(true);
+      expect(batch.assessment).not.toHaveProperty('rawModelResponse');
+      expect(batch.assessment).not.toHaveProperty('modelRun');
+
+      const saved = await storage.getAssessment(batch.assessment!.id);
+      expect(saved).toMatchObject({
+        status: 'COMPLETED',
+        grade: 'B',
+        aiGrade: 'B',
+        modelGrade: 'B',
+        failureReason: null,
+        failureStage: null,
+        fileType: 'image',
+        createdBy: uploader.id,
+        modelName: 'test-vision',
+        analysisCache: 'miss',
+        promptVersion: 'multi-image@test',
+        promptTokens: 900,
+        completionTokens: 150,
+        totalTokens: 1050,
+        rawModelResponse: '{"grade":"B"}',
+        reviewStatus: null
+      });
+    });
+
+    it('saves the video metadata of a completed video analysis', async () => {
+      const result = await processUpload(classifyUploads([upload('clip.mp4', mp4)]), uploader, report);
+
+      const saved = await storage.getAssessment(result.results[0].assessment!.id);
+      expect(saved).toMatchObject({
+        status: 'COMPLETED',
+        fileType: 'video',
+        videoDuration: 12.5,
+        videoWidth: 1920,
+        videoHeight: 1080,
+        videoFps: 30,
+        framesAnalyzed: 5
+      });
+    });
+
+    it('saves a failed image analysis as ERROR at the calling-model stage, queued for review', async () => {
+      vi.mocked(assessLaptopDamageBatch).mockRejectedValue(new Error('Model timed out'));
+
+      const result = await processUpload(classifyUploads([upload('front.jpg', photo)]), uploader, report);
+
+      const [batch] = result.results;
+      expect(batch).toMatchObject({ type: 'image-batch', success: false, error: 'Model timed out' });
+      const saved = await storage.getAssessment(batch.assessment!.id);
+      expect(saved).toMatchObject({
+        status: 'ERROR',
+        grade: 'ERROR',
+        failureReason: 'Model timed out',
+        failureStage: 'calling-model',
+        reviewStatus: 'PENDING_REVIEW',
+        reviewReasons: ['processing-error']
+      });
+    });
+
+    it('records the stage a video analysis failed in', async () => {
+      vi.mocked(assessLaptopDamageFromVideo).mockImplementation(async (_buffer, options) => {
+        options?.onStage?.('extracting-frames');
+        throw new Error('ffmpeg is not installed');
+      });
+
+      const result = await processUpload(classifyUploads([upload('clip.mp4', mp4)]), uploader, report);
+
+      expect(result.results[0]).toMatchObject({ type: 'video', success: false, error: 'ffmpeg is not installed' });
+      const saved = await storage.getAssessment(result.results[0].assessment!.id);
+      expect(saved).toMatchObject({ status: 'ERROR', failureReason: 'ffmpeg is not installed', failureStage: 'extracting-frames' });
+    });
+
+    it('moves the failure stage on when frames were extracted before the model call failed', async () => {
+      vi.mocked(assessLaptopDamageFromVideo).mockImplementation(async (_buffer, options) => {
+        options?.onStage?.('extracting-frames');
+        options?.onStage?.('calling-model');
+        throw new Error('Invalid AI response structure');
+      });
+
+      const result = await processUpload(classifyUploads([upload('clip.mp4', mp4)]), uploader, report);
+
+      const saved = await storage.getAssessment(result.results[0].assessment!.id);
+      expect(saved).toMatchObject({ status: 'ERROR', failureStage: 'calling-model' });
+    });
+  });
+});
@@ -0,0 +1,606 @@
+import { storage } from './storage';
+import {
+  assessLaptopDamageBatch,
+  assessLaptopDamageFromVideo,
+  fileToBase64,
+  type ImageAnalysisDetail,
+  type MultiImageAssessmentResult,
+  type VideoAssessmentResult
+} from './ai-assessment';
+import { saveAssessmentMedia, readMedia, mediaPath, signMediaPath, presentMedia, type UploadedMediaFile } from './media-storage';
+import { initialReviewState } from './review-rules';
+import { openImage } from './image-conversion';
+import { analyzeImageQuality, getImageQualityGate } from './image-quality';
+import type { JobReporter } from './assessment-jobs';
+import type { Assessment, AssessmentFailureStage, ImageQualityCheckResult, ImageQualityReport, InsertAssessment, Media, PresentedAssessment, User } from '@shared/schema';
+
+/**
+ * Single path from uploaded files to saved assessments, shared by every upload route:
+ * files are classified by their contents, saved as a PENDING assessment, analyzed and completed (or marked ERROR).
+ */
+
+export type MediaKind = 'image' | 'video';
+
+export interface SniffedMedia {
+  kind: MediaKind;
+  mimeType: string;
+}
+
+// ISO base media (ftyp) brands, see https://mp4ra.org/registered-types/brands
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1']);
+const MP4_BRANDS = new Set(['isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'M4V ', 'M4VP', 'dash', 'f4v ', '3gp4', '3gp5', '3g2a']);
+
+function hasBytes(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.toString('latin1', start, Math.min(end, buffer.length));
+}
+
+/**
+ * Identify an upload from its magic bytes; the client-supplied MIME type and file name are not trusted
+ * @returns The detected kind and MIME type, or null for anything the pipeline does not accept
+ */
+export function sniffMediaType(buffer: Buffer): SniffedMedia | null {
+  if (hasBytes(buffer, [0xFF, 0xD8, 0xFF])) {
+    return { kind: 'image', mimeType: 'image/jpeg' };
+  }
+  if (hasBytes(buffer, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) {
+    return { kind: 'image', mimeType: 'image/png' };
+  }
+  const head = ascii(buffer, 0, 6);
+  if (head === 'GIF87a' || head === 'GIF89a') {
+    return { kind: 'image', mimeType: 'image/gif' };
+  }
+  if (ascii(buffer, 0, 4) === 'RIFF') {
+    const format = ascii(buffer, 8, 12);
+    if (format === 'WEBP') return { kind: 'image', mimeType: 'image/webp' };
+    if (format === 'AVI ') return { kind: 'video', mimeType: 'video/x-msvideo' };
+    return null;
+  }
+  if (hasBytes(buffer, [0x49, 0x49, 0x2A, 0x00]) || hasBytes(buffer, [0x4D, 0x4D, 0x00, 0x2A])) {
+    return { kind: 'image', mimeType: 'image/tiff' };
+  }
+  if (ascii(buffer, 0, 2) === 'BM' && buffer.length >= 26) {
+    return { kind: 'image', mimeType: 'image/bmp' };
+  }
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    const brand = ascii(buffer, 8, 12);
+    if (HEIF_BRANDS.has(brand)) {
+      return { kind: 'image', mimeType: brand === 'mif1' || brand === 'msf1' ? 'image/heif' : 'image/heic' };
+    }
+    if (brand === 'qt  ') return { kind: 'video', mimeType: 'video/quicktime' };
+    if (MP4_BRANDS.has(brand)) return { kind: 'video', mimeType: 'video/mp4' };
+    return null;
+  }
+  // EBML header; the DocType near the start tells WebM from other Matroska files
+  if (hasBytes(buffer, [0x1A, 0x45, 0xDF, 0xA3])) {
+    return ascii(buffer, 0, 64).includes('webm')
+      ? { kind: 'video', mimeType: 'video/webm' }
+      : { kind: 'video', mimeType: 'video/x-matroska' };
+  }
+  return null;
+}
+
+const UNSUPPORTED_FILE_MESSAGE = 'Unsupported file type. Upload photos (JPEG, PNG, GIF, WebP, BMP, TIFF, HEIC) or videos (MP4, WebM, MOV, AVI, MKV).';
+const MIN_IMAGE_BYTES = 100;
+
+// Formats people commonly upload by mistake, named in the rejection so they know what to export instead
+function describeUnsupportedContent(buffer: Buffer): string | null {
+  if (ascii(buffer, 0, 5) === '%PDF-') return 'PDF document';
+  if (hasBytes(buffer, [0x50, 0x4B, 0x03, 0x04])) return 'ZIP archive or Office document';
+  if (ascii(buffer, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(buffer, 8, 12))) return 'AVIF image';
+  if (ascii(buffer, 0, 5).toLowerCase() === '<?xml' || ascii(buffer, 0, 4).toLowerCase() === '<svg') return 'SVG or XML file';
+  return null;
+}
+
+function rejectionReason(file: UploadedMediaFile): string {
+  if (file.size === 0) {
+    return 'File is empty.';
+  }
+  const detected = describeUnsupportedContent(file.buffer);
+  if (detected) {
+    return `File is a ${detected}, which cannot be assessed. ${UNSUPPORTED_FILE_MESSAGE}`;
+  }
+  return `File contents are not a recognized photo or video (uploaded as ${file.mimetype || 'unknown type'}). ${UNSUPPORTED_FILE_MESSAGE}`;
+}
+
+export interface UploadRejection {
+  originalFileName: string;
+  reason: string;
+  quality?: ImageQualityReport; // Set when the image was rejected by the quality gate
+}
+
+export interface ClassifiedUpload {
+  images: UploadedMediaFile[];
+  videos: UploadedMediaFile[];
+  rejected: UploadRejection[];
+}
+
+/**
+ * Sort uploaded files into images and videos by content, replacing the client's MIME type with the detected one
+ */
+export function classifyUploads(files: UploadedMediaFile[]): ClassifiedUpload {
+  const upload: ClassifiedUpload = { images: [], videos: [], rejected: [] };
+
+  for (const file of files) {
+    const sniffed = sniffMediaType(file.buffer);
+    if (!sniffed) {
+      upload.rejected.push({ originalFileName: file.originalname, reason: rejectionReason(file) });
+      continue;
+    }
+
+    if (sniffed.kind === 'image' && file.size < MIN_IMAGE_BYTES) {
+      upload.rejected.push({ originalFileName: file.originalname, reason: `Image file is too small (${file.size} bytes) and appears to be corrupted.` });
+      continue;
+    }
+
+    const normalized: UploadedMediaFile = {
+      buffer: file.buffer,
+      originalname: file.originalname,
+      mimetype: sniffed.mimeType,
+      size: file.size
+    };
+    (sniffed.kind === 'image' ? upload.images : upload.videos).push(normalized);
+  }
+
+  return upload;
+}
+
+export type PresentedMedia = ReturnType<typeof presentMedia>;
+export type AssessmentAnalysis = MultiImageAssessmentResult | VideoAssessmentResult;
+
+// Assessment returned from an upload: the saved record and its stored media
+export type UploadedAssessment = PresentedAssessment & {
+  media: PresentedMedia[];
+  overallCondition?: string;
+  videoMetadata?: VideoAssessmentResult['videoMetadata'];
+};
+
+// Assessment returned from a successful upload: the saved record plus the model output, with each image analysis
+// linked to its stored file
+export type AnalyzedAssessment = UploadedAssessment & Omit<AssessmentAnalysis, 'modelRun' | 'imageAnalyses'> & {
+  imageAnalyses: (ImageAnalysisDetail & { mediaUrl?: string })[];
+};
+
+// A failed analysis is still saved, so the assessment is only missing when saving itself failed
+export type UploadOutcome =
+  | { success: true; error?: undefined; assessment: AnalyzedAssessment }
+  | { success: false; error: string; assessment?: UploadedAssessment };
+
+export interface UploadedFileSummary {
+  imageIndex: number;
+  originalFileName: string;
+  mimeType: string;
+  fileSize: number;
+  quality?: ImageQualityReport; // Absent when the quality gate is off
+}
+
+export type UploadResult =
+  | { type: 'rejected'; originalFileName: string; success: false; error: string; quality?: ImageQualityReport; assessment?: undefined }
+  | ({ type: 'image-batch'; files: UploadedFileSummary[] } & UploadOutcome)
+  | ({ type: 'video'; originalFileName: string } & UploadOutcome);
+
+export interface UploadOptions {
+  force?: boolean; // Call the model even when an identical submission is in the analysis cache
+}
+
+export interface UploadProcessingResult {
+  success: true;
+  results: UploadResult[];
+}
+
+// Usernames keyed by user id, for showing who created a record
+export async function loadUsernames(userIds: (string | null)[]): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  const users = await storage.getUsers(ids);
+  return new Map(users.map(user => [user.id, user.username] as [string, string]));
+}
+
+// Replace stored media paths with signed URLs and resolve the creator's name before sending an assessment to the client
+export function presentAssessment({ rawModelResponse, ...assessment }: Assessment, usernames: Map<string, string>): PresentedAssessment {
+  return {
+    ...assessment,
+    imageUrl: signMediaPath(assessment.imageUrl),
+    createdByName: assessment.createdBy ? usernames.get(assessment.createdBy) ?? null : null,
+  };
+}
+
+// Keep the uploaded files as evidence and point the assessment's imageUrl at the cover thumbnail
+async function persistAssessmentMedia(
+  assessment: Assessment,
+  files: UploadedMediaFile[],
+  kind: MediaKind
+): Promise<{ assessment: Assessment; media: Media[] }> {
+  try {
+    const media = await saveAssessmentMedia(assessment.id, files, kind);
+
+    const cover = media.find(item => item.thumbnailKey) || (kind === 'image' ? media[0] : undefined);
+    if (!cover) {
+      return { assessment, media };
+    }
+
+    const imageUrl = mediaPath(cover.id, cover.thumbnailKey ? 'thumbnail' : 'original');
+    const updated = await storage.updateAssessment(assessment.id, { imageUrl });
+    return { assessment: updated || assessment, media };
+  } catch (error) {
+    console.error(`Failed to store media for assessment ${assessment.id}:`, error);
+    return { assessment, media: [] };
+  }
+}
+
+type AnalysisStage = 'extracting-frames' | 'calling-model' | 'saving';
+
+// Where each analysis stage sits within one upload step, as a fraction of the step
+const analysisStageProgress: Record<AnalysisStage, number> = {
+  'extracting-frames': 0.1,
+  'calling-model': 0.4,
+  'saving': 0.8
+};
+
+function describeAnalysisStage(stage: AnalysisStage, subject: string): string {
+  switch (stage) {
+    case 'extracting-frames':
+      return `Extracting frames from ${subject}`;
+    case 'calling-model':
+      return `Analyzing ${subject}`;
+    case 'saving':
+      return `Saving assessment for ${subject}`;
+  }
+}
+
+function describeFiles(files: UploadedMediaFile[], kind: MediaKind): string {
+  if (kind === 'video' || files.length === 1) {
+    return files[0].originalname;
+  }
+  return `${files.length} images`;
+}
+
+// Columns of a new assessment, saved before the model runs so the upload is kept even if analysis fails
+function pendingAssessmentData(files: UploadedMediaFile[], kind: MediaKind, uploader: User): InsertAssessment {
+  return {
+    sku: `AUTO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    brand: null,
+    model: null,
+    grade: 'PENDING',
+    status: 'PENDING',
+    imageUrl: null,
+    fileType: kind,
+    originalFileName: files.length === 1 ? files[0].originalname : `${files.length} images`,
+    mimeType: files.length === 1 ? files[0].mimetype : 'multiple',
+    fileSize: files.reduce((sum, file) => sum + file.size, 0),
+    createdBy: uploader.id,
+    updatedBy: uploader.id
+  };
+}
+
+type AnalysisOutcome =
+  | { assessment: Assessment; aiResult: AssessmentAnalysis; error?: undefined }
+  | { assessment: Assessment; aiResult?: undefined; error: string };
+
+/**
+ * Run the model on the files of a PENDING assessment and save the result.
+ * A failure is saved too: the assessment becomes ERROR with the reason and the stage it failed in.
+ */
+async function analyzeAssessment(
+  assessment: Assessment,
+  files: UploadedMediaFile[],
+  onStage: (stage: AnalysisStage) => void,
+  options: UploadOptions = {}
+): Promise<AnalysisOutcome> {
+  let stage: AssessmentFailureStage = assessment.fileType === 'video' ? 'extracting-frames' : 'calling-model';
+  const enterStage = (next: AssessmentFailureStage) => {
+    stage = next;
+    onStage(next);
+  };
+
+  let aiResult: AssessmentAnalysis;
+  try {
+    if (assessment.fileType === 'video') {
+      aiResult = await assessLaptopDamageFromVideo(files[0].buffer, { onStage: enterStage, force: options.force });
+    } else {
+      enterStage('calling-model');
+      aiResult = await assessLaptopDamageBatch(files.map(file => ({
+        base64: fileToBase64(file.buffer),
+        mimeType: file.mimetype,
+        originalFileName: file.originalname
+      })), { force: options.force });
+    }
+  } catch (error) {
+    console.error(`Analysis of assessment ${assessment.id} failed during ${stage}:`, error);
+    const failureReason = error instanceof Error ? error.message : 'Unknown error';
+    const failed = await storage.updateAssessment(assessment.id, {
+      status: 'ERROR',
+      grade: 'ERROR',
+      failureReason,
+      failureStage: stage,
+      reviewClaimedBy: null,
+      ...initialReviewState({ confidence: null }, { processingError: true })
+    });
+    return { assessment: failed || assessment, error: failureReason };
+  }
+
+  onStage('saving');
+  const videoMetadata = 'videoMetadata' in aiResult ? aiResult.videoMetadata : undefined;
+  const completed = await storage.updateAssessment(assessment.id, {
+    status: 'COMPLETED',
+    failureReason: null,
+    failureStage: null,
+    grade: aiResult.grade,
+    aiGrade: aiResult.grade,
+    modelGrade: aiResult.modelGrade,
+    componentConditions: aiResult.componentConditions,
+    gradeDerivation: aiResult.gradeDerivation,
+    confidence: aiResult.confidence,
+    damageDescription: aiResult.overallCondition,
+    detailedFindings: aiResult.detailedFindings,
+    findingsOverriddenAt: null,
+    damageTypes: aiResult.damageTypes,
+    processingTime: aiResult.processingTime,
+    videoDuration: videoMetadata?.duration || null,
+    videoWidth: videoMetadata?.width || null,
+    videoHeight: videoMetadata?.height || null,
+    videoFps: videoMetadata?.fps || null,
+    framesAnalyzed: videoMetadata?.framesAnalyzed || null,
+    imageAnalyses: aiResult.imageAnalyses,
+    rubricVersion: aiResult.rubricVersion,
+    modelName: aiResult.modelRun.modelName,
+    analysisCache: aiResult.cache,
+    promptVersion: aiResult.modelRun.promptVersion,
+    promptTokens: aiResult.modelRun.usage?.promptTokens ?? null,
+    completionTokens: aiResult.modelRun.usage?.completionTokens ?? null,
+    totalTokens: aiResult.modelRun.usage?.totalTokens ?? null,
+    rawModelResponse: aiResult.modelRun.rawResponse,
+    reviewClaimedBy: null,
+    ...initialReviewState({
+      confidence: aiResult.confidence,
+      detailedFindings: aiResult.detailedFindings,
+      gradeDerivation: aiResult.gradeDerivation
+    })
+  });
+  return { assessment: completed || assessment, aiResult };
+}
+
+/**
+ * Save, store and analyze one assessment (all images of an upload together, or a single video)
+ */
+async function assessFiles(
+  files: UploadedMediaFile[],
+  kind: MediaKind,
+  uploader: User,
+  onStage: (stage: AnalysisStage) => void,
+  options: UploadOptions
+): Promise<UploadOutcome & { assessment: UploadedAssessment }> {
+  const created = await storage.createAssessment(pendingAssessmentData(files, kind, uploader));
+  const { assessment: pending, media } = await persistAssessmentMedia(created, files, kind);
+  const outcome = await analyzeAssessment(pending, files, onStage, options);
+
+  const uploaderName = new Map([[uploader.id, uploader.username] as [string, string]]);
+  const presentedMedia = media.map(presentMedia);
+  const presented = { ...presentAssessment(outcome.assessment, uploaderName), media: presentedMedia };
+
+  if (!outcome.aiResult) {
+    // A failed analysis is still saved, as an ERROR assessment that can be re-run
+    return { success: false, error: outcome.error, assessment: presented };
+  }
+
+  // Link each image's analysis to its stored file; video frames are not stored separately
+  const imageAnalyses = kind === 'image'
+    ? outcome.aiResult.imageAnalyses.map(analysis => ({
+        ...analysis,
+        originalFileName: files[analysis.imageIndex - 1]?.originalname || analysis.originalFileName,
+        mediaUrl: presentedMedia.find(item => item.position === analysis.imageIndex - 1)?.url
+      }))
+    : outcome.aiResult.imageAnalyses;
+
+  // The run details are already in the saved columns; the raw response is left out of upload results
+  const { modelRun, ...analysis } = outcome.aiResult;
+  return {
+    success: true,
+    assessment: { ...presented, ...analysis, imageAnalyses, media: presentedMedia }
+  };
+}
+
+interface ScreenedImages {
+  accepted: UploadedMediaFile[];
+  rejected: UploadRejection[];
+  quality: Map<UploadedMediaFile, ImageQualityReport>;
+}
+
+// Decode and quality-check every image before analysis so a corrupt or unusable photo is rejected on its own
+// instead of failing the whole batch or spending an AI call on it
+async function screenImages(images: UploadedMediaFile[]): Promise<ScreenedImages> {
+  const gate = getImageQualityGate();
+  const screened: ScreenedImages = { accepted: [], rejected: [], quality: new Map() };
+
+  for (const file of images) {
+    try {
+      if (gate === 'off') {
+        // A small resize still decodes the whole file (catching truncation) without the cost of a full-size encode
+        const image = await openImage(file.buffer, file.mimetype);
+        await image.resize(64, 64, { fit: 'inside' }).toBuffer();
+        screened.accepted.push(file);
+        continue;
+      }
+
+      const report = await analyzeImageQuality(file.buffer, file.mimetype);
+      if (report.verdict === 'reject' && gate === 'enforce') {
+        const guidance = report.checks
+          .filter(check => check.verdict === 'reject')
+          .map(check => check.message)
+          .join(' ');
+        screened.rejected.push({ originalFileName: file.originalname, reason: `Photo quality is too low to assess. ${guidance}`, quality: report });
+        continue;
+      }
+      screened.quality.set(file, report);
+      screened.accepted.push(file);
+    } catch (error) {
+      console.warn(`Could not decode ${file.originalname} (${file.mimetype}):`, error);
+      screened.rejected.push({
+        originalFileName: file.originalname,
+        reason: `Image could not be decoded as ${file.mimetype.replace('image/', '').toUpperCase()}; the file may be truncated or corrupted.`
+      });
+    }
+  }
+
+  return screened;
+}
+
+/**
+ * Score files before they are submitted, so problems can be shown on the thumbnails; results keep the upload order
+ */
+export async function checkImageQuality(files: UploadedMediaFile[]): Promise<ImageQualityCheckResult[]> {
+  const results: ImageQualityCheckResult[] = [];
+
+  for (const file of files) {
+    const sniffed = sniffMediaType(file.buffer);
+    if (sniffed?.kind !== 'image') {
+      results.push({ originalFileName: file.originalname, error: sniffed ? 'Only photos are quality-checked.' : rejectionReason(file) });
+      continue;
+    }
+
+    try {
+      results.push({ originalFileName: file.originalname, quality: await analyzeImageQuality(file.buffer, sniffed.mimeType) });
+    } catch (error) {
+      console.warn(`Could not check quality of ${file.originalname}:`, error);
+      results.push({ originalFileName: file.originalname, error: 'Image could not be decoded; the file may be truncated or corrupted.' });
+    }
+  }
+
+  return results;
+}
+
+// Turn an unexpected processing error into a message that is safe to show users
+function describeUploadError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'Unknown error';
+  }
+  if (error.message.includes('OPENAI_API_KEY')) {
+    return 'AI service configuration error. Please contact support.';
+  }
+  if (error.message.includes('database') || error.message.includes('storage')) {
+    return 'Database error occurred while saving assessment. Please try again.';
+  }
+  if (error.message.includes('network') || error.message.includes('fetch')) {
+    return 'Network error occurred. Please check your connection and try again.';
+  }
+  return error.message;
+}
+
+/**
+ * Assess a classified upload: all images become one assessment and each video its own; runs as a background job
+ */
+export async function processUpload(
+  upload: ClassifiedUpload,
+  uploader: User,
+  report: JobReporter,
+  options: UploadOptions = {}
+): Promise<UploadProcessingResult> {
+  try {
+    const { accepted: images, rejected: unusable, quality } = await screenImages(upload.images);
+    const results: UploadResult[] = [...upload.rejected, ...unusable].map(rejection => ({
+      type: 'rejected',
+      originalFileName: rejection.originalFileName,
+      success: false,
+      error: rejection.reason,
+      quality: rejection.quality
+    }));
+
+    // Each image batch and each video is one step of the overall progress
+    const totalSteps = (images.length > 0 ? 1 : 0) + upload.videos.length;
+    let completedSteps = 0;
+    const reportStage = (subject: string) => (stage: AnalysisStage) => report(
+      stage,
+      describeAnalysisStage(stage, subject),
+      ((completedSteps + analysisStageProgress[stage]) / Math.max(totalSteps, 1)) * 100
+    );
+
+    if (images.length > 0) {
+      const files = images.map((file, index) => ({
+        imageIndex: index + 1,
+        originalFileName: file.originalname,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        quality: quality.get(file)
+      }));
+      try {
+        const outcome = await assessFiles(images, 'image', uploader, reportStage(describeFiles(images, 'image')), options);
+        results.push({ type: 'image-batch', files, ...outcome });
+      } catch (imageBatchError) {
+        console.error('Error processing image batch:', imageBatchError);
+        results.push({ type: 'image-batch', files, success: false, error: describeUploadError(imageBatchError) });
+      }
+      completedSteps++;
+    }
+
+    for (const file of upload.videos) {
+      try {
+        const outcome = await assessFiles([file], 'video', uploader, reportStage(file.originalname), options);
+        results.push({ type: 'video', originalFileName: file.originalname, ...outcome });
+      } catch (videoProcessingError) {
+        console.error(`Error processing video ${file.originalname}:`, videoProcessingError);
+        results.push({ type: 'video', originalFileName: file.originalname, success: false, error: describeUploadError(videoProcessingError) });
+      }
+      completedSteps++;
+    }
+
+    return { success: true, results };
+  } catch (error) {
+    console.error('Assessment error details:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      name: error instanceof Error ? error.name : 'UnknownError',
+      fullError: error
+    });
+    throw new Error(describeUploadError(error));
+  }
+}
+
+/**
+ * Read back the original uploads of an assessment, in upload order
+ */
+export async function loadStoredUploads(assessment: Assessment): Promise<UploadedMediaFile[]> {
+  const records = await storage.getAssessmentMedia(assessment.id);
+  const files: UploadedMediaFile[] = [];
+
+  for (const record of records.filter(item => item.kind === assessment.fileType)) {
+    const stored = await readMedia(record, 'original');
+    if (stored) {
+      files.push({
+        buffer: stored.data,
+        originalname: record.originalFileName || 'upload',
+        mimetype: record.mimeType,
+        size: stored.data.length
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Retry a failed assessment from its stored media; runs as a background job
+ */
+export async function rerunAssessment(assessment: Assessment, files: UploadedMediaFile[], report: JobReporter) {
+  const subject = describeFiles(files, assessment.fileType === 'video' ? 'video' : 'image');
+
+  const outcome = await analyzeAssessment(assessment, files, stage => report(
+    stage,
+    describeAnalysisStage(stage, subject),
+    analysisStageProgress[stage] * 100
+  ));
+  if (!outcome.aiResult) {
+    throw new Error(outcome.error);
+  }
+
+  const usernames = await loadUsernames([outcome.assessment.createdBy]);
+  const { modelRun, ...analysis } = outcome.aiResult;
+  return {
+    success: true,
+    assessment: {
+      ...presentAssessment(outcome.assessment, usernames),
+      ...analysis
+    }
+  };
+}
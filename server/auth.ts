@@ -0,0 +1,280 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import {
+  loginSchema,
+  registerUserSchema,
+  updateUserRoleSchema,
+  type User as SelectUser,
+  type PublicUser,
+  type UserRole,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // One week
+
+/**
+ * Hash a password with a random salt; stored as `<hash>.<salt>`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedBuffer.length === suppliedBuffer.length && timingSafeEqual(storedBuffer, suppliedBuffer);
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function presentUser(user: SelectUser): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+let generatedSecret: string | undefined;
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  if (!generatedSecret) {
+    console.warn("SESSION_SECRET is not set; sessions will be invalidated when the server restarts");
+    generatedSecret = randomBytes(32).toString("hex");
+  }
+  return generatedSecret;
+}
+
+/**
+ * Reject requests without a logged-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Reject requests unless the logged-in user has one of the given roles
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: `This action requires the ${roles.join(" or ")} role`,
+      });
+    }
+    next();
+  };
+}
+
+/**
+ * Session login with passport-local, plus the account and user management routes
+ */
+export function setupAuth(app: Express) {
+  const isProduction = app.get("env") === "production";
+
+  if (isProduction) {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: isProduction,
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Whether the first (admin) account still has to be created
+  app.get("/api/auth/setup", async (_req, res) => {
+    try {
+      res.json({ needsSetup: (await storage.countUsers()) === 0 });
+    } catch (error) {
+      console.error("Error checking user accounts:", error);
+      res.status(500).json({ error: "Failed to check user accounts" });
+    }
+  });
+
+  // Create an account: open only for the first user (who becomes admin), afterwards admins only
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const validation = registerUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid request", details: validation.error.errors });
+      }
+
+      const { username, password, role } = validation.data;
+
+      // The first account becomes admin. The storage creates it only while no account exists, in one atomic step, so of two
+      // simultaneous first registrations only one wins; the other falls through to the admin-only checks below
+      if ((await storage.countUsers()) === 0) {
+        const firstUser = await storage.createFirstUser({
+          username,
+          password: await hashPassword(password),
+          role: "admin",
+        });
+        if (firstUser) {
+          return req.login(firstUser, (error) => {
+            if (error) return next(error);
+            res.status(201).json(presentUser(firstUser));
+          });
+        }
+      }
+
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (req.user.role !== "admin") {
+        return res.status(403).json({ error: "Forbidden", message: "Only admins can create accounts" });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        role: role || "technician",
+      });
+      res.status(201).json(presentUser(user));
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const validation = loginSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid request", details: validation.error.errors });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false, info?: { message?: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: info?.message || "Invalid username or password" });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(presentUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json(presentUser(req.user));
+  });
+
+  // User management
+
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(presentUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validation = updateUserRoleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid request", details: validation.error.errors });
+      }
+
+      // Keep at least one admin able to manage accounts
+      if (req.params.id === req.user!.id && validation.data.role !== "admin") {
+        return res.status(400).json({ error: "You cannot remove your own admin role" });
+      }
+
+      const user = await storage.updateUser(req.params.id, { role: validation.data.role });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json(presentUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+}
@@ -1,8 +1,5 @@
-import OpenAI from "openai";
 import type { AssessmentData, ChatMessage } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { getChatProvider, type ChatProviderMessage } from "./ai-providers";
 
 interface SimpleChatMessage {
   role: 'user' | 'assistant';
@@ -26,7 +23,7 @@ Key capabilities:
 
 Be conversational, friendly, and helpful. Keep responses concise but informative.`;
 
-    const messages: any[] = [
+    const messages: ChatProviderMessage[] = [
       { role: "system", content: systemPrompt }
     ];
 
@@ -44,13 +41,12 @@ Be conversational, friendly, and helpful. Keep responses concise but informative
       content: message
     });
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
-      messages: messages,
-      max_completion_tokens: 500
+    const response = await getChatProvider().complete({
+      messages,
+      maxTokens: 500
     });
 
-    return response.choices[0].message.content || "I apologize, but I couldn't process your request. Please try again.";
+    return response.content || "I apologize, but I couldn't process your request. Please try again.";
   } catch (error) {
     console.error('Chat handler error:', error);
     throw new Error('Failed to process chat message');
@@ -79,8 +75,7 @@ ${assessment.detailedFindings.map(finding =>
 
 Please provide a conversational interpretation of these results. Explain what the grade means, highlight key concerns, and provide practical advice for the user. Keep it friendly and accessible.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-5",
+    const response = await getChatProvider().complete({
       messages: [
         {
           role: "system",
@@ -91,12 +86,30 @@ Please provide a conversational interpretation of these results. Explain what th
           content: prompt
         }
       ],
-      max_completion_tokens: 400
+      maxTokens: 400
     });
 
-    return response.choices[0].message.content || "I've completed the analysis, but couldn't generate a detailed interpretation.";
+    return response.content || "I've completed the analysis, but couldn't generate a detailed interpretation.";
   } catch (error) {
     console.error('Assessment interpretation error:', error);
     return "I've analyzed your laptop, but encountered an issue generating the detailed interpretation. The assessment results are still valid.";
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Assistant message posted into a conversation after an upload has been assessed
+ */
+export function formatAssessmentReply(assessment: AssessmentData, filename?: string): string {
+  return `## Assessment Complete! 📊${filename ? ` - ${filename}` : ''}
+
+**Overall Grade**: ${assessment.grade} (${Math.round(assessment.confidence * 100)}% confidence)
+**Condition**: ${assessment.overallCondition}
+
+**Damage Types Detected**: ${assessment.damageTypes.length > 0 ? assessment.damageTypes.join(', ') : 'None detected'}
+
+### Detailed Findings:
+${assessment.detailedFindings.map(finding => 
+  `• **${finding.category}** (${finding.severity}): ${finding.description}`
+).join('\n')}
+${assessment.sku ? `\nThe assessment has been saved to your database with SKU: ${assessment.sku}` : ''}`;
+}
@@ -5,11 +5,33 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle({ client: pool, schema }) };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+let database: ReturnType<typeof createDatabase> | undefined;
+
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.DATABASE_URL);
+}
+
+// Connect lazily so the server can start with in-memory storage when no database is provisioned
+function getDatabase() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  database ??= createDatabase(process.env.DATABASE_URL);
+  return database;
+}
+
+export function getPool() {
+  return getDatabase().pool;
+}
+
+export function getDb() {
+  return getDatabase().db;
+}
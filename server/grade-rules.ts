@@ -0,0 +1,41 @@
+import { rubricComponents, type AssessmentGrade, type ComponentConditions, type GradeDerivation, type GradeRuleStep, type GradingRubric } from '@shared/schema';
+import { rubricDefinition } from './grading-rubric';
+
+const gradeRank: Record<AssessmentGrade, number> = { A: 0, B: 1, C: 2, D: 3 };
+
+/**
+ * Derive the grade from the component conditions the model reported: each condition allows a best grade under the rubric,
+ * hard-fail rules on a reported condition cap it further, and the laptop gets the worst of them. The model's own grade is
+ * only kept when it could not see any component.
+ */
+export function deriveGrade(rubric: GradingRubric, conditions: ComponentConditions, modelGrade: AssessmentGrade): GradeDerivation {
+  const { conditionGrades, hardFailRules } = rubricDefinition(rubric);
+
+  const steps = rubricComponents.flatMap((component): Omit<GradeRuleStep, 'decisive'>[] => {
+    const condition = conditions[component];
+    if (condition === 'not-visible') {
+      return [{ component, condition, grade: null }];
+    }
+
+    const grade = (conditionGrades[component] as Record<string, AssessmentGrade>)[condition] ?? null;
+    const hardFails = hardFailRules
+      .filter(rule => rule.component === component && rule.condition === condition)
+      .map(rule => ({ component, condition, grade: rule.grade, hardFail: true }));
+    return [{ component, condition, grade }, ...hardFails];
+  });
+
+  const worst = steps.reduce<AssessmentGrade | null>(
+    (current, step) => step.grade && (!current || gradeRank[step.grade] > gradeRank[current]) ? step.grade : current,
+    null
+  );
+  const grade = worst ?? modelGrade;
+
+  return {
+    rubricVersion: rubric.version,
+    grade,
+    modelGrade,
+    source: worst ? 'rules' : 'model',
+    agreesWithModel: grade === modelGrade,
+    steps: steps.map(step => ({ ...step, decisive: !!worst && step.grade === worst }))
+  };
+}
@@ -0,0 +1,157 @@
+import { storage } from './storage';
+import { componentConditions, rubricComponents, rubricDefinitionSchema, type GradingRubric, type RubricComponent, type RubricDefinition, type RubricHardFailRule } from '@shared/schema';
+
+export const rubricComponentLabels: Record<RubricComponent, string> = {
+  chassis: 'Chassis',
+  screen: 'Screen',
+  hinges: 'Hinges',
+  keyboard: 'Keyboard',
+  ports: 'Ports'
+};
+
+// Seeded as version 1 when no rubric has been saved; matches the grading scale the prompts used before rubrics were versioned
+export const DEFAULT_RUBRIC: RubricDefinition = {
+  grades: [
+    {
+      grade: 'A',
+      label: 'Excellent',
+      summary: 'Like new appearance.',
+      criteria: {
+        chassis: 'Excellent condition on all sides (top, bottom, left, right, front, back)',
+        screen: 'Excellent, no visible damage',
+        hinges: 'Good',
+        keyboard: 'Complete, no missing keys',
+        ports: 'Intact, no visible damage'
+      }
+    },
+    {
+      grade: 'B',
+      label: 'Very Good to Good',
+      summary: 'Fully functional appearance. Minor to moderate cosmetic wear acceptable.',
+      criteria: {
+        chassis: 'Light to moderate scratches or dents',
+        screen: 'Excellent to moderate condition',
+        hinges: 'Good',
+        keyboard: 'Complete, no missing keys',
+        ports: 'Intact, light wear acceptable'
+      }
+    },
+    {
+      grade: 'C',
+      label: 'Fair',
+      summary: 'Heavy cosmetic wear or visible flaws, but structurally intact.',
+      criteria: {
+        chassis: 'Moderate to severe cosmetic wear, no cracks',
+        screen: 'Any condition short of a crack (minor, moderate or severe scratches)',
+        hinges: 'May appear loose but present',
+        keyboard: 'Complete',
+        ports: 'Worn but intact'
+      }
+    },
+    {
+      grade: 'D',
+      label: 'Poor / Parts Only',
+      summary: 'Severe or structural damage, non-functional appearance or parts-only condition.',
+      criteria: {
+        chassis: 'Cracks or major structural damage',
+        screen: 'Cracked or broken',
+        hinges: 'Bad or broken',
+        keyboard: 'Missing keys',
+        ports: 'Broken or missing'
+      }
+    }
+  ],
+  hardFailRules: [
+    { component: 'keyboard', condition: 'missing-keys', grade: 'D' },
+    { component: 'screen', condition: 'cracked', grade: 'D' },
+    { component: 'hinges', condition: 'broken', grade: 'D' },
+    { component: 'chassis', condition: 'cracked', grade: 'D' }
+  ],
+  conditionGrades: {
+    chassis: { 'pristine': 'A', 'light-wear': 'B', 'moderate-wear': 'B', 'heavy-wear': 'C', 'cracked': 'D' },
+    screen: { 'pristine': 'A', 'light-scratches': 'B', 'moderate-scratches': 'B', 'heavy-scratches': 'C', 'cracked': 'D' },
+    hinges: { 'good': 'A', 'loose': 'C', 'broken': 'D' },
+    keyboard: { 'complete': 'A', 'worn': 'B', 'missing-keys': 'D' },
+    ports: { 'intact': 'A', 'worn': 'B', 'damaged': 'D' }
+  }
+};
+
+/**
+ * The rubric in force (the latest version), seeding the default as version 1 on first use
+ */
+export async function getActiveRubric(): Promise<GradingRubric> {
+  const latest = await storage.getLatestRubric();
+  if (latest) {
+    return latest;
+  }
+
+  try {
+    return await storage.createRubric({ version: 1, definition: DEFAULT_RUBRIC, note: 'Default rubric' });
+  } catch (error) {
+    // Another request seeded it first
+    const seeded = await storage.getLatestRubric();
+    if (seeded) {
+      return seeded;
+    }
+    throw error;
+  }
+}
+
+// Hard-fail rules used to be free text, which the grade rules cannot evaluate; the default rubric's texts name a condition
+const LEGACY_HARD_FAIL_CONDITIONS: Record<string, string> = {
+  'Any missing keys': 'missing-keys',
+  'Any crack in the screen': 'cracked',
+  'Broken hinge': 'broken',
+  'Any crack in the chassis': 'cracked'
+};
+
+// Other free-text rules are dropped: they never affected a grade, and keeping them would suggest they do
+function upgradeHardFailRule(rule: RubricHardFailRule): RubricHardFailRule[] {
+  if ((componentConditions[rule.component] as readonly string[]).includes(rule.condition)) {
+    return [rule];
+  }
+  const condition = LEGACY_HARD_FAIL_CONDITIONS[rule.condition];
+  return condition ? [{ ...rule, condition }] : [];
+}
+
+/**
+ * Stored definition of a rubric version; rows are validated on write, so a parse failure means the row was edited by hand.
+ * Versions saved before condition grades existed get the default ones, and free-text hard-fail rules are upgraded
+ */
+export function rubricDefinition(rubric: GradingRubric): RubricDefinition {
+  const stored = rubric.definition as Partial<RubricDefinition>;
+  return rubricDefinitionSchema.parse({
+    conditionGrades: DEFAULT_RUBRIC.conditionGrades,
+    ...stored,
+    hardFailRules: stored.hardFailRules?.flatMap(upgradeHardFailRule)
+  });
+}
+
+/**
+ * Grading section of the vision prompts, so every prompt grades against the same scale
+ */
+export function renderRubric(rubric: GradingRubric): string {
+  const { grades, hardFailRules, conditionGrades } = rubricDefinition(rubric);
+
+  const scale = grades.map(({ grade, label, summary, criteria }) => [
+    `- Grade ${grade} (${label}): ${summary}`,
+    ...Object.entries(criteria).map(([component, text]) => `  - ${rubricComponentLabels[component as RubricComponent]}: ${text}`)
+  ].join('\n')).join('\n');
+
+  const rules = hardFailRules.length > 0
+    ? `
+
+Hard-fail rules (these cap the grade whatever the rest of the laptop looks like):
+${hardFailRules.map(rule => `- ${rubricComponentLabels[rule.component]}: ${rule.condition} → grade ${rule.grade} at best`).join('\n')}`
+    : '';
+
+  const conditions = rubricComponents.map(component => `- ${rubricComponentLabels[component]}: ${
+    Object.entries(conditionGrades[component]).map(([condition, grade]) => `${condition} → ${grade}`).join(', ')
+  }`).join('\n');
+
+  return `Grading Scale (rubric version ${rubric.version}; the laptop gets the best grade whose criteria every component meets):
+${scale}${rules}
+
+Component conditions and the best grade each allows (the final grade is the worst of these across the components you report):
+${conditions}`;
+}
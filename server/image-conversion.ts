@@ -0,0 +1,95 @@
+import sharp from 'sharp';
+import heicConvert from 'heic-convert';
+import bmp from 'bmp-js';
+
+// Image types the bundled libvips cannot decode itself (its HEIF support only covers AVIF)
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+const BMP_TYPES = ['image/bmp', 'image/x-ms-bmp'];
+
+/**
+ * Image types accepted for assessment; anything not read natively by sharp is decoded here first
+ */
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/tiff', ...HEIC_TYPES, ...BMP_TYPES];
+
+/**
+ * Open an uploaded image with sharp, decoding HEIC (iPhone photos) and BMP in JavaScript first
+ */
+export async function openImage(buffer: Buffer, mimeType: string): Promise<sharp.Sharp> {
+  const type = mimeType.toLowerCase();
+
+  if (HEIC_TYPES.includes(type)) {
+    // PNG keeps the decoded pixels lossless until the final JPEG encode
+    const png = await heicConvert({ buffer, format: 'PNG' });
+    return sharp(Buffer.from(png));
+  }
+
+  if (BMP_TYPES.includes(type)) {
+    const decoded = bmp.decode(buffer);
+    // bmp-js returns ABGR pixels; sharp wants RGB
+    const rgb = Buffer.alloc(decoded.width * decoded.height * 3);
+    for (let source = 0, target = 0; target < rgb.length; source += 4, target += 3) {
+      rgb[target] = decoded.data[source + 3];
+      rgb[target + 1] = decoded.data[source + 2];
+      rgb[target + 2] = decoded.data[source + 1];
+    }
+    return sharp(rgb, { raw: { width: decoded.width, height: decoded.height, channels: 3 } });
+  }
+
+  return sharp(buffer);
+}
+
+export interface JpegOptions {
+  quality?: number;
+  maxDimension?: number; // Longest side in px; larger images are downscaled, smaller ones are never enlarged
+}
+
+/**
+ * Re-encode any supported image as an upright JPEG, the format sent to the vision models
+ */
+export async function convertToJpeg(buffer: Buffer, mimeType: string, { quality = 95, maxDimension }: JpegOptions = {}): Promise<Buffer> {
+  const image = (await openImage(buffer, mimeType)).rotate();
+  if (maxDimension) {
+    image.resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true });
+  }
+  return await image.jpeg({ quality, mozjpeg: true }).toBuffer();
+}
+
+export interface SanitizedImage {
+  buffer: Buffer;
+  mimeType: string;
+  width: number; // Dimensions and EXIF orientation of the input, before auto-orientation
+  height: number;
+  orientation: number | null;
+}
+
+/**
+ * Re-encode an image for storage: the EXIF orientation is applied and all metadata (GPS location, device, timestamps) is dropped.
+ * HEIC is stored as JPEG since it cannot be written back; GIF and BMP carry no EXIF and are kept as uploaded.
+ */
+export async function sanitizeImage(buffer: Buffer, mimeType: string): Promise<SanitizedImage> {
+  const type = mimeType.toLowerCase();
+  const image = await openImage(buffer, type);
+  const { width, height, orientation } = await image.metadata();
+  const original = { width, height, orientation: orientation ?? null };
+
+  if (type === 'image/gif' || BMP_TYPES.includes(type)) {
+    return { buffer, mimeType: type, ...original };
+  }
+
+  // sharp writes no metadata unless asked to; only the colour profile is carried over
+  const upright = image.rotate().keepIccProfile();
+  if (type === 'image/png') {
+    return { buffer: await upright.png().toBuffer(), mimeType: type, ...original };
+  }
+  if (type === 'image/webp') {
+    return { buffer: await upright.webp({ quality: 95 }).toBuffer(), mimeType: type, ...original };
+  }
+  if (type === 'image/tiff') {
+    return { buffer: await upright.tiff({ compression: 'lzw' }).toBuffer(), mimeType: type, ...original };
+  }
+  return {
+    buffer: await upright.jpeg({ quality: 95, chromaSubsampling: '4:4:4', mozjpeg: true }).toBuffer(),
+    mimeType: 'image/jpeg',
+    ...original
+  };
+}
@@ -0,0 +1,149 @@
+import { openImage } from './image-conversion';
+import type { ImageQualityCheck, ImageQualityGate, ImageQualityReport, ImageQualityResult, ImageQualityVerdict } from '@shared/schema';
+
+/**
+ * Quality gate mode, read from IMAGE_QUALITY_GATE:
+ * - enforce (default): images failing a check are rejected before the AI call
+ * - warn: failures are reported but the image is still assessed
+ * - off: checks are skipped entirely
+ */
+export function getImageQualityGate(): ImageQualityGate {
+  const gate = (process.env.IMAGE_QUALITY_GATE || 'enforce').toLowerCase();
+  return gate === 'warn' || gate === 'off' ? gate : 'enforce';
+}
+
+// Checks run on a downscaled greyscale copy so scores do not depend on the camera's resolution
+const ANALYSIS_SIZE = 512;
+
+const thresholds = {
+  minShortSide: { reject: 320, warn: 720 }, // px
+  sharpness: { reject: 20, warn: 80 }, // Variance of the Laplacian
+  darkness: { reject: 35, warn: 60 }, // Mean brightness
+  brightness: { reject: 230, warn: 205 }, // Mean brightness
+  clippedHighlights: 0.3, // Share of pixels at or near white
+  subjectArea: 0.3, // Share of the frame covered by the subject's bounding box
+};
+
+const verdictRank: Record<ImageQualityVerdict, number> = { ok: 0, warn: 1, reject: 2 };
+
+function result(check: ImageQualityCheck, verdict: ImageQualityVerdict, score: number, message: string): ImageQualityResult {
+  return { check, verdict, score: Math.round(score * 100) / 100, message: verdict === 'ok' ? null : message };
+}
+
+function checkResolution(width: number, height: number): ImageQualityResult {
+  const shortSide = Math.min(width, height);
+  const verdict = shortSide < thresholds.minShortSide.reject ? 'reject' : shortSide < thresholds.minShortSide.warn ? 'warn' : 'ok';
+  return result('resolution', verdict, shortSide,
+    `Photo is only ${width}×${height}px; use the camera's full resolution so small scratches stay visible.`);
+}
+
+// Variance of the 4-neighbour Laplacian: sharp edges give large responses, blur flattens them
+function checkSharpness(pixels: Uint8Array, width: number, height: number): ImageQualityResult {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  const variance = count > 0 ? sumSquares / count - mean * mean : 0;
+
+  const verdict = variance < thresholds.sharpness.reject ? 'reject' : variance < thresholds.sharpness.warn ? 'warn' : 'ok';
+  return result('sharpness', verdict, variance,
+    'Photo is blurry; hold the camera steady, tap to focus on the laptop and retake it.');
+}
+
+function checkExposure(pixels: Uint8Array): ImageQualityResult {
+  let total = 0;
+  let clipped = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    total += pixels[i];
+    if (pixels[i] >= 250) clipped++;
+  }
+  const mean = pixels.length > 0 ? total / pixels.length : 0;
+  const clippedShare = pixels.length > 0 ? clipped / pixels.length : 0;
+
+  if (mean < thresholds.darkness.warn) {
+    return result('exposure', mean < thresholds.darkness.reject ? 'reject' : 'warn', mean,
+      'Photo is too dark; add light or move somewhere brighter so damage is visible.');
+  }
+  if (mean > thresholds.brightness.warn || clippedShare > thresholds.clippedHighlights) {
+    return result('exposure', mean > thresholds.brightness.reject ? 'reject' : 'warn', mean,
+      'Photo is overexposed or has glare; avoid direct light on the surface and retake it at an angle.');
+  }
+  return result('exposure', 'ok', mean, '');
+}
+
+// Heuristic: the laptop is where the edges are, so the box around the strongest gradients approximates it
+function checkFraming(pixels: Uint8Array, width: number, height: number): ImageQualityResult {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gradient = Math.abs(pixels[i + 1] - pixels[i - 1]) + Math.abs(pixels[i + width] - pixels[i - width]);
+      if (gradient > 48) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  const message = 'Laptop fills only a small part of the photo; move closer so it fills most of the frame.';
+  // Too few edges to locate anything (a blank wall or a featureless surface)
+  if (xs.length < width * height * 0.002) {
+    return result('framing', 'warn', 0, message);
+  }
+
+  // Trim the outermost 2% of edge pixels so background clutter does not stretch the box
+  const percentile = (values: number[], p: number) => values[Math.min(values.length - 1, Math.floor(values.length * p))];
+  xs.sort((a, b) => a - b);
+  ys.sort((a, b) => a - b);
+  const boxWidth = percentile(xs, 0.98) - percentile(xs, 0.02);
+  const boxHeight = percentile(ys, 0.98) - percentile(ys, 0.02);
+  const area = (boxWidth * boxHeight) / (width * height);
+
+  return result('framing', area < thresholds.subjectArea ? 'warn' : 'ok', area, message);
+}
+
+/**
+ * Score a photo's resolution, sharpness, exposure and framing before it is sent to the model
+ * @throws When the image cannot be decoded
+ */
+export async function analyzeImageQuality(buffer: Buffer, mimeType: string): Promise<ImageQualityReport> {
+  const image = await openImage(buffer, mimeType);
+  const { data, info } = await image
+    .rotate()
+    .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Dimensions of the upright original, before the analysis downscale
+  const { width, height } = (await image.metadata()).autoOrient;
+
+  // Greyscale output normally has one channel; keep only the first if libvips kept more
+  const pixels = info.channels === 1
+    ? new Uint8Array(data.buffer, data.byteOffset, data.length)
+    : Uint8Array.from({ length: info.width * info.height }, (_, i) => data[i * info.channels]);
+
+  const checks = [
+    checkResolution(width, height),
+    checkSharpness(pixels, info.width, info.height),
+    checkExposure(pixels),
+    checkFraming(pixels, info.width, info.height),
+  ];
+  const verdict = checks.reduce<ImageQualityVerdict>(
+    (worst, check) => verdictRank[check.verdict] > verdictRank[worst] ? check.verdict : worst,
+    'ok'
+  );
+
+  return { verdict, width, height, checks };
+}
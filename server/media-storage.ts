@@ -0,0 +1,389 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import type { Media } from '@shared/schema';
+import { storage } from './storage';
+import { extractVideoThumbnail, stripVideoMetadata } from './video-utils';
+import { openImage, sanitizeImage } from './image-conversion';
+
+export type MediaBackend = 'local' | 's3';
+export type MediaVariant = 'original' | 'thumbnail';
+
+/**
+ * Minimal blob store used to keep uploaded evidence after the AI call
+ */
+export interface MediaStore {
+  readonly backend: MediaBackend;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores media files on the local disk under MEDIA_STORAGE_DIR (default: ./uploads)
+ */
+export class LocalDiskMediaStore implements MediaStore {
+  readonly backend = 'local' as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.resolveKey(key)).catch(() => {});
+  }
+}
+
+/**
+ * Stores media files in an S3 bucket or any S3-compatible service (MinIO, R2, ...)
+ */
+export class S3MediaStore implements MediaStore {
+  readonly backend = 's3' as const;
+
+  constructor(private readonly client: S3Client, private readonly bucket: string) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error(`Media object ${key} has no content`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+}
+
+const mediaStores = new Map<MediaBackend, MediaStore>();
+
+function createMediaStore(backend: MediaBackend): MediaStore {
+  if (backend === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET environment variable is required when MEDIA_STORAGE=s3');
+    }
+
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+    });
+
+    return new S3MediaStore(client, bucket);
+  }
+
+  return new LocalDiskMediaStore(path.resolve(process.env.MEDIA_STORAGE_DIR || 'uploads'));
+}
+
+/**
+ * Get the media store for a backend (defaults to the one configured via MEDIA_STORAGE)
+ */
+export function getMediaStore(backend?: MediaBackend): MediaStore {
+  const selected: MediaBackend = backend || (process.env.MEDIA_STORAGE === 's3' ? 's3' : 'local');
+
+  let store = mediaStores.get(selected);
+  if (!store) {
+    store = createMediaStore(selected);
+    mediaStores.set(selected, store);
+  }
+  return store;
+}
+
+export interface UploadedMediaFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+const THUMBNAIL_SIZE = 480;
+
+// Extensions for files whose format changed when they were sanitized (HEIC is stored as JPEG)
+const convertedExtensions: Record<string, string> = { 'image/jpeg': '.jpg' };
+
+// Container extensions for the sniffed video types. ffmpeg picks the output container from the extension, so taking it from
+// the file name would fail to remux a mislabelled video (a QuickTime file named .mp4, say)
+const videoExtensions: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'video/webm': '.webm',
+  'video/x-matroska': '.mkv',
+  'video/x-msvideo': '.avi'
+};
+
+function fileExtension(file: UploadedMediaFile, storedMimeType: string): string {
+  if (videoExtensions[storedMimeType]) {
+    return videoExtensions[storedMimeType];
+  }
+  if (storedMimeType !== file.mimetype && convertedExtensions[storedMimeType]) {
+    return convertedExtensions[storedMimeType];
+  }
+  const ext = path.extname(file.originalname).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  return ext || (file.mimetype.startsWith('video/') ? '.mp4' : '.jpg');
+}
+
+interface SanitizedUpload {
+  buffer: Buffer;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  orientation: number | null;
+}
+
+// Customer devices must not be traceable to a location, so GPS and other metadata are removed before anything is stored
+async function sanitizeUpload(file: UploadedMediaFile, kind: 'image' | 'video'): Promise<SanitizedUpload | null> {
+  if (kind === 'video') {
+    const stripped = await stripVideoMetadata(file.buffer, videoExtensions[file.mimetype] || '.mp4');
+    return stripped && { buffer: stripped.buffer, mimeType: file.mimetype, width: stripped.width || null, height: stripped.height || null, orientation: null };
+  }
+
+  try {
+    return await sanitizeImage(file.buffer, file.mimetype);
+  } catch (error) {
+    console.warn(`Could not strip metadata from ${file.originalname}:`, error);
+    return null;
+  }
+}
+
+async function createThumbnail(file: UploadedMediaFile, kind: 'image' | 'video'): Promise<Buffer | null> {
+  if (kind === 'video') {
+    return await extractVideoThumbnail(file.buffer);
+  }
+
+  try {
+    const image = await openImage(file.buffer, file.mimetype);
+    return await image
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch (error) {
+    console.warn(`Could not create thumbnail for ${file.originalname}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Persist the original files, stripped of metadata, and their thumbnails, and link them to the assessment
+ * @returns The created media records, in upload order; files whose metadata could not be removed are skipped
+ */
+export async function saveAssessmentMedia(
+  assessmentId: string,
+  files: UploadedMediaFile[],
+  kind: 'image' | 'video'
+): Promise<Media[]> {
+  const store = getMediaStore();
+  const saved: Media[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const sanitized = await sanitizeUpload(file, kind);
+    if (!sanitized) {
+      console.warn(`Not storing ${file.originalname}: its metadata could not be removed`);
+      continue;
+    }
+
+    const stored: UploadedMediaFile = { ...file, buffer: sanitized.buffer, mimetype: sanitized.mimeType, size: sanitized.buffer.length };
+    const baseKey = `assessments/${assessmentId}/${Date.now()}-${index + 1}-${randomBytes(4).toString('hex')}`;
+    const storageKey = `${baseKey}${fileExtension(file, sanitized.mimeType)}`;
+
+    await store.put(storageKey, stored.buffer, stored.mimetype);
+
+    let thumbnailKey: string | null = null;
+    const thumbnail = await createThumbnail(stored, kind);
+    if (thumbnail) {
+      thumbnailKey = `${baseKey}-thumb.jpg`;
+      await store.put(thumbnailKey, thumbnail, 'image/jpeg');
+    }
+
+    saved.push(await storage.createMedia({
+      assessmentId,
+      kind,
+      position: index,
+      storageBackend: store.backend,
+      storageKey,
+      thumbnailKey,
+      originalFileName: file.originalname,
+      mimeType: stored.mimetype,
+      fileSize: stored.size,
+      width: sanitized.width,
+      height: sanitized.height,
+      orientation: sanitized.orientation,
+    }));
+  }
+
+  return saved;
+}
+
+/**
+ * Read the stored bytes of a media record
+ */
+export async function readMedia(record: Media, variant: MediaVariant): Promise<{ data: Buffer; contentType: string } | undefined> {
+  const key = variant === 'thumbnail' ? record.thumbnailKey : record.storageKey;
+  if (!key) {
+    return undefined;
+  }
+
+  const store = getMediaStore(record.storageBackend as MediaBackend);
+  return {
+    data: await store.get(key),
+    contentType: variant === 'thumbnail' ? 'image/jpeg' : record.mimeType,
+  };
+}
+
+/**
+ * Remove the stored files of media records (best effort; missing files are ignored)
+ */
+export async function deleteMediaFiles(records: Media[]): Promise<void> {
+  for (const record of records) {
+    const store = getMediaStore(record.storageBackend as MediaBackend);
+    const keys = record.thumbnailKey ? [record.storageKey, record.thumbnailKey] : [record.storageKey];
+
+    for (const key of keys) {
+      try {
+        await store.delete(key);
+      } catch (error) {
+        console.warn(`Could not delete media file ${key}:`, error);
+      }
+    }
+  }
+}
+
+// Media URLs are signed so that evidence cannot be enumerated by guessing ids
+let generatedSecret: string | undefined;
+
+function getSigningSecret(): string {
+  if (process.env.MEDIA_URL_SECRET) {
+    return process.env.MEDIA_URL_SECRET;
+  }
+
+  if (!generatedSecret) {
+    console.warn('MEDIA_URL_SECRET is not set; media URLs will stop working after a server restart');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+function computeSignature(mediaId: string, variant: MediaVariant, expires: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${mediaId}:${variant}:${expires}`)
+    .digest('hex');
+}
+
+const MEDIA_URL_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL_SECONDS || '21600', 10);
+
+/**
+ * Unsigned path of a media file, suitable for storing in the database (e.g. assessments.imageUrl)
+ */
+export function mediaPath(mediaId: string, variant: MediaVariant = 'original'): string {
+  return variant === 'thumbnail' ? `/api/media/${mediaId}?variant=thumbnail` : `/api/media/${mediaId}`;
+}
+
+/**
+ * Build a time-limited URL for GET /api/media/:id
+ */
+export function signedMediaUrl(mediaId: string, variant: MediaVariant = 'original'): string {
+  const expires = Math.floor(Date.now() / 1000) + MEDIA_URL_TTL_SECONDS;
+  const params = new URLSearchParams();
+  if (variant === 'thumbnail') {
+    params.set('variant', 'thumbnail');
+  }
+  params.set('expires', expires.toString());
+  params.set('signature', computeSignature(mediaId, variant, expires));
+  return `/api/media/${mediaId}?${params.toString()}`;
+}
+
+/**
+ * Sign a stored media path; other URLs are returned unchanged
+ */
+export function signMediaPath(url: string | null): string | null {
+  if (!url) {
+    return url;
+  }
+
+  const match = url.match(/^\/api\/media\/([^/?]+)(\?.*)?$/);
+  if (!match) {
+    return url;
+  }
+
+  const params = new URLSearchParams(match[2] || '');
+  return signedMediaUrl(match[1], params.get('variant') === 'thumbnail' ? 'thumbnail' : 'original');
+}
+
+export function verifyMediaSignature(mediaId: string, variant: MediaVariant, expires: unknown, signature: unknown): boolean {
+  if (typeof expires !== 'string' || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expiresAt = parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(mediaId, variant, expiresAt), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+/**
+ * Media record as returned by the API, with signed URLs instead of storage keys
+ */
+export function presentMedia(record: Media) {
+  return {
+    id: record.id,
+    kind: record.kind,
+    position: record.position,
+    originalFileName: record.originalFileName,
+    mimeType: record.mimeType,
+    fileSize: record.fileSize,
+    width: record.width,
+    height: record.height,
+    orientation: record.orientation,
+    createdAt: record.createdAt,
+    url: signedMediaUrl(record.id),
+    thumbnailUrl: record.thumbnailKey ? signedMediaUrl(record.id, 'thumbnail') : null,
+  };
+}
+
+export type PresentedMedia = ReturnType<typeof presentMedia>;
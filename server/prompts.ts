@@ -0,0 +1,154 @@
+import { componentConditions, rubricComponents, type GradingRubric } from '@shared/schema';
+import { renderRubric } from './grading-rubric';
+
+// What each vision prompt is rendered from
+export interface PromptInputs {
+  'single-image': { rubric: GradingRubric };
+  'multi-image': { count: number; source: 'photos' | 'video'; rubric: GradingRubric };
+}
+
+export type PromptId = keyof PromptInputs;
+
+interface PromptVersion<Input> {
+  version: string; // Date plus a counter, e.g. 2026-10-19.4
+  render: (input: Input) => string;
+}
+
+export interface RenderedPrompt {
+  promptVersion: string; // "<id>@<version>", stamped on every assessment
+  text: string;
+}
+
+// JSON shape of componentConditions in the prompts, listing every condition the grade rules know
+const COMPONENT_CONDITIONS_SHAPE = `{
+${rubricComponents.map(component => `    "${component}": ${[...componentConditions[component], 'not-visible'].map(condition => `"${condition}"`).join(' | ')}`).join(',\n')}
+  }`;
+
+const COMPONENT_CONDITIONS_NOTE = 'componentConditions gives the worst condition seen of each component across all images, or "not-visible" when no image shows it. The final grade is computed from these conditions with the rubric below, so report them carefully; "grade" is your own suggestion.';
+
+// What to inspect on every laptop; how findings translate into a grade comes from the grading rubric
+const INSPECTION_CHECKLIST = `Focus on Visual Assessment:
+- Chassis condition: Assess scratches and dents on all visible sides (top, bottom, left, right, front, back)
+- Screen condition: Look for cracks, dead pixels, lines, scratches, or other visible damage
+- Hinges: Check if hinges appear intact, loose, or broken/damaged
+- Keyboard: Verify all keys are present and intact (look for missing keys)
+- Ports: Check ports and connectors for damage or missing parts
+- Overall structural integrity: Assess for cracks, major dents, or broken components`;
+
+function renderMultiImagePrompt({ count, source, rubric }: PromptInputs['multi-image']): string {
+  const intro = source === 'video'
+    ? `You are a professional laptop condition assessor. You will receive ${count} frame${count > 1 ? 's' : ''} extracted from a video walk-around of a single laptop, in chronological order. Each frame is labeled with its position in the video.`
+    : `You are a professional laptop condition assessor. You will receive ${count} laptop photo${count > 1 ? 's' : ''}.`;
+
+  const unit = source === 'video' ? 'frame' : 'photo';
+
+  const videoNotes = source === 'video'
+    ? `
+
+Since these are video frames:
+- Different frames usually show different sides of the laptop - combine them into one overall grade
+- Video quality and motion blur may affect detail visibility - adjust confidence accordingly
+- Only report damage in a ${unit}'s analysis if it is clearly visible in that ${unit}`
+    : '';
+
+  return `${intro}
+
+For each ${unit}, provide a thorough analysis BEFORE giving the overall grade. Return a JSON object with this exact structure:
+{
+  "grade": "A" | "B" | "C" | "D",
+  "confidence": 0.0 to 1.0,
+  "overallCondition": "Overall summary after reviewing every ${unit}",
+  "damageTypes": ["array", "of", "damage", "types"],
+  "componentConditions": ${COMPONENT_CONDITIONS_SHAPE},
+  "detailedFindings": [
+    {
+      "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
+      "severity": "Low" | "Medium" | "High",
+      "description": "Combined description across all ${unit}s",
+      "boundingBox": { "imageIndex": 1, "x": 0.0 to 1.0, "y": 0.0 to 1.0, "width": 0.0 to 1.0, "height": 0.0 to 1.0 } or null
+    }
+  ],
+  "imageAnalyses": [
+    {
+      "imageIndex": 1,
+      "summary": "Summary for the specific ${unit}",
+      "damageTypes": ["damage", "types", "seen", "in", "this", "${unit}"],
+      "detailedFindings": [
+        {
+          "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
+          "severity": "Low" | "Medium" | "High",
+          "description": "Observation specific to this ${unit}",
+          "boundingBox": { "x": 0.0 to 1.0, "y": 0.0 to 1.0, "width": 0.0 to 1.0, "height": 0.0 to 1.0 } or null
+        }
+      ]
+    }
+  ]
+}
+
+Discuss every ${unit} individually within imageAnalyses (imageIndex is the 1-based ${unit} number) before summarizing and grading the overall condition.
+
+boundingBox marks where the damage is visible: x and y are the top-left corner and width and height the size, all as fractions of the ${unit}'s width and height. In the overall detailedFindings, imageIndex names the ${unit} the box is drawn on (pick the clearest one). Use null when the damage cannot be pointed to.
+
+${COMPONENT_CONDITIONS_NOTE}
+
+${renderRubric(rubric)}
+
+${INSPECTION_CHECKLIST}${videoNotes}`;
+}
+
+function renderSingleImagePrompt({ rubric }: PromptInputs['single-image']): string {
+  return `You are a professional laptop condition assessor. Analyze this laptop image and provide a detailed damage assessment.
+
+Return your assessment as a JSON object with this exact structure:
+{
+  "grade": "A" | "B" | "C" | "D",
+  "confidence": 0.0 to 1.0,
+  "overallCondition": "Brief overall condition summary",
+  "damageTypes": ["array", "of", "damage", "types"],
+  "componentConditions": ${COMPONENT_CONDITIONS_SHAPE},
+  "detailedFindings": [
+    {
+      "category": "Display Lid" | "Base/Keyboard Area" | "Screen" | "Ports/Connectors" | "Hinges" | "Overall Structure",
+      "severity": "Low" | "Medium" | "High",
+      "description": "Detailed description of findings",
+      "boundingBox": { "x": 0.0 to 1.0, "y": 0.0 to 1.0, "width": 0.0 to 1.0, "height": 0.0 to 1.0 } or null
+    }
+  ]
+}
+
+boundingBox marks where the damage is visible: x and y are the top-left corner and width and height the size, all as fractions of the image's width and height. Use null when the finding cannot be pointed to in the image.
+
+${COMPONENT_CONDITIONS_NOTE}
+
+${renderRubric(rubric)}
+
+${INSPECTION_CHECKLIST}
+
+Be thorough but concise. Provide realistic confidence scores based on image quality and visibility of potential issues.`;
+}
+
+/**
+ * Every version of each vision prompt, oldest first; the last one is used for new analyses. Add a version (with its own
+ * render function) instead of editing a released one, so stored promptVersions keep pointing at the text that produced them.
+ * The grading rubric is versioned separately (see rubricVersion)
+ */
+const promptRegistry: { [Id in PromptId]: PromptVersion<PromptInputs[Id]>[] } = {
+  'single-image': [
+    { version: '2026-10-19.4', render: renderSingleImagePrompt }
+  ],
+  'multi-image': [
+    { version: '2026-10-19.4', render: renderMultiImagePrompt }
+  ]
+};
+
+/**
+ * Render a prompt: the latest version, or an earlier one to reproduce a stored assessment
+ */
+export function renderPrompt<Id extends PromptId>(id: Id, input: PromptInputs[Id], version?: string): RenderedPrompt {
+  const versions: PromptVersion<PromptInputs[Id]>[] = promptRegistry[id];
+  const prompt = version ? versions.find(item => item.version === version) : versions[versions.length - 1];
+  if (!prompt) {
+    throw new Error(`Prompt ${id} has no version ${version}`);
+  }
+  return { promptVersion: `${id}@${prompt.version}`, text: prompt.render(input) };
+}
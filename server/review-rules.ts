@@ -0,0 +1,85 @@
+import { reviewRules, type ReviewRule } from "@shared/schema";
+
+/**
+ * Review configuration, read from the environment:
+ * - REVIEW_CONFIDENCE_THRESHOLD: assessments below this confidence (0-1) need review (default 0.7)
+ * - REVIEW_RULES: comma-separated rules to apply (default: all of reviewRules)
+ */
+export interface ReviewConfig {
+  confidenceThreshold: number;
+  rules: ReviewRule[];
+}
+
+function readConfig(): ReviewConfig {
+  const threshold = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD ?? 0.7);
+  const configuredRules = process.env.REVIEW_RULES
+    ?.split(',')
+    .map(rule => rule.trim())
+    .filter(Boolean);
+
+  const unknown = configuredRules?.filter(rule => !(reviewRules as readonly string[]).includes(rule)) || [];
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown REVIEW_RULES entries: ${unknown.join(', ')}`);
+  }
+
+  return {
+    confidenceThreshold: Number.isFinite(threshold) ? Math.min(Math.max(threshold, 0), 1) : 0.7,
+    rules: configuredRules
+      ? reviewRules.filter(rule => configuredRules.includes(rule))
+      : [...reviewRules],
+  };
+}
+
+let config: ReviewConfig | undefined;
+
+export function getReviewConfig(): ReviewConfig {
+  config ??= readConfig();
+  return config;
+}
+
+interface ReviewCandidate {
+  confidence: number | null; // Null when the model produced no result
+  detailedFindings?: unknown;
+  gradeDerivation?: { agreesWithModel: boolean }; // See GradeDerivation
+}
+
+interface ReviewContext {
+  processingError?: boolean; // The model could not assess the upload and the assessment was saved as ERROR
+}
+
+/**
+ * Rules the assessment trips; any match routes it into the review queue
+ */
+export function evaluateReviewRules(assessment: ReviewCandidate, context: ReviewContext = {}): ReviewRule[] {
+  const { confidenceThreshold, rules } = getReviewConfig();
+  const matched: ReviewRule[] = [];
+
+  if (rules.includes('low-confidence') && assessment.confidence !== null && assessment.confidence < confidenceThreshold) {
+    matched.push('low-confidence');
+  }
+
+  const findings = Array.isArray(assessment.detailedFindings) ? assessment.detailedFindings : [];
+  if (rules.includes('high-severity') && findings.some(finding => finding?.severity === 'High')) {
+    matched.push('high-severity');
+  }
+
+  if (rules.includes('processing-error') && context.processingError) {
+    matched.push('processing-error');
+  }
+
+  if (rules.includes('grade-disagreement') && assessment.gradeDerivation && !assessment.gradeDerivation.agreesWithModel) {
+    matched.push('grade-disagreement');
+  }
+
+  return matched;
+}
+
+/**
+ * Review columns for a newly created assessment
+ */
+export function initialReviewState(assessment: ReviewCandidate, context: ReviewContext = {}) {
+  const reasons = evaluateReviewRules(assessment, context);
+  return reasons.length > 0
+    ? { reviewStatus: 'PENDING_REVIEW', reviewReasons: reasons }
+    : { reviewStatus: null, reviewReasons: null };
+}
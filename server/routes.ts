@@ -1,63 +1,266 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
-import { assessLaptopDamageBatch, assessLaptopDamageFromVideo, fileToBase64 } from "./ai-assessment";
-import { insertAssessmentSchema, chatMessageSchema, interpretAssessmentSchema } from "@shared/schema";
-import { handleChatMessage, interpretAssessment } from "./chat-handler";
+import { storage, type AssessmentSearchKey } from "./storage";
+import { insertAssessmentSchema, chatMessageSchema, interpretAssessmentSchema, assessmentSearchQuerySchema, assessmentOverrideSchema, reviewRegradeSchema, createAnnotationSchema, updateAnnotationSchema, createRubricSchema, type AnnotationRegion, type GradingRubric, type PresentedRubric, type AssessmentModelRun, type AssessmentAnnotation, type ReviewCounts, type InsertAssessment, type AssessmentFieldChanges, type Assessment, type AssessmentSearchPage, type AssessmentSortField, type User, type AssessmentData, type ConversationMessage } from "@shared/schema";
+import { handleChatMessage, interpretAssessment, formatAssessmentReply } from "./chat-handler";
+import { readMedia, deleteMediaFiles, mediaPath, signMediaPath, presentMedia, verifyMediaSignature } from "./media-storage";
+import { setupAuth, requireAuth, requireRole } from "./auth";
+import { checkImageQuality, classifyUploads, processUpload, loadStoredUploads, rerunAssessment, loadUsernames, presentAssessment, type AnalyzedAssessment, type ClassifiedUpload, type UploadOptions } from "./assessment-service";
+import { getImageQualityGate } from "./image-quality";
+import { aiFindings, mergeFindings, summarizeDamage, type AnnotatedFinding } from "@shared/annotations";
+import { getActiveRubric, rubricDefinition } from "./grading-rubric";
+import { assessmentJobs, type AssessmentJob, type JobEvent, type JobReporter } from "./assessment-jobs";
 import express from "express"; // Import express to use express.Router
 
-// Configure multer for file uploads
+// Uploads are kept in memory and classified by content in the assessment service, so multer only enforces size limits
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB limit for videos
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow both image and video files
-    const allowedImageTypes = /^image\/(jpeg|jpg|png|gif|webp|bmp|tiff|heic|heif)$/i;
-    const allowedVideoTypes = /^video\/(mp4|webm|mov|avi|mkv|quicktime|x-msvideo|x-matroska)$/i;
-
-    // Also check for common alternative MIME types and HEIC files
-    const isVideo = allowedVideoTypes.test(file.mimetype) || 
-                   file.mimetype === 'application/mp4' ||
-                   file.mimetype === 'video/x-mp4' ||
-                   (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(mp4|webm|mov|avi|mkv)$/i));
-
-    const isImage = allowedImageTypes.test(file.mimetype) ||
-                   // Handle HEIC files that may appear as application/octet-stream
-                   (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(heic|heif)$/i));
-
-    if (isImage || isVideo) {
-      cb(null, true);
-    } else {
-      cb(new Error(`Only image files (JPEG, PNG, GIF, WebP, BMP, TIFF, HEIC) and video files (MP4, WebM, MOV, AVI, MKV) are allowed. Got: ${file.mimetype}`));
-    }
+    files: 10 // Maximum 10 files per request
   }
 });
 
-// Configure multer for multiple file uploads
-const uploadMultiple = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
-    files: 10 // Maximum 10 files per request
-  },
-  fileFilter: (req, file, cb) => {
-    const isImage = file.mimetype.startsWith('image/') || 
-                   (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(heic|heif)$/i));
-    const isVideo = file.mimetype.startsWith('video/');
+// Why a review action cannot be taken on the assessment right now, or null if it can
+function reviewConflict(assessment: Assessment, userId: string, usernames: Map<string, string>): string | null {
+  if (assessment.status === 'PENDING') {
+    return 'This assessment is still being analyzed';
+  }
+  if (assessment.reviewStatus !== 'PENDING_REVIEW' && assessment.reviewStatus !== 'IN_REVIEW') {
+    return 'This assessment is not awaiting review';
+  }
+  if (assessment.reviewClaimedBy && assessment.reviewClaimedBy !== userId) {
+    return `This review is claimed by ${usernames.get(assessment.reviewClaimedBy) || 'another user'}`;
+  }
+  return null;
+}
+
+// Search cursors are opaque to clients. They hold the sort they were issued for and the last row's sort value and id, so
+// the next page starts after that row even when assessments are added or removed in the meantime
+function encodeSearchCursor(sort: AssessmentSortField, order: 'asc' | 'desc', last: Assessment): string {
+  const value = last[sort];
+  return Buffer.from(JSON.stringify({
+    sort,
+    order,
+    value: value instanceof Date ? value.toISOString() : value,
+    id: last.id
+  })).toString('base64url');
+}
+
+function decodeSearchCursor(cursor: string, sort: AssessmentSortField, order: 'asc' | 'desc'): AssessmentSearchKey | null {
+  try {
+    const { sort: cursorSort, order: cursorOrder, value, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (cursorSort !== sort || cursorOrder !== order || typeof id !== 'string') {
+      return null;
+    }
+    if (value === null) {
+      return { value, id };
+    }
+    if (sort === 'assessmentDate') {
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? { value: new Date(value), id } : null;
+    }
+    if (sort === 'confidence') {
+      return typeof value === 'number' ? { value, id } : null;
+    }
+    return typeof value === 'string' ? { value, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Exclusive upper bound for an inclusive endDate; a bare YYYY-MM-DD includes that whole day
+function endOfDateRange(value: string): Date {
+  const date = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  } else {
+    date.setTime(date.getTime() + 1);
+  }
+  return date;
+}
+
+// Annotation columns for a region; null clears it
+function regionColumns(region: AnnotationRegion | null) {
+  return region
+    ? { x: region.x, y: region.y, width: region.width, height: region.height }
+    : { x: null, y: null, width: null, height: null };
+}
+
+// What the audit log records about a damage region on either side of a change
+function auditRegion(finding: { category: string; severity: string; imageIndex: number; region: AnnotationRegion | null } | undefined) {
+  return finding
+    ? { category: finding.category, severity: finding.severity, imageIndex: finding.imageIndex, region: finding.region }
+    : null;
+}
+
+function annotationRegion(annotation: AssessmentAnnotation): AnnotationRegion | null {
+  const { x, y, width, height } = annotation;
+  return x !== null && y !== null && width !== null && height !== null ? { x, y, width, height } : null;
+}
+
+function findingRegion(finding: AnnotatedFinding): AnnotationRegion | null {
+  if (!finding.boundingBox) return null;
+  const { x, y, width, height } = finding.boundingBox;
+  return { x, y, width, height };
+}
+
+// Human annotations plus the findings and damage summary they produce when applied to the model's findings
+async function loadAnnotatedFindings(assessment: Assessment) {
+  const annotations = await storage.getAssessmentAnnotations(assessment.id);
+  const findings = mergeFindings(aiFindings(assessment), annotations);
+  return { annotations, findings, damageSummary: summarizeDamage(findings, annotations) };
+}
+
+// Where clients can poll or stream a queued assessment job
+function presentJobLinks(job: AssessmentJob) {
+  return {
+    success: true,
+    jobId: job.id,
+    status: job.status,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`
+  };
+}
+
+// A job's results include the uploaded assessments, so other users only see it as missing unless they are reviewers
+function findVisibleJob(req: Request, id: string): AssessmentJob | undefined {
+  const job = assessmentJobs.get(id);
+  if (!job || (job.userId !== req.user!.id && req.user!.role !== 'supervisor' && req.user!.role !== 'admin')) {
+    return undefined;
+  }
+  return job;
+}
+
+// Shape the chatbot renders; media links are stored unsigned and signed when the message is sent to a client
+async function toChatAssessment(result: AnalyzedAssessment): Promise<AssessmentData> {
+  const media = await storage.getAssessmentMedia(result.id);
+  const cover = media[0];
+  const mediaUrl = cover
+    ? mediaPath(cover.id, cover.kind === 'image' && cover.thumbnailKey ? 'thumbnail' : 'original')
+    : '';
+
+  return {
+    assessmentId: result.id,
+    sku: result.sku ?? undefined,
+    gradedBy: result.createdByName || undefined,
+    grade: result.grade,
+    confidence: result.confidence,
+    damageTypes: result.damageTypes,
+    overallCondition: result.damageDescription || result.overallCondition,
+    detailedFindings: result.detailedFindings,
+    processingTime: result.processingTime,
+    analysisCache: result.cache,
+    mediaUrl,
+    mediaType: result.fileType === 'video' ? 'video' : 'image',
+    imageAnalyses: result.imageAnalyses.map(({ mediaUrl, ...analysis }) => analysis),
+    videoMetadata: result.videoMetadata
+  };
+}
+
+function presentChatAssessment(assessment: AssessmentData): AssessmentData {
+  return {
+    ...assessment,
+    mediaUrl: signMediaPath(assessment.mediaUrl) || ''
+  };
+}
+
+// Sign media links inside stored assessment data before returning conversation history
+function presentConversationMessage(message: ConversationMessage): ConversationMessage {
+  const assessmentData = message.assessmentData as AssessmentData | null;
+  if (!assessmentData?.mediaUrl) {
+    return message;
+  }
+  return { ...message, assessmentData: presentChatAssessment(assessmentData) };
+}
+
+// Assess files uploaded from the chatbot and post the results into the conversation; runs as a background job
+async function processChatUpload(
+  files: Express.Multer.File[],
+  upload: ClassifiedUpload,
+  conversationId: string | null,
+  uploader: User,
+  report: JobReporter,
+  options: UploadOptions
+) {
+  if (conversationId) {
+    await storage.addMessage({
+      conversationId,
+      role: 'user',
+      content: `Uploaded ${files.length} file${files.length === 1 ? '' : 's'} for assessment`,
+      assessmentData: null,
+      fileData: files.map(file => ({ name: file.originalname, type: file.mimetype, size: file.size }))
+    });
+  }
+
+  const { results } = await processUpload(upload, uploader, report, options);
 
-    if (isImage || isVideo) {
-      cb(null, true);
-    } else {
-      cb(new Error(`File type ${file.mimetype} is not supported. Please upload images (JPEG, PNG, WebP, HEIC) or videos (MP4, WebM, MOV).`));
+  const assessments: AssessmentData[] = [];
+  const responses: string[] = [];
+  const failures: { originalFileName: string; error: string }[] = [];
+
+  for (const entry of results) {
+    if (!entry.success || !entry.assessment) {
+      const names = entry.type === 'image-batch' ? entry.files.map(file => file.originalFileName) : [entry.originalFileName];
+      for (const name of names) {
+        failures.push({ originalFileName: name, error: entry.error || 'Unknown error' });
+      }
+      continue;
     }
+
+    const assessment = await toChatAssessment(entry.assessment);
+    const fileName = entry.type === 'video' ? entry.originalFileName : entry.assessment.originalFileName || undefined;
+    const content = formatAssessmentReply(assessment, fileName);
+
+    if (conversationId) {
+      await storage.addMessage({
+        conversationId,
+        role: 'assistant',
+        content,
+        assessmentData: assessment,
+        fileData: null
+      });
+    }
+
+    assessments.push(presentChatAssessment(assessment));
+    responses.push(content);
+  }
+
+  if (assessments.length === 0) {
+    const errorText = failures.map(failure => `${failure.originalFileName}: ${failure.error}`).join('; ') || 'No files could be analyzed';
+    if (conversationId) {
+      await storage.addMessage({
+        conversationId,
+        role: 'assistant',
+        content: `Analysis failed: ${errorText}`,
+        assessmentData: null,
+        fileData: null
+      });
+    }
+    throw new Error(errorText);
   }
-});
 
+  return {
+    success: true,
+    assessments,
+    responses,
+    failures
+  };
+}
+
+function presentRubric(rubric: GradingRubric, usernames: Map<string, string>): PresentedRubric {
+  return {
+    ...rubric,
+    definition: rubricDefinition(rubric),
+    createdByName: rubric.createdBy ? usernames.get(rubric.createdBy) ?? null : null
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Login, logout and account routes are public; everything registered after the guard needs a session
+  setupAuth(app);
+  app.use('/api', requireAuth);
+
   // Multer error handling middleware
   const handleMulterError = (error: any, req: Request, res: Response, next: NextFunction) => {
     if (error) {
@@ -73,12 +276,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: 'Maximum 10 files allowed per upload.'
         });
       }
-      if (error.message.includes('Only image files') || error.message.includes('Only video files') || error.message.includes('File type')) {
-        return res.status(400).json({ 
-          error: 'Invalid file type', 
-          message: error.message 
-        });
-      }
       return res.status(400).json({ 
         error: 'File upload error', 
         message: error.message || 'Unknown upload error'
@@ -87,501 +284,873 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // ?force=true (or a "force" form field) skips the analysis cache and always calls the model
+  const readUploadOptions = (req: Request): UploadOptions => ({
+    force: req.query.force === 'true' || req.body?.force === 'true'
+  });
+
+  // Classify the uploaded files by content; responds with 400 and returns null when none of them can be assessed
+  const classifyRequestFiles = (files: Express.Multer.File[] | undefined, res: Response): ClassifiedUpload | null => {
+    if (!files || files.length === 0) {
+      res.status(400).json({ error: 'No files uploaded' });
+      return null;
+    }
+
+    const classified = classifyUploads(files);
+    if (classified.images.length === 0 && classified.videos.length === 0) {
+      res.status(400).json({
+        error: 'Invalid file type',
+        message: classified.rejected.map(rejection => `${rejection.originalFileName}: ${rejection.reason}`).join('\n')
+      });
+      return null;
+    }
+    return classified;
+  };
+
   // Assessment routes
 
   // Upload and assess laptop images/videos
-  app.post('/api/assessments', upload.array('files', 5), handleMulterError, async (req: Request, res: Response) => {
-    try {
-      const files = req.files as Express.Multer.File[];
+  app.post('/api/assessments', upload.array('files', 5), handleMulterError, (req: Request, res: Response) => {
+    const classified = classifyRequestFiles(req.files as Express.Multer.File[], res);
+    if (!classified) return;
+
+    const options = readUploadOptions(req);
+    const job = assessmentJobs.enqueue(req.user!.id, report => processUpload(classified, req.user!, report, options));
+    res.status(202).json(presentJobLinks(job));
+  });
+
+  // Batch assessment endpoint for multiple files
+  app.post('/api/assessments/batch', upload.array('files', 10), handleMulterError, (req: Request, res: Response) => {
+    const classified = classifyRequestFiles(req.files as Express.Multer.File[], res);
+    if (!classified) return;
 
+    const options = readUploadOptions(req);
+    const job = assessmentJobs.enqueue(req.user!.id, report => processUpload(classified, req.user!, report, options));
+    res.status(202).json(presentJobLinks(job));
+  });
+
+
+  // Pre-flight quality check of photos before they are submitted for assessment
+  app.post('/api/images/quality', upload.array('files', 10), handleMulterError, async (req: Request, res: Response) => {
+    try {
+      const files = req.files as Express.Multer.File[] | undefined;
       if (!files || files.length === 0) {
         return res.status(400).json({ error: 'No files uploaded' });
       }
 
-      const results: any[] = [];
-      const imageFiles: Express.Multer.File[] = [];
-      const videoFiles: Express.Multer.File[] = [];
+      res.json({ gate: getImageQualityGate(), results: await checkImageQuality(files) });
+    } catch (error) {
+      console.error('Error checking image quality:', error);
+      res.status(500).json({ error: 'Failed to check image quality' });
+    }
+  });
 
-      for (const file of files) {
-        const isImage = file.mimetype.startsWith('image/') ||
-          (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(heic|heif)$/i));
-        const isVideo = file.mimetype.startsWith('video/') ||
-          file.mimetype === 'application/mp4' ||
-          file.mimetype === 'video/x-mp4' ||
-          (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(mp4|webm|mov|avi|mkv)$/i));
+  // Chatbot upload: assess files and post the results into the active conversation
+  app.post('/api/assess-batch', upload.array('laptop_images', 10), handleMulterError, async (req: Request, res: Response) => {
+    try {
+      const files = req.files as Express.Multer.File[];
+      const conversationId = typeof req.body.conversationId === 'string' && req.body.conversationId ? req.body.conversationId : null;
 
-        if (!isImage && !isVideo) {
-          results.push({
-            originalFileName: file.originalname,
-            success: false,
-            error: 'Invalid file type'
-          });
-          continue;
-        }
+      const classified = classifyRequestFiles(files, res);
+      if (!classified) return;
 
-        if (isImage) {
-          if (file.size < 100) {
-            results.push({
-              originalFileName: file.originalname,
-              success: false,
-              error: 'Image file appears to be corrupted or empty.'
-            });
-            continue;
-          }
+      if (conversationId && !(await storage.getConversation(conversationId))) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const options = readUploadOptions(req);
+      const job = assessmentJobs.enqueue(req.user!.id, report => processChatUpload(files, classified, conversationId, req.user!, report, options));
+      res.status(202).json(presentJobLinks(job));
+    } catch (error) {
+      console.error('Error queueing chat assessment:', error);
+      res.status(500).json({ error: 'Assessment failed', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
 
-          imageFiles.push(file);
-          continue;
+  // Get all assessments
+  app.get('/api/assessments', async (req, res) => {
+    try {
+      const assessments = await storage.getAllAssessments();
+      const usernames = await loadUsernames(assessments.map(assessment => assessment.createdBy));
+      res.json(assessments.map(assessment => presentAssessment(assessment, usernames)));
+    } catch (error) {
+      console.error('Error fetching assessments:', error);
+      res.status(500).json({ error: 'Failed to fetch assessments' });
+    }
+  });
+
+  // Search assessments with filters, sorting and cursor pagination
+  app.get('/api/assessments/search', async (req, res) => {
+    try {
+      const validationResult = assessmentSearchQuerySchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: 'Invalid search parameters',
+          details: validationResult.error.errors
+        });
+      }
+
+      const query = validationResult.data;
+      const after = query.cursor ? decodeSearchCursor(query.cursor, query.sort, query.order) : undefined;
+      if (after === null) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+
+      const { items, total } = await storage.searchAssessments({
+        grades: query.grades,
+        searchQuery: query.q || undefined,
+        startDate: query.startDate ? new Date(query.startDate) : undefined,
+        endDate: query.endDate ? endOfDateRange(query.endDate) : undefined,
+        minConfidence: query.minConfidence,
+        maxConfidence: query.maxConfidence,
+        fileType: query.fileType,
+        damageType: query.damageType,
+        createdBy: query.mine ? req.user!.id : undefined,
+        sortBy: query.sort,
+        sortDirection: query.order,
+        after,
+        // One extra row tells whether another page follows
+        limit: query.limit + 1
+      });
+
+      const pageItems = items.slice(0, query.limit);
+      const usernames = await loadUsernames(pageItems.map(item => item.createdBy));
+      const page: AssessmentSearchPage = {
+        items: pageItems.map(item => presentAssessment(item, usernames)),
+        total,
+        nextCursor: items.length > query.limit ? encodeSearchCursor(query.sort, query.order, pageItems[pageItems.length - 1]) : null
+      };
+      res.json(page);
+    } catch (error) {
+      console.error('Error searching assessments:', error);
+      res.status(500).json({ error: 'Search failed' });
+    }
+  });
+
+  // Get single assessment with its stored evidence
+  app.get('/api/assessments/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const assessment = await storage.getAssessment(id);
+
+      if (!assessment) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+
+      const media = (await storage.getAssessmentMedia(id)).map(presentMedia);
+      const imageAnalyses = (assessment.imageAnalyses as any[] | null)?.map(analysis => ({
+        ...analysis,
+        // Video frames are not stored individually, only the photos of an image batch
+        mediaUrl: assessment.fileType === 'image' ? media.find(item => item.position === analysis.imageIndex - 1)?.url : undefined
+      })) || [];
+
+      const usernames = await loadUsernames([assessment.createdBy, assessment.updatedBy]);
+      res.json({
+        ...presentAssessment(assessment, usernames),
+        updatedByName: assessment.updatedBy ? usernames.get(assessment.updatedBy) ?? null : null,
+        imageAnalyses,
+        media,
+        ...await loadAnnotatedFindings(assessment)
+      });
+    } catch (error) {
+      console.error('Error fetching assessment:', error);
+      res.status(500).json({ error: 'Failed to fetch assessment' });
+    }
+  });
+
+  // Human override of the AI result; the original grade is kept in aiGrade and every change is audited
+  app.patch('/api/assessments/:id', requireRole('supervisor', 'admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = assessmentOverrideSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid override',
+          details: validation.error.errors
+        });
+      }
+
+      const existing = await storage.getAssessment(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      if (existing.status === 'PENDING') {
+        return res.status(409).json({ error: 'Assessment is still being analyzed' });
+      }
+
+      const { reasonCode, note, ...requested } = validation.data;
+      const changes: AssessmentFieldChanges = {};
+      const updates: Partial<InsertAssessment> = {};
+      for (const field of Object.keys(requested) as (keyof typeof requested)[]) {
+        const value = requested[field];
+        if (value !== undefined && JSON.stringify(value) !== JSON.stringify(existing[field])) {
+          changes[field] = { from: existing[field], to: value };
+          Object.assign(updates, { [field]: value });
         }
+      }
 
-        // Video
-        videoFiles.push(file);
-      }
-
-      if (imageFiles.length > 0) {
-        try {
-          const base64Images = imageFiles.map(file => ({
-            base64: fileToBase64(file.buffer),
-            mimeType: file.mimetype,
-            originalFileName: file.originalname
-          }));
-
-          const aiResult = await assessLaptopDamageBatch(base64Images);
-
-          const totalSize = imageFiles.reduce((sum, file) => sum + file.size, 0);
-          const assessmentData = {
-            sku: `AUTO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            brand: null,
-            model: null,
-            grade: aiResult.grade,
-            confidence: aiResult.confidence,
-            damageDescription: aiResult.overallCondition,
-            detailedFindings: aiResult.detailedFindings,
-            damageTypes: aiResult.damageTypes,
-            imageUrl: null,
-            fileType: 'image',
-            originalFileName: imageFiles.length === 1 ? imageFiles[0].originalname : `${imageFiles.length} images`,
-            mimeType: imageFiles.length === 1 ? imageFiles[0].mimetype : 'multiple',
-            fileSize: totalSize,
-            processingTime: aiResult.processingTime,
-            videoDuration: null,
-            videoWidth: null,
-            videoHeight: null,
-            videoFps: null,
-            framesAnalyzed: null
-          };
-
-          const assessment = await storage.createAssessment(assessmentData);
-
-          const imageAnalysesWithMetadata = aiResult.imageAnalyses?.map(analysis => ({
-            ...analysis,
-            originalFileName: imageFiles[analysis.imageIndex - 1]?.originalname || analysis.originalFileName
-          })) || [];
-
-          results.push({
-            type: 'image-batch',
-            success: true,
-            files: imageFiles.map((file, index) => ({
-              imageIndex: index + 1,
-              originalFileName: file.originalname,
-              mimeType: file.mimetype,
-              fileSize: file.size
-            })),
-            assessment: {
-              ...assessment,
-              ...aiResult,
-              imageAnalyses: imageAnalysesWithMetadata
-            }
-          });
-        } catch (imageBatchError) {
-          console.error('Error processing image batch:', imageBatchError);
-          results.push({
-            type: 'image-batch',
-            success: false,
-            files: imageFiles.map((file, index) => ({
-              imageIndex: index + 1,
-              originalFileName: file.originalname,
-              mimeType: file.mimetype,
-              fileSize: file.size
-            })),
-            error: imageBatchError instanceof Error ? imageBatchError.message : 'Unknown error processing images'
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: 'No changes', message: 'The submitted values match the current assessment.' });
+      }
+
+      // Annotations point at findings by position, so they would land on the wrong findings once the list is replaced
+      if (changes.detailedFindings) {
+        const annotations = await storage.getAssessmentAnnotations(id);
+        if (annotations.length > 0) {
+          return res.status(409).json({
+            error: 'Assessment has annotations',
+            message: 'Remove the damage annotations before replacing the findings, or correct the findings with annotations instead.'
           });
         }
+        updates.findingsOverriddenAt = new Date();
       }
 
-      for (const file of videoFiles) {
-        try {
-          let aiResult;
-          try {
-            aiResult = await assessLaptopDamageFromVideo(file.buffer);
-          } catch (videoError) {
-            console.error('Video processing failed:', videoError);
-            aiResult = {
-              grade: 'C' as const,
-              confidence: 0.3,
-              overallCondition: `Video processing failed: ${videoError instanceof Error ? videoError.message : 'Unknown error'}`,
-              damageTypes: ['Video Processing Error'],
-              detailedFindings: [{
-                category: 'Overall Structure' as const,
-                severity: 'Medium' as const,
-                description: `Video assessment could not be completed automatically. Error: ${videoError instanceof Error ? videoError.message : 'Unknown error'}. Manual review required.`
-              }],
-              processingTime: 0.1
-            };
-          }
+      // Rows created before aiGrade existed only have the AI's grade in grade
+      if (changes.grade && !existing.aiGrade && existing.status === 'COMPLETED') {
+        updates.aiGrade = existing.grade;
+      }
 
-          if (!aiResult || !aiResult.grade) {
-            throw new Error('AI assessment failed to return valid results for video');
-          }
+      // A human grade completes an assessment the model could not grade
+      if (changes.grade && existing.status === 'ERROR') {
+        updates.status = 'COMPLETED';
+        changes.status = { from: existing.status, to: 'COMPLETED' };
+      }
 
-          const assessmentData = {
-            sku: `AUTO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            brand: null,
-            model: null,
-            grade: aiResult.grade,
-            confidence: aiResult.confidence,
-            damageDescription: aiResult.overallCondition,
-            detailedFindings: aiResult.detailedFindings,
-            damageTypes: aiResult.damageTypes,
-            imageUrl: null,
-            fileType: 'video',
-            originalFileName: file.originalname,
-            mimeType: file.mimetype,
-            fileSize: file.size,
-            processingTime: aiResult.processingTime,
-            videoDuration: aiResult.videoMetadata?.duration || null,
-            videoWidth: aiResult.videoMetadata?.width || null,
-            videoHeight: aiResult.videoMetadata?.height || null,
-            videoFps: aiResult.videoMetadata?.fps || null,
-            framesAnalyzed: aiResult.videoMetadata?.framesAnalyzed || null
-          };
-
-          const assessment = await storage.createAssessment(assessmentData);
-
-          results.push({
-            type: 'video',
-            originalFileName: file.originalname,
-            success: true,
-            assessment: {
-              ...assessment,
-              ...aiResult
-            }
-          });
-        } catch (videoProcessingError) {
-          console.error(`Error processing video ${file.originalname}:`, videoProcessingError);
-          results.push({
-            type: 'video',
-            originalFileName: file.originalname,
-            success: false,
-            error: videoProcessingError instanceof Error ? videoProcessingError.message : 'Unknown processing error'
-          });
-        }
+      const updated = await storage.overrideAssessment(id, { ...updates, updatedBy: req.user!.id }, {
+        assessmentId: id,
+        action: 'override',
+        reasonCode,
+        note: note || null,
+        changes,
+        userId: req.user!.id
+      });
+      if (!updated) {
+        return res.status(404).json({ error: 'Assessment not found' });
       }
 
+      const usernames = await loadUsernames([updated.createdBy, updated.updatedBy]);
       res.json({
-        success: true,
-        results: results
+        ...presentAssessment(updated, usernames),
+        updatedByName: updated.updatedBy ? usernames.get(updated.updatedBy) ?? null : null
       });
-
     } catch (error) {
-      console.error('Assessment error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        name: error instanceof Error ? error.name : 'UnknownError',
-        fullError: error
-      });
+      console.error('Error overriding assessment:', error);
+      res.status(500).json({ error: 'Failed to update assessment' });
+    }
+  });
+
+  // Retry a failed assessment from its stored media; the analysis runs as a background job
+  app.post('/api/assessments/:id/rerun', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getAssessment(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      if (existing.status !== 'ERROR') {
+        return res.status(409).json({
+          error: 'Assessment has not failed',
+          message: 'Only assessments whose analysis failed can be re-run.'
+        });
+      }
 
-      // Provide more specific error messages based on error type
-      let userMessage = 'Unknown error';
-      if (error instanceof Error) {
-        userMessage = error.message;
-
-        // Additional context for common error types
-        if (error.message.includes('OPENAI_API_KEY')) {
-          userMessage = 'AI service configuration error. Please contact support.';
-        } else if (error.message.includes('database') || error.message.includes('storage')) {
-          userMessage = 'Database error occurred while saving assessment. Please try again.';
-        } else if (error.message.includes('network') || error.message.includes('fetch')) {
-          userMessage = 'Network error occurred. Please check your connection and try again.';
-        } else if (error.message.includes('AI assessment failed to return valid results')) {
-          userMessage = 'AI assessment failed. Please ensure the uploaded file is valid or try again.';
+      const files = await loadStoredUploads(existing);
+      if (files.length === 0) {
+        return res.status(409).json({
+          error: 'No stored media',
+          message: 'The original upload for this assessment was not kept, so it cannot be re-run.'
+        });
+      }
+
+      // Only flips ERROR to PENDING, so when two re-runs race only one of them starts a job
+      const pending = await storage.overrideAssessment(id, {
+        status: 'PENDING',
+        grade: 'PENDING',
+        failureReason: null,
+        failureStage: null,
+        updatedBy: req.user!.id
+      }, {
+        assessmentId: id,
+        action: 'rerun',
+        changes: { status: { from: 'ERROR', to: 'PENDING' } },
+        userId: req.user!.id
+      }, 'ERROR');
+      if (!pending) {
+        if (!(await storage.getAssessment(id))) {
+          return res.status(404).json({ error: 'Assessment not found' });
         }
+        return res.status(409).json({
+          error: 'Assessment has not failed',
+          message: 'This assessment is already being re-run or is no longer failed.'
+        });
       }
 
-      res.status(500).json({ 
-        error: 'Assessment failed', 
-        message: userMessage
-      });
+      const job = assessmentJobs.enqueue(req.user!.id, report => rerunAssessment(pending, files, report));
+      res.status(202).json(presentJobLinks(job));
+    } catch (error) {
+      console.error('Error re-running assessment:', error);
+      res.status(500).json({ error: 'Failed to re-run assessment' });
     }
   });
 
-  // Batch assessment endpoint for multiple files
-  app.post('/api/assessments/batch', uploadMultiple.array('files', 10), handleMulterError, async (req: Request, res: Response) => {
+  // Change history of an assessment, oldest first
+  app.get('/api/assessments/:id/audit', async (req, res) => {
     try {
-      const files = req.files as Express.Multer.File[];
+      const entries = await storage.getAssessmentAuditLog(req.params.id);
+      const usernames = await loadUsernames(entries.map(entry => entry.userId));
+      res.json(entries.map(entry => ({
+        ...entry,
+        userName: entry.userId ? usernames.get(entry.userId) ?? null : null
+      })));
+    } catch (error) {
+      console.error('Error fetching assessment history:', error);
+      res.status(500).json({ error: 'Failed to fetch assessment history' });
+    }
+  });
 
-      if (!files || files.length === 0) {
-        return res.status(400).json({ error: 'No files uploaded' });
+  // Model, prompt and rubric versions, token usage and raw output behind the latest analysis, for debugging prompt changes
+  app.get('/api/assessments/:id/model-run', requireRole('admin'), async (req, res) => {
+    try {
+      const assessment = await storage.getAssessment(req.params.id);
+      if (!assessment) {
+        return res.status(404).json({ error: 'Assessment not found' });
       }
 
-      const results: any[] = [];
-      const imageFiles: Express.Multer.File[] = [];
-      const videoFiles: Express.Multer.File[] = [];
+      const { modelName, analysisCache, promptVersion, rubricVersion, promptTokens, completionTokens, totalTokens, rawModelResponse } = assessment;
+      const run: AssessmentModelRun = { modelName, analysisCache, promptVersion, rubricVersion, promptTokens, completionTokens, totalTokens, rawModelResponse };
+      res.json(run);
+    } catch (error) {
+      console.error('Error fetching model run:', error);
+      res.status(500).json({ error: 'Failed to fetch model run' });
+    }
+  });
 
-      for (const file of files) {
-        const isImage = file.mimetype.startsWith('image/') ||
-          (file.mimetype === 'application/octet-stream' && file.originalname.match(/\.(heic|heif)$/i));
-        const isVideo = file.mimetype.startsWith('video/');
+  // Human damage annotations: draw a region the model missed, or correct or remove one of its findings.
+  // The model's findings are never rewritten; the detail response applies the annotations on top of them
+  app.post('/api/assessments/:id/annotations', async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = createAnnotationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid annotation',
+          details: validation.error.errors
+        });
+      }
 
-        console.log(`Processing file: ${file.originalname}, MIME: ${file.mimetype}, isImage: ${isImage}, isVideo: ${isVideo}`);
+      const assessment = await storage.getAssessment(id);
+      if (!assessment) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      if (assessment.status !== 'COMPLETED') {
+        return res.status(409).json({ error: 'Only completed assessments can be annotated' });
+      }
 
-        if (!isImage && !isVideo) {
-          results.push({
-            originalFileName: file.originalname,
-            success: false,
-            error: 'Invalid file type'
-          });
-          continue;
+      const { kind, aiFindingKey, imageIndex, region, ...fields } = validation.data;
+
+      if (kind === 'added') {
+        const imageCount = Math.max((assessment.imageAnalyses as unknown[] | null)?.length ?? 0, 1);
+        if (imageIndex! > imageCount) {
+          return res.status(400).json({ error: 'Invalid annotation', message: `The assessment has ${imageCount} image(s).` });
         }
+        const annotation = await storage.createAnnotation({
+          assessmentId: id,
+          kind,
+          imageIndex: imageIndex!,
+          category: fields.category!,
+          severity: fields.severity!,
+          description: fields.description!,
+          ...regionColumns(region!),
+          createdBy: req.user!.id,
+          updatedBy: req.user!.id
+        });
+        await storage.addAuditEntry({
+          assessmentId: id,
+          action: 'annotate',
+          changes: { region: { from: null, to: auditRegion({ ...annotation, region: annotationRegion(annotation) }) } },
+          userId: req.user!.id
+        });
+        return res.status(201).json(annotation);
+      }
+
+      const finding = aiFindings(assessment).find(candidate => candidate.key === aiFindingKey);
+      if (!finding) {
+        return res.status(400).json({ error: 'Invalid annotation', message: `No AI finding ${aiFindingKey} on this assessment.` });
+      }
 
-        if (isImage) {
-          if (file.size < 100) {
-            results.push({
-              originalFileName: file.originalname,
-              success: false,
-              error: 'Image file appears to be corrupted or empty.'
-            });
-            continue;
+      const annotations = await storage.getAssessmentAnnotations(id);
+      const previous = annotations.find(annotation => annotation.aiFindingKey === finding.key);
+
+      // A correction builds on an earlier one; a removal keeps the AI finding's values so the history shows what was rejected
+      const current = previous?.kind === 'corrected'
+        ? { ...previous, region: annotationRegion(previous) }
+        : { ...finding, region: findingRegion(finding) };
+      const corrected = {
+        category: kind === 'corrected' ? fields.category ?? current.category : finding.category,
+        severity: kind === 'corrected' ? fields.severity ?? current.severity : finding.severity,
+        description: kind === 'corrected' ? fields.description ?? current.description : finding.description,
+        region: kind === 'corrected' && region !== undefined ? region : kind === 'corrected' ? current.region : findingRegion(finding)
+      };
+
+      const { region: correctedRegion, ...correctedFields } = corrected;
+      const values = {
+        kind,
+        aiFindingKey: finding.key,
+        imageIndex: finding.imageIndex,
+        ...correctedFields,
+        ...regionColumns(correctedRegion),
+        updatedBy: req.user!.id
+      };
+      const annotation = previous
+        ? await storage.updateAnnotation(previous.id, values)
+        : await storage.createAnnotation({ ...values, assessmentId: id, createdBy: req.user!.id });
+
+      await storage.addAuditEntry({
+        assessmentId: id,
+        action: 'annotate',
+        changes: {
+          region: {
+            from: auditRegion(previous?.kind === 'removed' ? undefined : { ...current, imageIndex: finding.imageIndex }),
+            to: auditRegion(kind === 'removed' ? undefined : { ...corrected, imageIndex: finding.imageIndex })
           }
+        },
+        userId: req.user!.id
+      });
+      res.status(previous ? 200 : 201).json(annotation);
+    } catch (error) {
+      console.error('Error saving annotation:', error);
+      res.status(500).json({ error: 'Failed to save annotation' });
+    }
+  });
 
-          imageFiles.push(file);
-          continue;
-        }
+  // Move or relabel a region a grader added or corrected
+  app.patch('/api/assessments/:id/annotations/:annotationId', async (req, res) => {
+    try {
+      const { id, annotationId } = req.params;
+      const validation = updateAnnotationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid annotation',
+          details: validation.error.errors
+        });
+      }
 
-        videoFiles.push(file);
-      }
-
-      if (imageFiles.length > 0) {
-        try {
-          const base64Images = imageFiles.map(file => ({
-            base64: fileToBase64(file.buffer),
-            mimeType: file.mimetype,
-            originalFileName: file.originalname
-          }));
-
-          const aiResult = await assessLaptopDamageBatch(base64Images);
-
-          const totalSize = imageFiles.reduce((sum, file) => sum + file.size, 0);
-          const assessmentData = {
-            sku: `AUTO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            brand: null,
-            model: null,
-            grade: aiResult.grade,
-            confidence: aiResult.confidence,
-            damageDescription: aiResult.overallCondition,
-            detailedFindings: aiResult.detailedFindings,
-            damageTypes: aiResult.damageTypes,
-            imageUrl: null,
-            fileType: 'image',
-            originalFileName: imageFiles.length === 1 ? imageFiles[0].originalname : `${imageFiles.length} images`,
-            mimeType: imageFiles.length === 1 ? imageFiles[0].mimetype : 'multiple',
-            fileSize: totalSize,
-            processingTime: aiResult.processingTime,
-            videoDuration: null,
-            videoWidth: null,
-            videoHeight: null,
-            videoFps: null,
-            framesAnalyzed: null
-          };
-
-          const assessment = await storage.createAssessment(assessmentData);
-
-          const imageAnalysesWithMetadata = aiResult.imageAnalyses?.map(analysis => ({
-            ...analysis,
-            originalFileName: imageFiles[analysis.imageIndex - 1]?.originalname || analysis.originalFileName
-          })) || [];
-
-          results.push({
-            type: 'image-batch',
-            success: true,
-            files: imageFiles.map((file, index) => ({
-              imageIndex: index + 1,
-              originalFileName: file.originalname,
-              mimeType: file.mimetype,
-              fileSize: file.size
-            })),
-            assessment: {
-              ...assessment,
-              ...aiResult,
-              imageAnalyses: imageAnalysesWithMetadata
-            }
-          });
-        } catch (imageBatchError) {
-          console.error('Error processing image batch:', imageBatchError);
-          results.push({
-            type: 'image-batch',
-            success: false,
-            files: imageFiles.map((file, index) => ({
-              imageIndex: index + 1,
-              originalFileName: file.originalname,
-              mimeType: file.mimetype,
-              fileSize: file.size
-            })),
-            error: imageBatchError instanceof Error ? imageBatchError.message : 'Unknown error processing images'
-          });
-        }
+      const existing = await storage.getAnnotation(annotationId);
+      if (!existing || existing.assessmentId !== id) {
+        return res.status(404).json({ error: 'Annotation not found' });
+      }
+      if (existing.kind === 'removed') {
+        return res.status(409).json({ error: 'Removed findings cannot be edited', message: 'Restore the finding first.' });
+      }
+
+      const { region, ...fields } = validation.data;
+      const updated = await storage.updateAnnotation(annotationId, {
+        ...fields,
+        ...(region !== undefined ? regionColumns(region) : {}),
+        updatedBy: req.user!.id
+      });
+      if (!updated) {
+        return res.status(404).json({ error: 'Annotation not found' });
       }
 
-      for (const file of videoFiles) {
-        try {
-          let aiResult;
-          try {
-            aiResult = await assessLaptopDamageFromVideo(file.buffer);
-          } catch (videoError) {
-            console.error('Video processing failed:', videoError);
-            aiResult = {
-              grade: 'C' as const,
-              confidence: 0.3,
-              overallCondition: `Video processing failed: ${videoError instanceof Error ? videoError.message : 'Unknown error'}`,
-              damageTypes: ['Video Processing Error'],
-              detailedFindings: [{
-                category: 'Overall Structure' as const,
-                severity: 'Medium' as const,
-                description: `Video assessment could not be completed automatically. Error: ${videoError instanceof Error ? videoError.message : 'Unknown error'}. Manual review required.`
-              }],
-              processingTime: 0.1
-            };
+      await storage.addAuditEntry({
+        assessmentId: id,
+        action: 'annotate',
+        changes: {
+          region: {
+            from: auditRegion({ ...existing, region: annotationRegion(existing) }),
+            to: auditRegion({ ...updated, region: annotationRegion(updated) })
           }
+        },
+        userId: req.user!.id
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating annotation:', error);
+      res.status(500).json({ error: 'Failed to update annotation' });
+    }
+  });
 
-          if (!aiResult || !aiResult.grade) {
-            throw new Error('AI assessment failed to return valid results for video');
+  // Delete a region a grader added, or undo a correction or removal so the AI finding shows again
+  app.delete('/api/assessments/:id/annotations/:annotationId', async (req, res) => {
+    try {
+      const { id, annotationId } = req.params;
+      const existing = await storage.getAnnotation(annotationId);
+      if (!existing || existing.assessmentId !== id) {
+        return res.status(404).json({ error: 'Annotation not found' });
+      }
+
+      const assessment = await storage.getAssessment(id);
+      const restored = existing.aiFindingKey && assessment
+        ? aiFindings(assessment).find(finding => finding.key === existing.aiFindingKey)
+        : undefined;
+
+      await storage.deleteAnnotation(annotationId);
+      await storage.addAuditEntry({
+        assessmentId: id,
+        action: 'annotate',
+        changes: {
+          region: {
+            from: auditRegion(existing.kind === 'removed' ? undefined : { ...existing, region: annotationRegion(existing) }),
+            to: auditRegion(restored && { ...restored, region: findingRegion(restored) })
           }
+        },
+        userId: req.user!.id
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      res.status(500).json({ error: 'Failed to delete annotation' });
+    }
+  });
 
-          const assessmentData = {
-            sku: `AUTO-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            brand: null,
-            model: null,
-            grade: aiResult.grade,
-            confidence: aiResult.confidence,
-            damageDescription: aiResult.overallCondition,
-            detailedFindings: aiResult.detailedFindings,
-            damageTypes: aiResult.damageTypes,
-            imageUrl: null,
-            fileType: 'video',
-            originalFileName: file.originalname,
-            mimeType: file.mimetype,
-            fileSize: file.size,
-            processingTime: aiResult.processingTime,
-            videoDuration: aiResult.videoMetadata?.duration || null,
-            videoWidth: aiResult.videoMetadata?.width || null,
-            videoHeight: aiResult.videoMetadata?.height || null,
-            videoFps: aiResult.videoMetadata?.fps || null,
-            framesAnalyzed: aiResult.videoMetadata?.framesAnalyzed || null
-          };
-
-          const assessment = await storage.createAssessment(assessmentData);
-          results.push({
-            type: 'video',
-            originalFileName: file.originalname,
-            success: true,
-            assessment: {
-              ...assessment,
-              ...aiResult
-            }
-          });
-        } catch (videoProcessingError) {
-          console.error(`Error processing video ${file.originalname}:`, videoProcessingError);
-          results.push({
-            type: 'video',
-            originalFileName: file.originalname,
-            success: false,
-            error: videoProcessingError instanceof Error ? videoProcessingError.message : 'Unknown processing error'
-          });
-        }
+  // Delete an assessment together with its stored evidence
+  app.delete('/api/assessments/:id', requireRole('supervisor', 'admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const mediaRecords = await storage.getAssessmentMedia(id);
+      const success = await storage.deleteAssessment(id);
+      if (!success) {
+        return res.status(404).json({ error: 'Assessment not found' });
       }
 
+      await storage.addAuditEntry({ assessmentId: id, action: 'delete', userId: req.user!.id });
+      await deleteMediaFiles(mediaRecords);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting assessment:', error);
+      res.status(500).json({ error: 'Failed to delete assessment' });
+    }
+  });
+
+  // Review routes (supervisors and admins)
+
+  const requireReviewer = requireRole('supervisor', 'admin');
+
+  // Queue sizes for the navigation bar
+  app.get('/api/review/counts', requireReviewer, async (req, res) => {
+    try {
+      const [pending, inReview, claimedByMe] = await Promise.all([
+        storage.searchAssessments({ reviewStatuses: ['PENDING_REVIEW'], limit: 1 }),
+        storage.searchAssessments({ reviewStatuses: ['IN_REVIEW'], limit: 1 }),
+        storage.searchAssessments({ reviewStatuses: ['IN_REVIEW'], reviewClaimedBy: req.user!.id, limit: 1 })
+      ]);
+
+      const counts: ReviewCounts = {
+        pending: pending.total,
+        inReview: inReview.total,
+        claimedByMe: claimedByMe.total
+      };
+      res.json(counts);
+    } catch (error) {
+      console.error('Error counting review queue:', error);
+      res.status(500).json({ error: 'Failed to count review queue' });
+    }
+  });
+
+  // Open reviews, oldest first
+  app.get('/api/review/queue', requireReviewer, async (req, res) => {
+    try {
+      const { items, total } = await storage.searchAssessments({
+        reviewStatuses: ['PENDING_REVIEW', 'IN_REVIEW'],
+        sortBy: 'assessmentDate',
+        sortDirection: 'asc',
+        limit: 100
+      });
+
+      const usernames = await loadUsernames(items.flatMap(item => [item.createdBy, item.reviewClaimedBy]));
       res.json({
-        success: true,
-        results
+        items: items.map(item => ({
+          ...presentAssessment(item, usernames),
+          reviewClaimedByName: item.reviewClaimedBy ? usernames.get(item.reviewClaimedBy) ?? null : null
+        })),
+        total
       });
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      res.status(500).json({ error: 'Failed to fetch review queue' });
+    }
+  });
+
+  app.post('/api/review/:id/claim', requireReviewer, async (req, res) => {
+    try {
+      const claimed = await storage.claimReview(req.params.id, req.user!.id);
+      if (claimed) {
+        return res.json({ success: true, reviewStatus: claimed.reviewStatus });
+      }
 
+      const existing = await storage.getAssessment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      const usernames = await loadUsernames([existing.reviewClaimedBy]);
+      res.status(409).json({ error: reviewConflict(existing, req.user!.id, usernames) || 'Could not claim review' });
     } catch (error) {
-      console.error('Batch assessment error details:', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-        name: error instanceof Error ? error.name : 'UnknownError',
-        fullError: error
+      console.error('Error claiming review:', error);
+      res.status(500).json({ error: 'Failed to claim review' });
+    }
+  });
+
+  // Put a claimed review back into the queue
+  app.post('/api/review/:id/release', requireReviewer, async (req, res) => {
+    try {
+      const released = await storage.releaseReview(req.params.id, req.user!.id);
+      if (!released) {
+        return res.status(409).json({ error: 'You have not claimed this review' });
+      }
+      res.json({ success: true, reviewStatus: released.reviewStatus });
+    } catch (error) {
+      console.error('Error releasing review:', error);
+      res.status(500).json({ error: 'Failed to release review' });
+    }
+  });
+
+  // Accept the AI result as is
+  app.post('/api/review/:id/approve', requireReviewer, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim().slice(0, 1000) : null;
+
+      const existing = await storage.getAssessment(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      const conflict = reviewConflict(existing, req.user!.id, await loadUsernames([existing.reviewClaimedBy]));
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+      if (existing.status === 'ERROR') {
+        return res.status(409).json({
+          error: 'Assessment has no grade to approve',
+          message: 'The analysis failed. Re-run the assessment or regrade it.'
+        });
+      }
+
+      const updated = await storage.overrideAssessment(id, {
+        reviewStatus: 'APPROVED',
+        reviewClaimedBy: null,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+        updatedBy: req.user!.id
+      }, {
+        assessmentId: id,
+        action: 'review-approve',
+        note,
+        changes: { reviewStatus: { from: existing.reviewStatus, to: 'APPROVED' } },
+        userId: req.user!.id
       });
 
-      let userMessage = 'Unknown error';
-      if (error instanceof Error) {
-        userMessage = error.message;
-        if (error.message.includes('OPENAI_API_KEY')) {
-          userMessage = 'AI service configuration error. Please contact support.';
-        } else if (error.message.includes('database') || error.message.includes('storage')) {
-          userMessage = 'Database error occurred while saving assessment. Please try again.';
-        } else if (error.message.includes('network') || error.message.includes('fetch')) {
-          userMessage = 'Network error occurred. Please check your connection and try again.';
-        } else if (error.message.includes('AI assessment failed to return valid results')) {
-          userMessage = 'AI assessment failed. Please ensure the uploaded file is valid or try again.';
-        }
+      res.json({ success: true, reviewStatus: updated?.reviewStatus });
+    } catch (error) {
+      console.error('Error approving review:', error);
+      res.status(500).json({ error: 'Failed to approve review' });
+    }
+  });
+
+  // Replace the AI grade; the original stays in aiGrade
+  app.post('/api/review/:id/regrade', requireReviewer, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = reviewRegradeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid regrade', details: validation.error.errors });
       }
+      const { grade, reasonCode, note } = validation.data;
 
-      res.status(500).json({ 
-        error: 'Batch assessment failed', 
-        message: userMessage
+      const existing = await storage.getAssessment(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Assessment not found' });
+      }
+      const conflict = reviewConflict(existing, req.user!.id, await loadUsernames([existing.reviewClaimedBy]));
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+      if (grade === existing.grade) {
+        return res.status(400).json({ error: 'Grade unchanged', message: 'Approve the assessment to keep its current grade.' });
+      }
+
+      const failed = existing.status === 'ERROR';
+      const updated = await storage.overrideAssessment(id, {
+        grade,
+        aiGrade: failed ? existing.aiGrade : existing.aiGrade || existing.grade,
+        ...(failed ? { status: 'COMPLETED' } : {}),
+        reviewStatus: 'REGRADED',
+        reviewClaimedBy: null,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+        updatedBy: req.user!.id
+      }, {
+        assessmentId: id,
+        action: 'review-regrade',
+        reasonCode,
+        note: note || null,
+        changes: {
+          grade: { from: existing.grade, to: grade },
+          ...(failed ? { status: { from: existing.status, to: 'COMPLETED' } } : {}),
+          reviewStatus: { from: existing.reviewStatus, to: 'REGRADED' }
+        },
+        userId: req.user!.id
       });
+
+      res.json({ success: true, reviewStatus: updated?.reviewStatus, grade: updated?.grade });
+    } catch (error) {
+      console.error('Error regrading review:', error);
+      res.status(500).json({ error: 'Failed to regrade assessment' });
     }
   });
 
+  // Grading rubric routes: everyone can read the rubric their assessments were graded against, only admins change it
 
-  // Get all assessments
-  app.get('/api/assessments', async (req, res) => {
+  app.get('/api/rubric', async (req, res) => {
     try {
-      const assessments = await storage.getAllAssessments();
-      res.json(assessments);
+      const rubric = await getActiveRubric();
+      res.json(presentRubric(rubric, await loadUsernames([rubric.createdBy])));
     } catch (error) {
-      console.error('Error fetching assessments:', error);
-      res.status(500).json({ error: 'Failed to fetch assessments' });
+      console.error('Error fetching grading rubric:', error);
+      res.status(500).json({ error: 'Failed to fetch grading rubric' });
     }
   });
 
-  // Search assessments
-  app.get('/api/assessments/search', async (req, res) => {
+  app.get('/api/rubric/versions', async (req, res) => {
     try {
-      const { grades, q: searchQuery } = req.query;
+      await getActiveRubric(); // Seeds version 1 on a fresh install
+      const rubrics = await storage.getRubrics();
+      const usernames = await loadUsernames(rubrics.map(rubric => rubric.createdBy));
+      res.json(rubrics.map(rubric => presentRubric(rubric, usernames)));
+    } catch (error) {
+      console.error('Error fetching grading rubric versions:', error);
+      res.status(500).json({ error: 'Failed to fetch grading rubric versions' });
+    }
+  });
 
-      const filters: any = {};
+  app.get('/api/rubric/versions/:version', async (req, res) => {
+    try {
+      const version = parseInt(req.params.version, 10);
+      const rubric = Number.isInteger(version) ? await storage.getRubric(version) : undefined;
+      if (!rubric) {
+        return res.status(404).json({ error: 'Rubric version not found' });
+      }
+      res.json(presentRubric(rubric, await loadUsernames([rubric.createdBy])));
+    } catch (error) {
+      console.error('Error fetching grading rubric version:', error);
+      res.status(500).json({ error: 'Failed to fetch grading rubric version' });
+    }
+  });
 
-      if (grades) {
-        filters.grades = Array.isArray(grades) ? grades : [grades];
+  // Save an edited rubric as the next version; assessments keep the version they were graded against
+  app.post('/api/rubric', requireRole('admin'), async (req, res) => {
+    try {
+      const validation = createRubricSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: 'Invalid rubric', details: validation.error.errors });
       }
+      const { baseVersion, definition, note } = validation.data;
 
-      if (searchQuery) {
-        filters.searchQuery = searchQuery as string;
+      const current = await getActiveRubric();
+      if (current.version !== baseVersion) {
+        return res.status(409).json({
+          error: 'Rubric changed',
+          message: `Version ${current.version} was saved after you started editing version ${baseVersion}. Reload and apply your changes again.`
+        });
       }
 
-      const results = await storage.searchAssessments(filters);
-      res.json(results);
+      const created = await storage.createRubric({
+        version: current.version + 1,
+        definition,
+        note: note || null,
+        createdBy: req.user!.id
+      });
+      res.status(201).json(presentRubric(created, new Map([[req.user!.id, req.user!.username]])));
     } catch (error) {
-      console.error('Error searching assessments:', error);
-      res.status(500).json({ error: 'Search failed' });
+      console.error('Error saving grading rubric:', error);
+      res.status(500).json({ error: 'Failed to save grading rubric' });
     }
   });
 
-  // Get single assessment
-  app.get('/api/assessments/:id', async (req, res) => {
+  // Job routes
+
+  // Current state of an assessment job; includes the upload results once completed
+  app.get('/api/jobs/:id', (req, res) => {
+    const job = findVisibleJob(req, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const { events, ...state } = job;
+    res.json(state);
+  });
+
+  // Stream job progress as Server-Sent Events; earlier events are replayed on connect
+  app.get('/api/jobs/:id/events', (req, res) => {
+    const job = findVisibleJob(req, req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable nginx response buffering
+    });
+
+    // Comment lines keep idle proxies from dropping the connection while the model runs
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    let unsubscribe = () => {};
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    const send = (event: JobEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      if (event.status === 'completed' || event.status === 'failed') {
+        close();
+        res.end();
+      }
+    };
+
+    unsubscribe = assessmentJobs.subscribe(job.id, send);
+    req.on('close', close);
+
+    for (const event of job.events.slice()) {
+      send(event);
+    }
+  });
+
+  // Media routes
+
+  // Serve a stored original file or its thumbnail (URLs are signed by the API responses)
+  app.get('/api/media/:id', async (req, res) => {
     try {
       const { id } = req.params;
-      const assessment = await storage.getAssessment(id);
+      const variant = req.query.variant === 'thumbnail' ? 'thumbnail' : 'original';
 
-      if (!assessment) {
-        return res.status(404).json({ error: 'Assessment not found' });
+      if (!verifyMediaSignature(id, variant, req.query.expires, req.query.signature)) {
+        return res.status(403).json({ error: 'Invalid or expired media link' });
+      }
+
+      const record = await storage.getMedia(id);
+      if (!record) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      const file = await readMedia(record, variant);
+      if (!file) {
+        return res.status(404).json({ error: 'Media variant not available' });
       }
 
-      res.json(assessment);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      if (variant === 'original' && record.originalFileName) {
+        res.setHeader('Content-Disposition', `inline; filename="${record.originalFileName.replace(/"/g, '')}"`);
+      }
+      res.send(file.data);
     } catch (error) {
-      console.error('Error fetching assessment:', error);
-      res.status(500).json({ error: 'Failed to fetch assessment' });
+      console.error('Error serving media:', error);
+      res.status(500).json({ error: 'Failed to load media' });
     }
   });
 
@@ -659,7 +1228,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Valid title is required' });
       }
 
-      const conversation = await storage.createConversation({ title: title.trim() });
+      const conversation = await storage.createConversation({
+        title: title.trim(),
+        createdBy: req.user!.id,
+        updatedBy: req.user!.id
+      });
       res.json(conversation);
     } catch (error) {
       console.error('Error creating conversation:', error);
@@ -681,7 +1254,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         ...conversation,
-        messages
+        messages: messages.map(presentConversationMessage)
       });
     } catch (error) {
       console.error('Error fetching conversation:', error);
@@ -733,7 +1306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Valid title is required' });
       }
 
-      const conversation = await storage.updateConversation(id, { title: title.trim() });
+      const conversation = await storage.updateConversation(id, { title: title.trim(), updatedBy: req.user!.id });
       if (!conversation) {
         return res.status(404).json({ error: 'Conversation not found' });
       }
@@ -0,0 +1,114 @@
+import type { InsertAssessment } from "@shared/schema";
+import { storage } from "./storage";
+import { getPool, isDatabaseConfigured } from "./db";
+
+// Demo records for development databases; SKUs are prefixed so they can't be mistaken for real inventory
+const DEMO_SKU_PREFIX = "DEMO-";
+
+const demoAssessments: InsertAssessment[] = [
+  {
+    sku: `${DEMO_SKU_PREFIX}LT001`,
+    brand: "Dell",
+    model: "Latitude 5520",
+    grade: "A",
+    confidence: 0.95,
+    damageDescription: "Excellent condition with minimal wear on keyboard area",
+    damageTypes: [],
+    detailedFindings: [
+      { category: "Base/Keyboard Area", severity: "Low", description: "Very light shine on the most used keys." }
+    ],
+    fileType: "image",
+    processingTime: 4.2,
+  },
+  {
+    sku: `${DEMO_SKU_PREFIX}LT002`,
+    brand: "HP",
+    model: "EliteBook 840",
+    grade: "C",
+    confidence: 0.87,
+    damageDescription: "Moderate scratches on lid, dent on corner, screen in good condition",
+    damageTypes: ["Scratches", "Dent"],
+    detailedFindings: [
+      { category: "Display Lid", severity: "Medium", description: "Several deep scratches across the lid." },
+      { category: "Corners/Edges", severity: "Medium", description: "Dent on the front left corner." }
+    ],
+    fileType: "image",
+    processingTime: 5.1,
+  },
+  {
+    sku: `${DEMO_SKU_PREFIX}LT003`,
+    brand: "Lenovo",
+    model: "ThinkPad X1",
+    grade: "B",
+    confidence: 0.92,
+    damageDescription: "Good condition with light usage wear, minimal scratches",
+    damageTypes: ["Scratches"],
+    detailedFindings: [
+      { category: "Display Lid", severity: "Low", description: "Fine surface scratches visible at an angle." }
+    ],
+    fileType: "image",
+    processingTime: 3.8,
+  },
+  {
+    sku: `${DEMO_SKU_PREFIX}LT004`,
+    brand: "Apple",
+    model: "MacBook Pro",
+    grade: "A",
+    confidence: 0.98,
+    damageDescription: "Near perfect condition, very minor wear on corners",
+    damageTypes: [],
+    detailedFindings: [
+      { category: "Corners/Edges", severity: "Low", description: "Barely visible wear on the rear corners." }
+    ],
+    fileType: "video",
+    processingTime: 9.6,
+    videoDuration: 12.4,
+    videoWidth: 1920,
+    videoHeight: 1080,
+    videoFps: 30,
+    framesAnalyzed: 5,
+  },
+  {
+    sku: `${DEMO_SKU_PREFIX}LT005`,
+    brand: "ASUS",
+    model: "ZenBook",
+    grade: "D",
+    confidence: 0.89,
+    damageDescription: "Heavy damage: cracked screen bezel, multiple dents, worn keyboard",
+    damageTypes: ["Crack", "Dent", "Missing Keys"],
+    detailedFindings: [
+      { category: "Screen", severity: "High", description: "Cracked bezel along the bottom edge." },
+      { category: "Base/Keyboard Area", severity: "High", description: "Two keys missing and heavy wear on the palm rest." },
+      { category: "Corners/Edges", severity: "Medium", description: "Multiple dents along the sides." }
+    ],
+    fileType: "image",
+    processingTime: 6.3,
+  },
+];
+
+async function seed() {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Refusing to seed demo data with NODE_ENV=production");
+  }
+  if (!isDatabaseConfigured()) {
+    throw new Error("DATABASE_URL must be set to seed a development database");
+  }
+
+  const existing = await storage.searchAssessments({ searchQuery: DEMO_SKU_PREFIX, limit: 1 });
+  if (existing.total > 0) {
+    console.log(`Demo data already present (${existing.total} ${DEMO_SKU_PREFIX}* assessments); nothing to do`);
+    return;
+  }
+
+  for (const assessment of demoAssessments) {
+    await storage.createAssessment(assessment);
+  }
+  console.log(`Seeded ${demoAssessments.length} demo assessments`);
+}
+
+seed()
+  .then(() => getPool().end())
+  .catch((error) => {
+    console.error("Seeding failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
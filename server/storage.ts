@@ -1,32 +1,108 @@
 import { 
   type User, type InsertUser, 
   type Assessment, type InsertAssessment,
+  type Media, type InsertMedia,
+  type AssessmentAnnotation, type InsertAssessmentAnnotation,
   type Conversation, type InsertConversation,
   type ConversationMessage, type InsertConversationMessage,
-  users, assessments, conversations, conversationMessages 
+  type AssessmentAuditEntry, type InsertAssessmentAuditEntry,
+  type AnalysisCacheEntry, type InsertAnalysisCacheEntry,
+  type GradingRubric, type InsertGradingRubric,
+  type AssessmentSortField,
+  users, assessments, media, assessmentAnnotations, assessmentAuditLog, analysisCache, gradingRubrics, conversations, conversationMessages 
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, like, or, and } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { getDb, getPool, isDatabaseConfigured } from "./db";
+import { eq, desc, asc, like, or, and, gte, lt, lte, inArray, isNull, sql, type SQL } from "drizzle-orm";
 
 // Assessment-related interfaces for storage
 export interface AssessmentSearchFilters {
   grades?: string[];
   searchQuery?: string;
-  startDate?: string;
-  endDate?: string;
+  startDate?: Date; // Inclusive
+  endDate?: Date; // Exclusive
+  minConfidence?: number;
+  maxConfidence?: number;
+  fileType?: string;
+  damageType?: string; // Case-insensitive match against one of the damageTypes entries
+  createdBy?: string; // User id of the creator
+  reviewStatuses?: string[];
+  reviewClaimedBy?: string;
+  sortBy?: AssessmentSortField;
+  sortDirection?: 'asc' | 'desc';
+  after?: AssessmentSearchKey; // Only rows that sort after this one
+  limit?: number;
+}
+
+// Position of a row in a search ordering (keyset pagination): its value in the sort column and its id, which breaks ties
+export interface AssessmentSearchKey {
+  value: string | number | Date | null;
+  id: string;
+}
+
+export interface AssessmentSearchResult {
+  items: Assessment[];
+  total: number;
 }
 
 export interface IStorage {
+  // Backs express-session (see server/auth.ts)
+  sessionStore: session.Store;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(ids: string[]): Promise<User[]>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
   createUser(user: InsertUser): Promise<User>;
+  // Creates the user only if no account exists yet, checked and inserted atomically; undefined if one already does
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
   
   // Assessment methods
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
   getAssessment(id: string): Promise<Assessment | undefined>;
   getAllAssessments(): Promise<Assessment[]>;
-  searchAssessments(filters: AssessmentSearchFilters): Promise<Assessment[]>;
+  searchAssessments(filters: AssessmentSearchFilters): Promise<AssessmentSearchResult>;
   updateAssessment(id: string, updates: Partial<InsertAssessment>): Promise<Assessment | undefined>;
+  deleteAssessment(id: string): Promise<boolean>; // Also removes the linked media records
+  // Apply a human change and record it in the audit log atomically. With expectedStatus the change only applies while the
+  // assessment still has that status, so of two concurrent requests only one wins; undefined when nothing was changed
+  overrideAssessment(id: string, updates: Partial<InsertAssessment>, entry: InsertAssessmentAuditEntry, expectedStatus?: string): Promise<Assessment | undefined>;
+
+  // Review queue: claim succeeds only while the assessment is unclaimed or already claimed by the same user
+  claimReview(id: string, userId: string): Promise<Assessment | undefined>;
+  releaseReview(id: string, userId: string): Promise<Assessment | undefined>;
+
+  // Audit log methods (append-only)
+  addAuditEntry(entry: InsertAssessmentAuditEntry): Promise<AssessmentAuditEntry>;
+  getAssessmentAuditLog(assessmentId: string): Promise<AssessmentAuditEntry[]>;
+
+  // Media methods
+  createMedia(media: InsertMedia): Promise<Media>;
+  getMedia(id: string): Promise<Media | undefined>;
+  getAssessmentMedia(assessmentId: string): Promise<Media[]>;
+
+  // Human damage annotations, oldest first
+  getAssessmentAnnotations(assessmentId: string): Promise<AssessmentAnnotation[]>;
+  getAnnotation(id: string): Promise<AssessmentAnnotation | undefined>;
+  createAnnotation(annotation: InsertAssessmentAnnotation): Promise<AssessmentAnnotation>;
+  updateAnnotation(id: string, updates: Partial<InsertAssessmentAnnotation>): Promise<AssessmentAnnotation | undefined>;
+  deleteAnnotation(id: string): Promise<boolean>;
+
+  // Analysis cache methods; a hit bumps the entry's hit count
+  getAnalysisCacheEntry(cacheKey: string): Promise<AnalysisCacheEntry | undefined>;
+  saveAnalysisCacheEntry(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry>; // Replaces an existing entry with the same key
+  recordAnalysisCacheHit(cacheKey: string): Promise<void>;
+
+  // Grading rubric versions (append-only); creating a version that already exists fails
+  getLatestRubric(): Promise<GradingRubric | undefined>;
+  getRubric(version: number): Promise<GradingRubric | undefined>;
+  getRubrics(): Promise<GradingRubric[]>; // Newest first
+  createRubric(rubric: InsertGradingRubric): Promise<GradingRubric>;
 
   // Conversation methods
   createConversation(conversation: InsertConversation): Promise<Conversation>;
@@ -42,27 +118,79 @@ export interface IStorage {
 }
 
 // DatabaseStorage implementation based on javascript_database blueprint
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool: getPool(), createTableIfMissing: true });
+  }
+
+  private get db() {
+    return getDb();
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
+  async getUsers(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return count;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(insertUser)
       .returning();
     return user;
   }
 
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Self-conflicting lock so concurrent first registrations run one after the other; plain reads are not blocked
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 0) {
+        return undefined;
+      }
+
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      return user;
+    });
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await this.db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(assessments)
       .values(assessment)
       .returning();
@@ -70,7 +198,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAssessment(id: string): Promise<Assessment | undefined> {
-    const [assessment] = await db
+    const [assessment] = await this.db
       .select()
       .from(assessments)
       .where(eq(assessments.id, id));
@@ -78,14 +206,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllAssessments(): Promise<Assessment[]> {
-    return await db
+    return await this.db
       .select()
       .from(assessments)
       .orderBy(desc(assessments.assessmentDate));
   }
 
-  async searchAssessments(filters: AssessmentSearchFilters): Promise<Assessment[]> {
-    const conditions = [];
+  async searchAssessments(filters: AssessmentSearchFilters): Promise<AssessmentSearchResult> {
+    const conditions: (SQL | undefined)[] = [];
     
     // Filter by grades
     if (filters.grades && filters.grades.length > 0) {
@@ -104,27 +232,79 @@ export class DatabaseStorage implements IStorage {
       );
     }
 
-    // Add date filters if needed
-    if (filters.startDate || filters.endDate) {
-      // TODO: Implement date filtering
+    if (filters.startDate) {
+      conditions.push(gte(assessments.assessmentDate, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lt(assessments.assessmentDate, filters.endDate));
+    }
+
+    if (filters.minConfidence !== undefined) {
+      conditions.push(gte(assessments.confidence, filters.minConfidence));
+    }
+    if (filters.maxConfidence !== undefined) {
+      conditions.push(lte(assessments.confidence, filters.maxConfidence));
+    }
+
+    if (filters.fileType) {
+      conditions.push(eq(assessments.fileType, filters.fileType));
+    }
+
+    if (filters.damageType) {
+      conditions.push(sql`exists (select 1 from json_array_elements_text(${assessments.damageTypes}) as damage_type where lower(damage_type) = lower(${filters.damageType}))`);
+    }
+
+    if (filters.createdBy) {
+      conditions.push(eq(assessments.createdBy, filters.createdBy));
     }
 
-    if (conditions.length > 0) {
-      return await db
+    if (filters.reviewStatuses && filters.reviewStatuses.length > 0) {
+      conditions.push(inArray(assessments.reviewStatus, filters.reviewStatuses));
+    }
+
+    if (filters.reviewClaimedBy) {
+      conditions.push(eq(assessments.reviewClaimedBy, filters.reviewClaimedBy));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const sortBy = filters.sortBy || 'assessmentDate';
+    // Timestamps are ordered at the millisecond precision a JavaScript Date (and so a search key) carries
+    const sortColumn = sortBy === 'assessmentDate'
+      ? sql`date_trunc('milliseconds', ${assessments.assessmentDate})`
+      : sql`${assessments[sortBy]}`;
+    const direction = filters.sortDirection === 'asc' ? sql`asc` : sql`desc`;
+    const after = filters.sortDirection === 'asc' ? sql`>` : sql`<`;
+
+    // Rows past the key in (sort column nulls last, id) order
+    let pageWhere = where;
+    if (filters.after) {
+      const { id } = filters.after;
+      const value = filters.after.value instanceof Date ? filters.after.value.toISOString() : filters.after.value;
+      const keyset = value === null
+        ? sql`(${sortColumn} is null and ${assessments.id} ${after} ${id})`
+        : sql`(${sortColumn} ${after} ${value} or (${sortColumn} = ${value} and ${assessments.id} ${after} ${id}) or ${sortColumn} is null)`;
+      pageWhere = and(where, keyset);
+    }
+
+    const [items, [{ count }]] = await Promise.all([
+      this.db
         .select()
         .from(assessments)
-        .where(and(...conditions))
-        .orderBy(desc(assessments.assessmentDate));
-    }
+        .where(pageWhere)
+        // Ids break ties so the keyset ordering is total
+        .orderBy(sql`${sortColumn} ${direction} nulls last`, sql`${assessments.id} ${direction}`)
+        .limit(filters.limit ?? 24),
+      this.db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(assessments)
+        .where(where)
+    ]);
 
-    return await db
-      .select()
-      .from(assessments)
-      .orderBy(desc(assessments.assessmentDate));
+    return { items, total: count };
   }
 
   async updateAssessment(id: string, updates: Partial<InsertAssessment>): Promise<Assessment | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(assessments)
       .set(updates)
       .where(eq(assessments.id, id))
@@ -132,9 +312,206 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
+  async deleteAssessment(id: string): Promise<boolean> {
+    // Media and annotation rows are removed by the ON DELETE CASCADE foreign keys
+    const result = await this.db
+      .delete(assessments)
+      .where(eq(assessments.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async overrideAssessment(id: string, updates: Partial<InsertAssessment>, entry: InsertAssessmentAuditEntry, expectedStatus?: string): Promise<Assessment | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(assessments)
+        .set(updates)
+        .where(and(
+          eq(assessments.id, id),
+          expectedStatus !== undefined ? eq(assessments.status, expectedStatus) : undefined
+        ))
+        .returning();
+      if (!updated) {
+        return undefined;
+      }
+
+      await tx.insert(assessmentAuditLog).values(entry);
+      return updated;
+    });
+  }
+
+  async claimReview(id: string, userId: string): Promise<Assessment | undefined> {
+    const [claimed] = await this.db
+      .update(assessments)
+      .set({ reviewStatus: 'IN_REVIEW', reviewClaimedBy: userId })
+      .where(and(
+        eq(assessments.id, id),
+        inArray(assessments.reviewStatus, ['PENDING_REVIEW', 'IN_REVIEW']),
+        or(isNull(assessments.reviewClaimedBy), eq(assessments.reviewClaimedBy, userId))
+      ))
+      .returning();
+    return claimed || undefined;
+  }
+
+  async releaseReview(id: string, userId: string): Promise<Assessment | undefined> {
+    const [released] = await this.db
+      .update(assessments)
+      .set({ reviewStatus: 'PENDING_REVIEW', reviewClaimedBy: null })
+      .where(and(
+        eq(assessments.id, id),
+        eq(assessments.reviewStatus, 'IN_REVIEW'),
+        eq(assessments.reviewClaimedBy, userId)
+      ))
+      .returning();
+    return released || undefined;
+  }
+
+  // Audit log methods
+  async addAuditEntry(entry: InsertAssessmentAuditEntry): Promise<AssessmentAuditEntry> {
+    const [result] = await this.db
+      .insert(assessmentAuditLog)
+      .values(entry)
+      .returning();
+    return result;
+  }
+
+  async getAssessmentAuditLog(assessmentId: string): Promise<AssessmentAuditEntry[]> {
+    return await this.db
+      .select()
+      .from(assessmentAuditLog)
+      .where(eq(assessmentAuditLog.assessmentId, assessmentId))
+      .orderBy(asc(assessmentAuditLog.createdAt));
+  }
+
+  // Media methods
+  async createMedia(insertMedia: InsertMedia): Promise<Media> {
+    const [result] = await this.db
+      .insert(media)
+      .values(insertMedia)
+      .returning();
+    return result;
+  }
+
+  async getMedia(id: string): Promise<Media | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(media)
+      .where(eq(media.id, id));
+    return result || undefined;
+  }
+
+  async getAssessmentMedia(assessmentId: string): Promise<Media[]> {
+    return await this.db
+      .select()
+      .from(media)
+      .where(eq(media.assessmentId, assessmentId))
+      .orderBy(asc(media.position));
+  }
+
+  // Annotation methods
+  async getAssessmentAnnotations(assessmentId: string): Promise<AssessmentAnnotation[]> {
+    return await this.db
+      .select()
+      .from(assessmentAnnotations)
+      .where(eq(assessmentAnnotations.assessmentId, assessmentId))
+      .orderBy(asc(assessmentAnnotations.createdAt));
+  }
+
+  async getAnnotation(id: string): Promise<AssessmentAnnotation | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(assessmentAnnotations)
+      .where(eq(assessmentAnnotations.id, id));
+    return result || undefined;
+  }
+
+  async createAnnotation(annotation: InsertAssessmentAnnotation): Promise<AssessmentAnnotation> {
+    const [result] = await this.db
+      .insert(assessmentAnnotations)
+      .values(annotation)
+      .returning();
+    return result;
+  }
+
+  async updateAnnotation(id: string, updates: Partial<InsertAssessmentAnnotation>): Promise<AssessmentAnnotation | undefined> {
+    const [updated] = await this.db
+      .update(assessmentAnnotations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(assessmentAnnotations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteAnnotation(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(assessmentAnnotations)
+      .where(eq(assessmentAnnotations.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getAnalysisCacheEntry(cacheKey: string): Promise<AnalysisCacheEntry | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(analysisCache)
+      .where(eq(analysisCache.cacheKey, cacheKey));
+    return result || undefined;
+  }
+
+  async saveAnalysisCacheEntry(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry> {
+    const [result] = await this.db
+      .insert(analysisCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: analysisCache.cacheKey,
+        set: { ...entry, hitCount: 0, createdAt: new Date(), lastHitAt: null },
+      })
+      .returning();
+    return result;
+  }
+
+  async recordAnalysisCacheHit(cacheKey: string): Promise<void> {
+    await this.db
+      .update(analysisCache)
+      .set({ hitCount: sql`${analysisCache.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(analysisCache.cacheKey, cacheKey));
+  }
+
+  async getLatestRubric(): Promise<GradingRubric | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(gradingRubrics)
+      .orderBy(desc(gradingRubrics.version))
+      .limit(1);
+    return result || undefined;
+  }
+
+  async getRubric(version: number): Promise<GradingRubric | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(gradingRubrics)
+      .where(eq(gradingRubrics.version, version));
+    return result || undefined;
+  }
+
+  async getRubrics(): Promise<GradingRubric[]> {
+    return await this.db
+      .select()
+      .from(gradingRubrics)
+      .orderBy(desc(gradingRubrics.version));
+  }
+
+  async createRubric(rubric: InsertGradingRubric): Promise<GradingRubric> {
+    const [result] = await this.db
+      .insert(gradingRubrics)
+      .values(rubric)
+      .returning();
+    return result;
+  }
+
   // Conversation management methods
   async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
-    const [conversation] = await db
+    const [conversation] = await this.db
       .insert(conversations)
       .values(insertConversation)
       .returning();
@@ -142,7 +519,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getConversation(id: string): Promise<Conversation | undefined> {
-    const [conversation] = await db
+    const [conversation] = await this.db
       .select()
       .from(conversations)
       .where(eq(conversations.id, id));
@@ -150,14 +527,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllConversations(): Promise<Conversation[]> {
-    return await db
+    return await this.db
       .select()
       .from(conversations)
       .orderBy(desc(conversations.updatedAt));
   }
 
   async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(conversations)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(conversations.id, id))
@@ -166,7 +543,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteConversation(id: string): Promise<boolean> {
-    const result = await db
+    const result = await this.db
       .delete(conversations)
       .where(eq(conversations.id, id))
       .returning();
@@ -175,13 +552,13 @@ export class DatabaseStorage implements IStorage {
 
   // Conversation message methods
   async addMessage(message: InsertConversationMessage): Promise<ConversationMessage> {
-    const [result] = await db
+    const [result] = await this.db
       .insert(conversationMessages)
       .values(message)
       .returning();
     
     // Update conversation's updatedAt timestamp
-    await db
+    await this.db
       .update(conversations)
       .set({ updatedAt: new Date() })
       .where(eq(conversations.id, message.conversationId));
@@ -190,7 +567,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
-    return await db
+    return await this.db
       .select()
       .from(conversationMessages)
       .where(eq(conversationMessages.conversationId, conversationId))
@@ -198,7 +575,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteMessage(id: string): Promise<boolean> {
-    const result = await db
+    const result = await this.db
       .delete(conversationMessages)
       .where(eq(conversationMessages.id, id))
       .returning();
@@ -206,4 +583,518 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+const assessmentDefaults: Omit<Assessment, 'id' | 'grade' | 'assessmentDate'> = {
+  sku: null,
+  brand: null,
+  model: null,
+  status: 'COMPLETED',
+  failureReason: null,
+  failureStage: null,
+  confidence: null,
+  damageDescription: null,
+  detailedFindings: null,
+  findingsOverriddenAt: null,
+  damageTypes: null,
+  imageUrl: null,
+  processingTime: null,
+  fileType: null,
+  originalFileName: null,
+  mimeType: null,
+  fileSize: null,
+  videoDuration: null,
+  videoWidth: null,
+  videoHeight: null,
+  videoFps: null,
+  framesAnalyzed: null,
+  imageAnalyses: null,
+  aiGrade: null,
+  modelGrade: null,
+  componentConditions: null,
+  gradeDerivation: null,
+  createdBy: null,
+  updatedBy: null,
+  reviewStatus: null,
+  reviewReasons: null,
+  reviewClaimedBy: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  rubricVersion: null,
+  modelName: null,
+  analysisCache: null,
+  promptVersion: null,
+  promptTokens: null,
+  completionTokens: null,
+  totalTokens: null,
+  rawModelResponse: null,
+};
+
+// In-memory implementation for tests and demos; mirrors the behaviour of DatabaseStorage
+export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 86400000 }); // Prune expired sessions daily
+  private users = new Map<string, User>();
+  private assessments = new Map<string, Assessment>();
+  private media = new Map<string, Media>();
+  private annotations = new Map<string, AssessmentAnnotation>();
+  private auditLog: AssessmentAuditEntry[] = [];
+  private analysisCache = new Map<string, AnalysisCacheEntry>();
+  private rubrics = new Map<number, GradingRubric>();
+  private conversations = new Map<string, Conversation>();
+  private messages = new Map<string, ConversationMessage>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async getUsers(ids: string[]): Promise<User[]> {
+    return ids.map(id => this.users.get(id)).filter((user): user is User => !!user);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`duplicate key value violates unique constraint: username "${insertUser.username}" already exists`);
+    }
+
+    const user: User = {
+      role: "technician",
+      ...insertUser,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    // Checked and inserted without awaiting in between, so no other request can interleave
+    if (this.users.size > 0) {
+      return undefined;
+    }
+
+    const user: User = {
+      role: "technician",
+      ...insertUser,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: User = { ...existing, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createAssessment(insertAssessment: InsertAssessment): Promise<Assessment> {
+    const assessment: Assessment = {
+      ...assessmentDefaults,
+      ...insertAssessment,
+      id: randomUUID(),
+      assessmentDate: new Date(),
+    };
+    this.assessments.set(assessment.id, assessment);
+    return assessment;
+  }
+
+  async getAssessment(id: string): Promise<Assessment | undefined> {
+    return this.assessments.get(id);
+  }
+
+  async getAllAssessments(): Promise<Assessment[]> {
+    return Array.from(this.assessments.values())
+      .sort((a, b) => b.assessmentDate.getTime() - a.assessmentDate.getTime());
+  }
+
+  async searchAssessments(filters: AssessmentSearchFilters): Promise<AssessmentSearchResult> {
+    let results = Array.from(this.assessments.values());
+
+    // Filter by grades
+    if (filters.grades && filters.grades.length > 0) {
+      results = results.filter(assessment => filters.grades!.includes(assessment.grade));
+    }
+
+    // Search by SKU, brand, model (case-sensitive, like SQL LIKE)
+    if (filters.searchQuery) {
+      const searchTerm = filters.searchQuery;
+      results = results.filter(assessment =>
+        [assessment.sku, assessment.brand, assessment.model].some(value => value?.includes(searchTerm))
+      );
+    }
+
+    const { startDate, endDate, minConfidence, maxConfidence, fileType, damageType, createdBy, reviewStatuses, reviewClaimedBy } = filters;
+    if (startDate) {
+      results = results.filter(assessment => assessment.assessmentDate >= startDate);
+    }
+    if (endDate) {
+      results = results.filter(assessment => assessment.assessmentDate < endDate);
+    }
+
+    // Rows without a confidence never match a confidence bound, as in SQL
+    if (minConfidence !== undefined) {
+      results = results.filter(assessment => assessment.confidence !== null && assessment.confidence >= minConfidence);
+    }
+    if (maxConfidence !== undefined) {
+      results = results.filter(assessment => assessment.confidence !== null && assessment.confidence <= maxConfidence);
+    }
+
+    if (fileType) {
+      results = results.filter(assessment => assessment.fileType === fileType);
+    }
+
+    if (damageType) {
+      const wanted = damageType.toLowerCase();
+      results = results.filter(assessment =>
+        Array.isArray(assessment.damageTypes) && assessment.damageTypes.some(type => String(type).toLowerCase() === wanted)
+      );
+    }
+
+    if (createdBy) {
+      results = results.filter(assessment => assessment.createdBy === createdBy);
+    }
+
+    if (reviewStatuses && reviewStatuses.length > 0) {
+      results = results.filter(assessment => assessment.reviewStatus !== null && reviewStatuses.includes(assessment.reviewStatus));
+    }
+
+    if (reviewClaimedBy) {
+      results = results.filter(assessment => assessment.reviewClaimedBy === reviewClaimedBy);
+    }
+
+    const sortBy = filters.sortBy || 'assessmentDate';
+    const direction = filters.sortDirection === 'asc' ? 1 : -1;
+    const compareKeys = (a: AssessmentSearchKey, b: AssessmentSearchKey) => {
+      // Nulls last regardless of direction
+      if (a.value === null || b.value === null) {
+        if (a.value === b.value) return a.id.localeCompare(b.id) * direction;
+        return a.value === null ? 1 : -1;
+      }
+      if (a.value < b.value) return -direction;
+      if (a.value > b.value) return direction;
+      return a.id.localeCompare(b.id) * direction;
+    };
+    const keyOf = (assessment: Assessment): AssessmentSearchKey => ({ value: assessment[sortBy], id: assessment.id });
+
+    const total = results.length;
+    results.sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+    if (filters.after) {
+      const after = filters.after;
+      results = results.filter(assessment => compareKeys(keyOf(assessment), after) > 0);
+    }
+
+    return {
+      items: results.slice(0, filters.limit ?? 24),
+      total,
+    };
+  }
+
+  async updateAssessment(id: string, updates: Partial<InsertAssessment>): Promise<Assessment | undefined> {
+    const existing = this.assessments.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: Assessment = { ...existing, ...updates };
+    this.assessments.set(id, updated);
+    return updated;
+  }
+
+  async deleteAssessment(id: string): Promise<boolean> {
+    if (!this.assessments.delete(id)) {
+      return false;
+    }
+
+    Array.from(this.media.values())
+      .filter(record => record.assessmentId === id)
+      .forEach(record => this.media.delete(record.id));
+    Array.from(this.annotations.values())
+      .filter(record => record.assessmentId === id)
+      .forEach(record => this.annotations.delete(record.id));
+    return true;
+  }
+
+  async overrideAssessment(id: string, updates: Partial<InsertAssessment>, entry: InsertAssessmentAuditEntry, expectedStatus?: string): Promise<Assessment | undefined> {
+    // Checked before the first await, so no other request can change the status in between
+    if (expectedStatus !== undefined && this.assessments.get(id)?.status !== expectedStatus) {
+      return undefined;
+    }
+    const updated = await this.updateAssessment(id, updates);
+    if (updated) {
+      await this.addAuditEntry(entry);
+    }
+    return updated;
+  }
+
+  async claimReview(id: string, userId: string): Promise<Assessment | undefined> {
+    const existing = this.assessments.get(id);
+    if (
+      !existing ||
+      (existing.reviewStatus !== 'PENDING_REVIEW' && existing.reviewStatus !== 'IN_REVIEW') ||
+      (existing.reviewClaimedBy !== null && existing.reviewClaimedBy !== userId)
+    ) {
+      return undefined;
+    }
+    return await this.updateAssessment(id, { reviewStatus: 'IN_REVIEW', reviewClaimedBy: userId });
+  }
+
+  async releaseReview(id: string, userId: string): Promise<Assessment | undefined> {
+    const existing = this.assessments.get(id);
+    if (!existing || existing.reviewStatus !== 'IN_REVIEW' || existing.reviewClaimedBy !== userId) {
+      return undefined;
+    }
+    return await this.updateAssessment(id, { reviewStatus: 'PENDING_REVIEW', reviewClaimedBy: null });
+  }
+
+  async addAuditEntry(entry: InsertAssessmentAuditEntry): Promise<AssessmentAuditEntry> {
+    const record: AssessmentAuditEntry = {
+      reasonCode: null,
+      note: null,
+      changes: null,
+      userId: null,
+      ...entry,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.auditLog.push(record);
+    return record;
+  }
+
+  async getAssessmentAuditLog(assessmentId: string): Promise<AssessmentAuditEntry[]> {
+    return this.auditLog.filter(entry => entry.assessmentId === assessmentId);
+  }
+
+  async createMedia(insertMedia: InsertMedia): Promise<Media> {
+    if (!this.assessments.has(insertMedia.assessmentId)) {
+      throw new Error(`Assessment ${insertMedia.assessmentId} does not exist`);
+    }
+
+    const record: Media = {
+      thumbnailKey: null,
+      originalFileName: null,
+      fileSize: null,
+      width: null,
+      height: null,
+      orientation: null,
+      ...insertMedia,
+      position: insertMedia.position ?? 0,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.media.set(record.id, record);
+    return record;
+  }
+
+  async getMedia(id: string): Promise<Media | undefined> {
+    return this.media.get(id);
+  }
+
+  async getAssessmentMedia(assessmentId: string): Promise<Media[]> {
+    return Array.from(this.media.values())
+      .filter(record => record.assessmentId === assessmentId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getAssessmentAnnotations(assessmentId: string): Promise<AssessmentAnnotation[]> {
+    return Array.from(this.annotations.values())
+      .filter(record => record.assessmentId === assessmentId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAnnotation(id: string): Promise<AssessmentAnnotation | undefined> {
+    return this.annotations.get(id);
+  }
+
+  async createAnnotation(annotation: InsertAssessmentAnnotation): Promise<AssessmentAnnotation> {
+    if (!this.assessments.has(annotation.assessmentId)) {
+      throw new Error(`Assessment ${annotation.assessmentId} does not exist`);
+    }
+
+    const now = new Date();
+    const record: AssessmentAnnotation = {
+      aiFindingKey: null,
+      x: null,
+      y: null,
+      width: null,
+      height: null,
+      createdBy: null,
+      updatedBy: null,
+      ...annotation,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.annotations.set(record.id, record);
+    return record;
+  }
+
+  async updateAnnotation(id: string, updates: Partial<InsertAssessmentAnnotation>): Promise<AssessmentAnnotation | undefined> {
+    const existing = this.annotations.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: AssessmentAnnotation = { ...existing, ...updates, updatedAt: new Date() };
+    this.annotations.set(id, updated);
+    return updated;
+  }
+
+  async deleteAnnotation(id: string): Promise<boolean> {
+    return this.annotations.delete(id);
+  }
+
+  async getAnalysisCacheEntry(cacheKey: string): Promise<AnalysisCacheEntry | undefined> {
+    return this.analysisCache.get(cacheKey);
+  }
+
+  async saveAnalysisCacheEntry(entry: InsertAnalysisCacheEntry): Promise<AnalysisCacheEntry> {
+    const record: AnalysisCacheEntry = {
+      rawResponse: null,
+      ...entry,
+      hitCount: 0,
+      createdAt: new Date(),
+      lastHitAt: null,
+    };
+    this.analysisCache.set(record.cacheKey, record);
+    return record;
+  }
+
+  async recordAnalysisCacheHit(cacheKey: string): Promise<void> {
+    const existing = this.analysisCache.get(cacheKey);
+    if (existing) {
+      this.analysisCache.set(cacheKey, { ...existing, hitCount: existing.hitCount + 1, lastHitAt: new Date() });
+    }
+  }
+
+  async getLatestRubric(): Promise<GradingRubric | undefined> {
+    return (await this.getRubrics())[0];
+  }
+
+  async getRubric(version: number): Promise<GradingRubric | undefined> {
+    return this.rubrics.get(version);
+  }
+
+  async getRubrics(): Promise<GradingRubric[]> {
+    return Array.from(this.rubrics.values()).sort((a, b) => b.version - a.version);
+  }
+
+  async createRubric(rubric: InsertGradingRubric): Promise<GradingRubric> {
+    if (this.rubrics.has(rubric.version)) {
+      throw new Error(`duplicate key value violates unique constraint: rubric version ${rubric.version} already exists`);
+    }
+
+    const record: GradingRubric = {
+      note: null,
+      createdBy: null,
+      ...rubric,
+      createdAt: new Date(),
+    };
+    this.rubrics.set(record.version, record);
+    return record;
+  }
+
+  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      createdBy: null,
+      updatedBy: null,
+      ...insertConversation,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async getAllConversations(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
+    const existing = this.conversations.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: Conversation = { ...existing, ...updates, updatedAt: new Date() };
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    if (!this.conversations.delete(id)) {
+      return false;
+    }
+
+    // Cascade to the conversation's messages, like the foreign key does in Postgres
+    Array.from(this.messages.values())
+      .filter(message => message.conversationId === id)
+      .forEach(message => this.messages.delete(message.id));
+    return true;
+  }
+
+  async addMessage(insertMessage: InsertConversationMessage): Promise<ConversationMessage> {
+    const conversation = this.conversations.get(insertMessage.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${insertMessage.conversationId} does not exist`);
+    }
+
+    const message: ConversationMessage = {
+      assessmentData: null,
+      fileData: null,
+      ...insertMessage,
+      id: randomUUID(),
+      timestamp: new Date(),
+    };
+    this.messages.set(message.id, message);
+
+    // Update conversation's updatedAt timestamp
+    this.conversations.set(conversation.id, { ...conversation, updatedAt: new Date() });
+
+    return message;
+  }
+
+  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return Array.from(this.messages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async deleteMessage(id: string): Promise<boolean> {
+    return this.messages.delete(id);
+  }
+}
+
+// Use Postgres when DATABASE_URL is configured, otherwise fall back to in-memory storage
+export function createStorage(): IStorage {
+  if (isDatabaseConfigured()) {
+    return new DatabaseStorage();
+  }
+
+  console.warn('DATABASE_URL is not set; using in-memory storage. Data will be lost when the server restarts.');
+  return new MemStorage();
+}
+
+export const storage = createStorage();
@@ -3,6 +3,7 @@ import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import { tmpdir } from 'os';
+import sharp from 'sharp';
 
 const execAsync = promisify(exec);
 
@@ -31,31 +32,299 @@ function parseFraction(fractionStr: string): number {
   return numerator / denominator;
 }
 
+export type FrameSelectionStrategy = 'keyframes' | 'uniform';
+
+/**
+ * Scores recorded for every candidate frame considered by the keyframe selector
+ */
+export interface FrameCandidateScore {
+  timestamp: number;
+  source: 'scene-change' | 'uniform';
+  sceneScore: number | null; // ffmpeg scene change score (0-1), null for uniform samples
+  sharpness: number; // Laplacian standard deviation, higher is sharper
+  exposure: number; // 0-1, 1 = well exposed without clipped highlights/shadows
+  score: number; // Combined score used for ranking
+  selected: boolean;
+  rejectedReason?: 'redundant' | 'not-ranked';
+}
+
+export interface FrameSelectionReport {
+  strategy: FrameSelectionStrategy;
+  requestedFrames: number;
+  candidates: FrameCandidateScore[];
+  fallbackReason?: string; // Why keyframe selection fell back to uniform sampling
+}
+
 export interface VideoFrameExtractionResult {
   success: boolean;
   frames: Buffer[];
+  timestamps: number[]; // Position of each extracted frame in seconds
   error?: string;
   metadata?: {
     duration: number;
     width: number;
     height: number;
     fps: number;
+    frameSelection?: FrameSelectionReport;
+  };
+}
+
+export interface FrameExtractionOptions {
+  strategy?: FrameSelectionStrategy; // Default: 'keyframes'
+  sceneThreshold?: number; // Minimum ffmpeg scene score for a scene-change candidate (default: 0.08)
+}
+
+/**
+ * Spread frame positions evenly over the video, avoiding the very first and last frame
+ */
+function computeFrameTimestamps(duration: number, numFrames: number): number[] {
+  if (duration <= 0) {
+    return [0];
+  }
+
+  const count = Math.max(1, numFrames);
+  const step = duration / count;
+  return Array.from({ length: count }, (_, index) => Number((step * (index + 0.5)).toFixed(2)));
+}
+
+/**
+ * Extract a single JPEG frame at the given position
+ */
+async function extractFrameAt(videoPath: string, timestamp: number, framePath: string): Promise<Buffer> {
+  const ffmpegCommand = [
+    'ffmpeg',
+    '-y',
+    '-ss', timestamp.toFixed(2),
+    '-i', `"${videoPath}"`,
+    '-frames:v', '1',
+    '-q:v', '2', // High quality
+    '-f', 'image2',
+    `"${framePath}"`
+  ].join(' ');
+
+  try {
+    await execAsync(ffmpegCommand);
+    return await fs.readFile(framePath);
+  } finally {
+    await fs.unlink(framePath).catch(() => {});
+  }
+}
+
+/**
+ * Find scene changes using ffmpeg's scene detection on a downscaled copy of the video
+ */
+async function detectSceneChanges(videoPath: string, threshold: number): Promise<{ timestamp: number; sceneScore: number }[]> {
+  const ffmpegCommand = [
+    'ffmpeg',
+    '-hide_banner',
+    '-i', `"${videoPath}"`,
+    '-an',
+    '-vf', `"scale=320:-2,select='gt(scene,${threshold})',metadata=print"`,
+    '-f', 'null',
+    '-'
+  ].join(' ');
+
+  // metadata=print logs to stderr, which can get long for busy videos
+  const { stderr } = await execAsync(ffmpegCommand, { maxBuffer: 16 * 1024 * 1024 });
+
+  const changes: { timestamp: number; sceneScore: number }[] = [];
+  let pendingTimestamp: number | null = null;
+
+  for (const line of stderr.split('\n')) {
+    const timeMatch = line.match(/pts_time:([\d.]+)/);
+    if (timeMatch) {
+      pendingTimestamp = parseFloat(timeMatch[1]);
+      continue;
+    }
+
+    const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+    if (scoreMatch && pendingTimestamp !== null) {
+      changes.push({ timestamp: pendingTimestamp, sceneScore: parseFloat(scoreMatch[1]) });
+      pendingTimestamp = null;
+    }
+  }
+
+  return changes;
+}
+
+interface FrameQuality {
+  sharpness: number;
+  exposure: number;
+  fingerprint: Buffer; // 16x16 greyscale thumbnail used to detect near-identical frames
+}
+
+/**
+ * Measure sharpness (Laplacian response) and exposure of a frame with sharp
+ */
+async function measureFrameQuality(frame: Buffer): Promise<FrameQuality> {
+  const grey = sharp(frame).greyscale().resize(512, 512, { fit: 'inside', withoutEnlargement: true });
+
+  const laplacian = await grey
+    .clone()
+    .convolve({ width: 3, height: 3, scale: 1, offset: 128, kernel: [0, 1, 0, 1, -4, 1, 0, 1, 0] })
+    .stats();
+
+  const { data: pixels } = await grey.clone().raw().toBuffer({ resolveWithObject: true });
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    const value = pixels[i];
+    sum += value;
+    if (value <= 8 || value >= 247) {
+      clipped++;
+    }
+  }
+  const mean = pixels.length > 0 ? sum / pixels.length : 0;
+  const clippedFraction = pixels.length > 0 ? clipped / pixels.length : 1;
+  const exposure = Math.max(0, (1 - Math.abs(mean - 128) / 128) * (1 - clippedFraction));
+
+  const fingerprint = await sharp(frame).greyscale().resize(16, 16, { fit: 'fill' }).raw().toBuffer();
+
+  return {
+    sharpness: laplacian.channels[0]?.stdev ?? 0,
+    exposure,
+    fingerprint
+  };
+}
+
+function fingerprintDistance(a: Buffer, b: Buffer): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / a.length;
+}
+
+// Mean absolute difference (0-255) below which two frames are considered the same view
+const REDUNDANT_FRAME_DISTANCE = 12;
+const MAX_FRAME_CANDIDATES = 24;
+
+/**
+ * Pick the N most informative, non-redundant frames using scene changes plus sharpness/exposure scores
+ */
+async function selectKeyframes(
+  videoPath: string,
+  duration: number,
+  numFrames: number,
+  sceneThreshold: number,
+  tempPrefix: string
+): Promise<{ frames: Buffer[]; timestamps: number[]; report: FrameSelectionReport }> {
+  // The strongest scene changes are kept first, so the candidate cap never depends on where in the video they fall
+  const sceneChanges = (await detectSceneChanges(videoPath, sceneThreshold))
+    .sort((a, b) => b.sceneScore - a.sceneScore)
+    .slice(0, Math.min(numFrames * 2, MAX_FRAME_CANDIDATES));
+
+  // Uniform samples over the whole duration fill the remaining slots, so static videos (no scene changes) still get coverage
+  const uniformCount = Math.min(numFrames * 2, MAX_FRAME_CANDIDATES - sceneChanges.length);
+  const uniformSamples = uniformCount > 0 ? computeFrameTimestamps(duration, uniformCount) : [];
+
+  const candidates: { timestamp: number; source: FrameCandidateScore['source']; sceneScore: number | null }[] = [
+    ...sceneChanges.map(change => ({ ...change, source: 'scene-change' as const })),
+    ...uniformSamples.map(timestamp => ({ timestamp, source: 'uniform' as const, sceneScore: null }))
+  ]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter((candidate, index, all) => index === 0 || candidate.timestamp - all[index - 1].timestamp >= 0.3);
+
+  const measured: (FrameCandidateScore & { frame: Buffer; fingerprint: Buffer })[] = [];
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+    try {
+      const frame = await extractFrameAt(videoPath, candidate.timestamp, `${tempPrefix}_candidate_${index + 1}.jpg`);
+      const quality = await measureFrameQuality(frame);
+      measured.push({
+        ...candidate,
+        sharpness: Number(quality.sharpness.toFixed(2)),
+        exposure: Number(quality.exposure.toFixed(3)),
+        score: 0,
+        selected: false,
+        frame,
+        fingerprint: quality.fingerprint
+      });
+    } catch (error) {
+      console.warn(`Could not score candidate frame at ${candidate.timestamp}s:`, error);
+    }
+  }
+
+  const maxSharpness = Math.max(...measured.map(candidate => candidate.sharpness), 1);
+  for (const candidate of measured) {
+    const sceneBonus = candidate.sceneScore !== null ? Math.min(candidate.sceneScore, 1) : 0;
+    candidate.score = Number((0.6 * (candidate.sharpness / maxSharpness) + 0.3 * candidate.exposure + 0.1 * sceneBonus).toFixed(3));
+  }
+
+  const selected: typeof measured = [];
+  for (const candidate of [...measured].sort((a, b) => b.score - a.score)) {
+    if (selected.length >= numFrames) {
+      candidate.rejectedReason = 'not-ranked';
+      continue;
+    }
+
+    const isRedundant = selected.some(existing => fingerprintDistance(existing.fingerprint, candidate.fingerprint) < REDUNDANT_FRAME_DISTANCE);
+    if (isRedundant) {
+      candidate.rejectedReason = 'redundant';
+      continue;
+    }
+
+    candidate.selected = true;
+    selected.push(candidate);
+  }
+
+  selected.sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    frames: selected.map(candidate => candidate.frame),
+    timestamps: selected.map(candidate => candidate.timestamp),
+    report: {
+      strategy: 'keyframes',
+      requestedFrames: numFrames,
+      candidates: measured.map(({ frame, fingerprint, ...score }) => score)
+    }
   };
 }
 
+/**
+ * Extract frames at evenly spaced positions
+ */
+async function selectUniformFrames(
+  videoPath: string,
+  duration: number,
+  numFrames: number,
+  tempPrefix: string
+): Promise<{ frames: Buffer[]; timestamps: number[] }> {
+  const frames: Buffer[] = [];
+  const timestamps: number[] = [];
+
+  // Seek to each position separately so every frame has an exact timestamp
+  const positions = computeFrameTimestamps(duration, numFrames);
+  for (let index = 0; index < positions.length; index++) {
+    const timestamp = positions[index];
+    try {
+      frames.push(await extractFrameAt(videoPath, timestamp, `${tempPrefix}_${index + 1}.jpg`));
+      timestamps.push(timestamp);
+    } catch (error) {
+      console.warn(`Could not extract frame at ${timestamp}s:`, error);
+    }
+  }
+
+  return { frames, timestamps };
+}
+
 /**
  * Extract frames from video file for AI analysis
  * @param videoBuffer - The video file buffer
  * @param numFrames - Number of frames to extract (default: 3)
- * @returns Promise with extracted frames and metadata
+ * @param options - Selection strategy; keyframe selection falls back to uniform sampling on failure
+ * @returns Promise with extracted frames, their timestamps and metadata (including selection scores)
  */
 export async function extractVideoFrames(
   videoBuffer: Buffer, 
-  numFrames: number = 3
+  numFrames: number = 3,
+  options: FrameExtractionOptions = {}
 ): Promise<VideoFrameExtractionResult> {
   const tempDir = tmpdir();
-  const videoPath = path.join(tempDir, `video_${Date.now()}.mp4`);
-  const framePattern = path.join(tempDir, `frame_${Date.now()}_%d.jpg`);
+  const stamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const videoPath = path.join(tempDir, `video_${stamp}.mp4`);
+  const framePrefix = path.join(tempDir, `frame_${stamp}`);
+  const strategy = options.strategy || 'keyframes';
   
   try {
     // Write video buffer to temporary file
@@ -64,33 +333,28 @@ export async function extractVideoFrames(
     // Get video metadata first
     const metadata = await getVideoMetadata(videoPath);
     
-    // Calculate frame extraction interval
-    const interval = Math.max(1, Math.floor(metadata.duration / numFrames));
-    
-    // Extract frames using ffmpeg
-    const ffmpegCommand = [
-      'ffmpeg',
-      '-i', `"${videoPath}"`,
-      '-vf', `fps=1/${interval}`,
-      '-vframes', numFrames.toString(),
-      '-q:v', '2', // High quality
-      '-f', 'image2',
-      `"${framePattern}"`
-    ].join(' ');
-    
-    await execAsync(ffmpegCommand);
-    
-    // Read extracted frame files
-    const frames: Buffer[] = [];
-    for (let i = 1; i <= numFrames; i++) {
-      const framePath = framePattern.replace('%d', i.toString());
+    let frames: Buffer[] = [];
+    let timestamps: number[] = [];
+    let frameSelection: FrameSelectionReport = { strategy: 'uniform', requestedFrames: numFrames, candidates: [] };
+
+    if (strategy === 'keyframes' && metadata.duration > 0) {
       try {
-        const frameBuffer = await fs.readFile(framePath);
-        frames.push(frameBuffer);
-        // Clean up frame file
-        await fs.unlink(framePath).catch(() => {});
+        const selection = await selectKeyframes(videoPath, metadata.duration, numFrames, options.sceneThreshold ?? 0.08, framePrefix);
+        frames = selection.frames;
+        timestamps = selection.timestamps;
+        frameSelection = selection.report;
       } catch (error) {
-        console.warn(`Could not read frame ${i}:`, error);
+        console.warn('Keyframe selection failed, falling back to uniform sampling:', error);
+        frameSelection.fallbackReason = error instanceof Error ? error.message : 'Keyframe selection failed';
+      }
+    }
+
+    if (frames.length === 0) {
+      const uniform = await selectUniformFrames(videoPath, metadata.duration, numFrames, framePrefix);
+      frames = uniform.frames;
+      timestamps = uniform.timestamps;
+      if (frameSelection.strategy === 'keyframes') {
+        frameSelection = { ...frameSelection, strategy: 'uniform', fallbackReason: 'No keyframe candidates could be scored' };
       }
     }
     
@@ -101,6 +365,7 @@ export async function extractVideoFrames(
       return {
         success: false,
         frames: [],
+        timestamps: [],
         error: 'No frames could be extracted from video'
       };
     }
@@ -108,7 +373,11 @@ export async function extractVideoFrames(
     return {
       success: true,
       frames,
-      metadata
+      timestamps,
+      metadata: {
+        ...metadata,
+        frameSelection
+      }
     };
     
   } catch (error) {
@@ -118,6 +387,7 @@ export async function extractVideoFrames(
     return {
       success: false,
       frames: [],
+      timestamps: [],
       error: `Video processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
   }
@@ -169,6 +439,91 @@ async function getVideoMetadata(videoPath: string): Promise<{
   }
 }
 
+/**
+ * Extract a single frame to use as a video thumbnail
+ * @param videoBuffer - The video file buffer
+ * @param atSeconds - Position of the frame (clamped to the video duration)
+ * @returns JPEG buffer of the frame, or null if no frame could be extracted
+ */
+export async function extractVideoThumbnail(
+  videoBuffer: Buffer,
+  atSeconds: number = 1
+): Promise<Buffer | null> {
+  const tempDir = tmpdir();
+  const stamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const videoPath = path.join(tempDir, `thumb_video_${stamp}.mp4`);
+  const thumbPath = path.join(tempDir, `thumb_${stamp}.jpg`);
+
+  try {
+    await fs.writeFile(videoPath, videoBuffer);
+
+    const metadata = await getVideoMetadata(videoPath);
+    const position = metadata.duration > 0 ? Math.min(atSeconds, metadata.duration / 2) : 0;
+
+    const ffmpegCommand = [
+      'ffmpeg',
+      '-y',
+      '-ss', position.toFixed(2),
+      '-i', `"${videoPath}"`,
+      '-frames:v', '1',
+      '-vf', 'scale=480:-2',
+      '-q:v', '4',
+      `"${thumbPath}"`
+    ].join(' ');
+
+    await execAsync(ffmpegCommand);
+    return await fs.readFile(thumbPath);
+  } catch (error) {
+    console.warn('Could not extract video thumbnail:', error);
+    return null;
+  } finally {
+    await fs.unlink(videoPath).catch(() => {});
+    await fs.unlink(thumbPath).catch(() => {});
+  }
+}
+
+/**
+ * Copy a video without its container and stream metadata (GPS location, device, creation time); streams are not re-encoded
+ * @param videoBuffer - The video file buffer
+ * @param extension - Container extension including the dot, e.g. ".mov"
+ * @returns The stripped video and its dimensions, or null if ffmpeg could not process it
+ */
+export async function stripVideoMetadata(
+  videoBuffer: Buffer,
+  extension: string
+): Promise<{ buffer: Buffer; width: number; height: number } | null> {
+  const tempDir = tmpdir();
+  const stamp = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const inputPath = path.join(tempDir, `strip_in_${stamp}${extension}`);
+  const outputPath = path.join(tempDir, `strip_out_${stamp}${extension}`);
+
+  try {
+    await fs.writeFile(inputPath, videoBuffer);
+
+    const ffmpegCommand = [
+      'ffmpeg',
+      '-y',
+      '-i', `"${inputPath}"`,
+      '-map', '0:v',
+      '-map', '0:a?',
+      '-map_metadata', '-1',
+      '-map_chapters', '-1',
+      '-c', 'copy',
+      `"${outputPath}"`
+    ].join(' ');
+
+    await execAsync(ffmpegCommand);
+    const metadata = await getVideoMetadata(outputPath);
+    return { buffer: await fs.readFile(outputPath), width: metadata.width, height: metadata.height };
+  } catch (error) {
+    console.warn('Could not strip video metadata:', error);
+    return null;
+  } finally {
+    await fs.unlink(inputPath).catch(() => {});
+    await fs.unlink(outputPath).catch(() => {});
+  }
+}
+
 /**
  * Check if ffmpeg is available
  */
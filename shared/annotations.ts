@@ -0,0 +1,139 @@
+import type { Assessment, AssessmentAnnotation, AnnotationKind, FindingBoundingBox, FindingSeverity } from "./schema";
+
+// Finding as displayed once human annotations are applied to the model's findings
+export interface AnnotatedFinding {
+  key: string; // aiFindingKey of the model's finding, or "annotation-<id>" for a region a grader added
+  source: "ai" | "human";
+  annotationId?: string; // Annotation that added or corrected the finding
+  imageIndex: number;
+  category: string;
+  severity: FindingSeverity;
+  description: string;
+  boundingBox?: FindingBoundingBox;
+}
+
+export interface DamageSummary {
+  findingCount: number;
+  severityCounts: Record<FindingSeverity, number>;
+  worstSeverity: FindingSeverity | null;
+  categories: { category: string; count: number; worstSeverity: FindingSeverity }[]; // Worst first
+  annotationCounts: Record<AnnotationKind, number>;
+}
+
+// Only the fields the merge needs, so the client can pass annotations with ISO date strings
+type AnnotationFields = Pick<AssessmentAnnotation,
+  "id" | "kind" | "aiFindingKey" | "imageIndex" | "category" | "severity" | "description" | "x" | "y" | "width" | "height">;
+
+interface StoredFinding {
+  category: string;
+  severity: FindingSeverity;
+  description: string;
+  boundingBox?: FindingBoundingBox;
+}
+
+const severityRank: Record<FindingSeverity, number> = { Low: 0, Medium: 1, High: 2 };
+
+// Stable reference to one of the model's findings: its image and position in that image's findings
+export function aiFindingKey(imageIndex: number, findingIndex: number): string {
+  return `${imageIndex}-${findingIndex}`;
+}
+
+// A human's findings grouped by the image their region is on; findings without a region go on the first image
+function findingsByImage(findings: StoredFinding[]): { imageIndex: number; findings: StoredFinding[] }[] {
+  const imageIndexOf = (finding: StoredFinding) => finding.boundingBox?.imageIndex ?? 1;
+  return Array.from(new Set(findings.map(imageIndexOf)))
+    .sort((a, b) => a - b)
+    .map(imageIndex => ({ imageIndex, findings: findings.filter(finding => imageIndexOf(finding) === imageIndex) }));
+}
+
+/**
+ * The findings annotations apply to, as regions on the images: the per-image findings, the findings a supervisor
+ * replaced them with, or the overall findings on the only image for assessments analyzed before per-image analyses existed
+ */
+export function aiFindings(assessment: Pick<Assessment, "detailedFindings" | "findingsOverriddenAt" | "imageAnalyses">): AnnotatedFinding[] {
+  const detailedFindings = (assessment.detailedFindings as StoredFinding[] | null) || [];
+  const imageAnalyses = (assessment.imageAnalyses as { imageIndex: number; detailedFindings?: StoredFinding[] }[] | null) || [];
+  const perImage = assessment.findingsOverriddenAt
+    ? findingsByImage(detailedFindings)
+    : imageAnalyses.length > 0
+      ? imageAnalyses.map(analysis => ({ imageIndex: analysis.imageIndex, findings: analysis.detailedFindings || [] }))
+      : [{ imageIndex: 1, findings: detailedFindings }];
+
+  return perImage.flatMap(({ imageIndex, findings }) => findings.map((finding, index) => ({
+    key: aiFindingKey(imageIndex, index),
+    source: "ai" as const,
+    imageIndex,
+    category: finding.category,
+    severity: finding.severity,
+    description: finding.description,
+    boundingBox: finding.boundingBox
+  })));
+}
+
+function annotationBox(annotation: AnnotationFields): FindingBoundingBox | undefined {
+  if (annotation.x === null || annotation.y === null || annotation.width === null || annotation.height === null) {
+    return undefined;
+  }
+  return { imageIndex: annotation.imageIndex, x: annotation.x, y: annotation.y, width: annotation.width, height: annotation.height };
+}
+
+function fromAnnotation(annotation: AnnotationFields, key: string): AnnotatedFinding {
+  return {
+    key,
+    source: "human",
+    annotationId: annotation.id,
+    imageIndex: annotation.imageIndex,
+    category: annotation.category,
+    severity: annotation.severity as FindingSeverity,
+    description: annotation.description,
+    boundingBox: annotationBox(annotation)
+  };
+}
+
+/**
+ * Apply human annotations to the model's findings: corrections replace the finding, removals hide it and added regions are appended
+ */
+export function mergeFindings(findings: AnnotatedFinding[], annotations: AnnotationFields[]): AnnotatedFinding[] {
+  const byFinding = new Map(annotations
+    .filter(annotation => annotation.aiFindingKey)
+    .map((annotation): [string, AnnotationFields] => [annotation.aiFindingKey!, annotation]));
+
+  const merged = findings.flatMap(finding => {
+    const annotation = byFinding.get(finding.key);
+    if (!annotation) return [finding];
+    return annotation.kind === "removed" ? [] : [fromAnnotation(annotation, finding.key)];
+  });
+  const added = annotations
+    .filter(annotation => annotation.kind === "added")
+    .map(annotation => fromAnnotation(annotation, `annotation-${annotation.id}`));
+
+  return [...merged, ...added].sort((a, b) => a.imageIndex - b.imageIndex);
+}
+
+export function summarizeDamage(findings: AnnotatedFinding[], annotations: AnnotationFields[]): DamageSummary {
+  const severityCounts: Record<FindingSeverity, number> = { Low: 0, Medium: 0, High: 0 };
+  const categories = new Map<string, { category: string; count: number; worstSeverity: FindingSeverity }>();
+
+  findings.forEach(finding => {
+    severityCounts[finding.severity]++;
+    const entry = categories.get(finding.category) || { category: finding.category, count: 0, worstSeverity: finding.severity };
+    entry.count++;
+    if (severityRank[finding.severity] > severityRank[entry.worstSeverity]) {
+      entry.worstSeverity = finding.severity;
+    }
+    categories.set(finding.category, entry);
+  });
+
+  const worstSeverity = severityCounts.High > 0 ? "High" : severityCounts.Medium > 0 ? "Medium" : severityCounts.Low > 0 ? "Low" : null;
+  const annotationCounts: Record<AnnotationKind, number> = { added: 0, corrected: 0, removed: 0 };
+  annotations.forEach(annotation => annotationCounts[annotation.kind as AnnotationKind]++);
+
+  return {
+    findingCount: findings.length,
+    severityCounts,
+    worstSeverity,
+    categories: Array.from(categories.values())
+      .sort((a, b) => severityRank[b.worstSeverity] - severityRank[a.worstSeverity] || b.count - a.count),
+    annotationCounts
+  };
+}
@@ -1,12 +1,45 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, timestamp, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Assessment lifecycle: PENDING while the model runs, then COMPLETED or ERROR
+export const assessmentStatuses = ["PENDING", "COMPLETED", "ERROR"] as const;
+export const assessmentFailureStages = ["extracting-frames", "calling-model"] as const;
+
+// Human review of uncertain assessments; null reviewStatus means no review was needed
+export const reviewStatuses = ["PENDING_REVIEW", "IN_REVIEW", "APPROVED", "REGRADED"] as const;
+export const reviewRules = ["low-confidence", "high-severity", "processing-error", "grade-disagreement"] as const;
+
+// Vocabulary of detailedFindings, shared by the AI prompt and human annotations
+export const findingCategories = ["Display Lid", "Base/Keyboard Area", "Screen", "Ports/Connectors", "Hinges", "Overall Structure"] as const;
+export const findingSeverities = ["Low", "Medium", "High"] as const;
+
+// How a human annotation relates to the AI findings: a region the model missed, a fix to one of its findings, or a rejected finding
+export const annotationKinds = ["added", "corrected", "removed"] as const;
+
+// Grades from best to worst, and the laptop parts the grading rubric sets criteria for
+export const assessmentGrades = ["A", "B", "C", "D"] as const;
+export const rubricComponents = ["chassis", "screen", "hinges", "keyboard", "ports"] as const;
+
+// Condition the model reports for each rubric component, best first; it reports "not-visible" when no image shows the component
+export const componentConditions = {
+  chassis: ["pristine", "light-wear", "moderate-wear", "heavy-wear", "cracked"],
+  screen: ["pristine", "light-scratches", "moderate-scratches", "heavy-scratches", "cracked"],
+  hinges: ["good", "loose", "broken"],
+  keyboard: ["complete", "worn", "missing-keys"],
+  ports: ["intact", "worn", "damaged"],
+} as const;
+
+// Roles in increasing order of privilege
+export const userRoles = ["technician", "supervisor", "admin"] as const;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  role: text("role").notNull().default("technician"), // technician | supervisor | admin
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
 // Laptop assessment table
@@ -15,10 +48,16 @@ export const assessments = pgTable("assessments", {
   sku: text("sku"), // SKU/ID for the laptop
   brand: text("brand"), 
   model: text("model"),
-  grade: text("grade").notNull(), // A, B, C, D, PENDING
+  grade: text("grade").notNull(), // A, B, C, D, PENDING, ERROR; final grade after any human override
+  aiGrade: text("ai_grade"), // Automated grade (derived by the grade rules), kept when a human overrides it
+  modelGrade: text("model_grade"), // Grade the model suggested before the grade rules were applied
+  status: text("status").notNull().default("COMPLETED"), // One of assessmentStatuses
+  failureReason: text("failure_reason"), // Why the last analysis failed (status ERROR)
+  failureStage: text("failure_stage"), // One of assessmentFailureStages
   confidence: real("confidence"), // 0-1 confidence score
   damageDescription: text("damage_description"),
   detailedFindings: json("detailed_findings"), // Array of finding objects
+  findingsOverriddenAt: timestamp("findings_overridden_at", { withTimezone: true }), // When a human replaced the model's findings; annotations then apply to detailedFindings
   damageTypes: json("damage_types"), // Array of damage type strings
   imageUrl: text("image_url"),
   processingTime: real("processing_time"), // Time taken for AI processing
@@ -33,6 +72,98 @@ export const assessments = pgTable("assessments", {
   videoHeight: real("video_height"), // Video height in pixels
   videoFps: real("video_fps"), // Video frames per second
   framesAnalyzed: real("frames_analyzed"), // Number of frames extracted and analyzed
+  imageAnalyses: json("image_analyses"), // Per-image (or per-frame) analyses from the multi-image pipeline
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }), // Technician who submitted the unit
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewStatus: text("review_status"), // One of reviewStatuses, or null when no review was needed
+  reviewReasons: json("review_reasons"), // reviewRules that routed the assessment into review
+  reviewClaimedBy: varchar("review_claimed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+  componentConditions: json("component_conditions"), // ComponentConditions reported by the model
+  gradeDerivation: json("grade_derivation"), // GradeDerivation: how the grade rules arrived at aiGrade
+  rubricVersion: integer("rubric_version"), // gradingRubrics version the model graded against; null for assessments graded before rubrics were versioned
+  // Model run behind the latest analysis. A cache hit stamps the model and raw response of the call that filled the cache
+  // entry and no token counts, since no model call was made
+  modelName: text("model_name"), // As reported by the provider, e.g. gpt-4o-2024-08-06
+  analysisCache: text("analysis_cache"), // AnalysisCacheStatus of the run: "hit" when it was served from the analysis cache
+  promptVersion: text("prompt_version"), // "<prompt id>@<version>" from the prompt registry (server/prompts.ts)
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  rawModelResponse: text("raw_model_response"), // Model output before validation; only shown to admins
+});
+
+// Uploaded evidence (original photo/video plus generated thumbnail) for an assessment
+export const media = pgTable("media", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id, { onDelete: 'cascade' }),
+  kind: text("kind").notNull(), // 'image' | 'video'
+  position: integer("position").notNull().default(0), // Upload order within the assessment
+  storageBackend: text("storage_backend").notNull(), // 'local' | 's3'
+  storageKey: text("storage_key").notNull(), // Key of the original file in the backend
+  thumbnailKey: text("thumbnail_key"), // Key of the JPEG thumbnail, if one could be generated
+  originalFileName: text("original_file_name"),
+  mimeType: text("mime_type").notNull(),
+  fileSize: real("file_size"), // Size of the stored file in bytes, after metadata was stripped
+  width: integer("width"), // Pixel dimensions of the file as uploaded, before auto-orientation
+  height: integer("height"),
+  orientation: integer("orientation"), // EXIF orientation (1-8) of the uploaded image; the stored copy is already upright
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Damage regions drawn or corrected by graders; kept apart from the model's findings, which are never rewritten
+export const assessmentAnnotations = pgTable("assessment_annotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull().references(() => assessments.id, { onDelete: 'cascade' }),
+  kind: text("kind").notNull(), // One of annotationKinds
+  aiFindingKey: text("ai_finding_key"), // AI finding a correction or removal applies to (see aiFindingKey in shared/annotations.ts)
+  imageIndex: integer("image_index").notNull(), // 1-based image the region is on
+  category: text("category").notNull(), // One of findingCategories
+  severity: text("severity").notNull(), // One of findingSeverities
+  description: text("description").notNull(),
+  // Region as fractions (0-1) of the image; null for a finding that is not tied to a spot on the image
+  x: real("x"),
+  y: real("y"),
+  width: real("width"),
+  height: real("height"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Append-only history of human changes to assessments; rows are never updated or deleted
+export const assessmentAuditLog = pgTable("assessment_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull(), // No foreign key so the history outlives a deleted assessment
+  action: text("action").notNull(), // 'override' | 'delete' | 'review-approve' | 'review-regrade' | 'rerun' | 'annotate'
+  reasonCode: text("reason_code"), // One of gradeOverrideReasons; required for overrides
+  note: text("note"),
+  changes: json("changes"), // { [field]: { from, to } }
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Versions of the grading rubric rendered into the vision prompts; rows are never updated, the highest version is in force
+export const gradingRubrics = pgTable("grading_rubrics", {
+  version: integer("version").primaryKey(), // 1, 2, 3...
+  definition: json("definition").notNull(), // RubricDefinition
+  note: text("note"), // What changed compared to the previous version
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Model output keyed by exactly what was sent to the model, so identical submissions reuse the analysis instead of a new call
+export const analysisCache = pgTable("analysis_cache", {
+  cacheKey: varchar("cache_key").primaryKey(), // SHA-256 of the prepared image bytes, prompt version and model
+  modelName: text("model_name").notNull(), // Model snapshot the provider reported for the stored response
+  promptVersion: text("prompt_version").notNull(),
+  result: json("result").notNull(), // Validated model output, before file names are attached
+  rawResponse: text("raw_response"), // Model output before validation; null for entries saved before raw responses were kept
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  lastHitAt: timestamp("last_hit_at", { withTimezone: true }),
 });
 
 // Chat conversations table
@@ -41,6 +172,8 @@ export const conversations = pgTable("conversations", {
   title: text("title").notNull(), // Generated or user-provided title
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: 'set null' }),
 });
 
 // Chat messages within conversations
@@ -57,6 +190,7 @@ export const conversationMessages = pgTable("conversation_messages", {
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export const insertAssessmentSchema = createInsertSchema(assessments).omit({
@@ -64,6 +198,32 @@ export const insertAssessmentSchema = createInsertSchema(assessments).omit({
   assessmentDate: true,
 });
 
+export const insertMediaSchema = createInsertSchema(media).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAssessmentAnnotationSchema = createInsertSchema(assessmentAnnotations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAssessmentAuditEntrySchema = createInsertSchema(assessmentAuditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalysisCacheEntrySchema = createInsertSchema(analysisCache).omit({
+  hitCount: true,
+  createdAt: true,
+  lastHitAt: true,
+});
+
+export const insertGradingRubricSchema = createInsertSchema(gradingRubrics).omit({
+  createdAt: true,
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   createdAt: true,
@@ -77,15 +237,85 @@ export const insertConversationMessageSchema = createInsertSchema(conversationMe
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles[number];
+export type PublicUser = Omit<User, "password">;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type Assessment = typeof assessments.$inferSelect;
+export type AssessmentStatus = typeof assessmentStatuses[number];
+export type AssessmentFailureStage = typeof assessmentFailureStages[number];
+// Assessment as returned by the API, with the creator's username resolved; the raw model response is only sent to admins
+// (GET /api/assessments/:id/model-run)
+export type PresentedAssessment = Omit<Assessment, "rawModelResponse"> & { createdByName: string | null };
+// Response of GET /api/assessments/:id/model-run (admins)
+export type AssessmentModelRun = Pick<Assessment,
+  "modelName" | "analysisCache" | "promptVersion" | "rubricVersion" | "promptTokens" | "completionTokens" | "totalTokens" | "rawModelResponse">;
+export type InsertAssessmentAuditEntry = z.infer<typeof insertAssessmentAuditEntrySchema>;
+export type AssessmentAuditEntry = typeof assessmentAuditLog.$inferSelect;
+export type AssessmentFieldChanges = Record<string, { from: unknown; to: unknown }>;
+export type InsertAssessmentAnnotation = z.infer<typeof insertAssessmentAnnotationSchema>;
+export type AssessmentAnnotation = typeof assessmentAnnotations.$inferSelect;
+export type AnnotationKind = typeof annotationKinds[number];
+export type FindingCategory = typeof findingCategories[number];
+export type FindingSeverity = typeof findingSeverities[number];
+export type InsertMedia = z.infer<typeof insertMediaSchema>;
+export type Media = typeof media.$inferSelect;
+export type InsertAnalysisCacheEntry = z.infer<typeof insertAnalysisCacheEntrySchema>;
+export type AnalysisCacheEntry = typeof analysisCache.$inferSelect;
+// Whether an upload's analysis came from the cache ('bypass' when the caller forced a fresh model call, 'disabled' when
+// ANALYSIS_CACHE=off)
+export type AnalysisCacheStatus = "hit" | "miss" | "bypass" | "disabled";
+export type InsertGradingRubric = z.infer<typeof insertGradingRubricSchema>;
+export type GradingRubric = typeof gradingRubrics.$inferSelect;
+export type AssessmentGrade = typeof assessmentGrades[number];
+export type RubricComponent = typeof rubricComponents[number];
+export type ComponentCondition<C extends RubricComponent = RubricComponent> = typeof componentConditions[C][number];
+export type ComponentConditions = { [C in RubricComponent]: ComponentCondition<C> | "not-visible" };
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversationMessage = z.infer<typeof insertConversationMessageSchema>;
 export type ConversationMessage = typeof conversationMessages.$inferSelect;
 
+// Where a finding is on an analyzed image: top-left corner and size as fractions (0-1) of the image's width and height
+export interface FindingBoundingBox {
+  imageIndex: number; // 1-based image (or video frame) the box is drawn on
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const findingBoundingBoxSchema = z.object({
+  imageIndex: z.number().int().min(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1)
+});
+
+// One component's part in a rule-derived grade
+export interface GradeRuleStep {
+  component: RubricComponent;
+  condition: ComponentCondition | "not-visible";
+  grade: AssessmentGrade | null; // Best grade the condition allows under the rubric; null when the component was not visible
+  decisive: boolean; // The component's condition set the final grade
+  hardFail?: boolean; // The grade comes from a hard-fail rule on this condition rather than the condition grades
+}
+
+// How the grade rules turned the model's component conditions into the automated grade
+export interface GradeDerivation {
+  rubricVersion: number;
+  grade: AssessmentGrade;
+  modelGrade: AssessmentGrade; // Grade the model suggested
+  source: "rules" | "model"; // "model" when no component was visible and the model's grade was kept
+  agreesWithModel: boolean;
+  steps: GradeRuleStep[]; // One per rubric component, each followed by the hard-fail rules its condition triggered
+}
+
 // Shared types for chatbot functionality
 export interface AssessmentData {
+  assessmentId?: string; // Saved assessment row, when the result was persisted
+  sku?: string;
+  gradedBy?: string; // Username of the technician who submitted the unit
   grade: "A" | "B" | "C" | "D" | "PENDING";
   confidence: number;
   damageTypes: string[];
@@ -94,8 +324,10 @@ export interface AssessmentData {
     category: string;
     severity: "Low" | "Medium" | "High";
     description: string;
+    boundingBox?: FindingBoundingBox;
   }[];
   processingTime: number;
+  analysisCache?: AnalysisCacheStatus; // "hit" when an identical earlier submission's analysis was reused
   mediaUrl: string;
   mediaType?: 'image' | 'video';
   imageAnalyses?: {
@@ -106,9 +338,11 @@ export interface AssessmentData {
       category: string;
       severity: "Low" | "Medium" | "High";
       description: string;
+      boundingBox?: FindingBoundingBox;
     }[];
     originalFileName?: string;
     mediaUrl?: string;
+    timestamp?: number;
   }[];
   videoMetadata?: {
     duration: number;
@@ -164,5 +398,249 @@ export const interpretAssessmentSchema = z.object({
   filename: z.string().optional()
 });
 
+// Region drawn on an image, as fractions of its width and height
+const annotationRegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0.005).max(1),
+  height: z.number().min(0.005).max(1)
+}).refine(
+  region => region.x + region.width <= 1.0001 && region.y + region.height <= 1.0001,
+  { message: "Region must lie inside the image" }
+);
+
+const annotationFieldsSchema = z.object({
+  category: z.enum(findingCategories),
+  severity: z.enum(findingSeverities),
+  description: z.string().trim().min(1).max(1000),
+  region: annotationRegionSchema.nullable()
+});
+
+// Body of POST /api/assessments/:id/annotations. Corrections only send what changed and removals nothing;
+// the rest is taken from the AI finding, and an earlier correction or removal of the same finding is replaced
+export const createAnnotationSchema = annotationFieldsSchema.partial().extend({
+  kind: z.enum(annotationKinds),
+  aiFindingKey: z.string().max(50).optional(), // Required for corrected and removed
+  imageIndex: z.number().int().min(1).optional() // Required for added; taken from the AI finding otherwise
+}).refine(
+  body => body.kind === "added"
+    ? body.imageIndex !== undefined && !!body.region && !!body.category && !!body.severity && !!body.description && !body.aiFindingKey
+    : !!body.aiFindingKey,
+  { message: "Added regions need an imageIndex, region, category, severity and description; corrections and removals need the aiFindingKey" }
+);
+
+// Body of PATCH /api/assessments/:id/annotations/:annotationId (move or relabel)
+export const updateAnnotationSchema = annotationFieldsSchema.partial().refine(
+  body => Object.values(body).some(value => value !== undefined),
+  { message: "Nothing to change" }
+);
+
+export type AnnotationRegion = z.infer<typeof annotationRegionSchema>;
+export type CreateAnnotationRequest = z.infer<typeof createAnnotationSchema>;
+export type UpdateAnnotationRequest = z.infer<typeof updateAnnotationSchema>;
+
+const rubricTextSchema = z.string().trim().min(1).max(500);
+
+// What a grade allows for each component, e.g. keyboard: "Complete, no missing keys"
+const rubricGradeSchema = z.object({
+  grade: z.enum(assessmentGrades),
+  label: z.string().trim().min(1).max(60), // e.g. "Excellent"
+  summary: rubricTextSchema,
+  criteria: z.object({
+    chassis: rubricTextSchema,
+    screen: rubricTextSchema,
+    hinges: rubricTextSchema,
+    keyboard: rubricTextSchema,
+    ports: rubricTextSchema
+  })
+});
+
+// A reported condition that caps the grade whatever else the unit looks like, e.g. keyboard missing-keys -> D
+const rubricHardFailRuleSchema = z.object({
+  component: z.enum(rubricComponents),
+  condition: z.string(), // One of componentConditions[component], so the grade rules can apply it
+  grade: z.enum(assessmentGrades) // Best grade the unit can get when the condition is seen
+}).refine(
+  rule => (componentConditions[rule.component] as readonly string[]).includes(rule.condition),
+  { message: "Pick one of the component's conditions", path: ["condition"] }
+);
+
+const gradeSchema = z.enum(assessmentGrades);
+
+function levelGradesSchema<T extends string>(levels: readonly T[]) {
+  return z.object(Object.fromEntries(levels.map(level => [level, gradeSchema])) as { [K in T]: typeof gradeSchema });
+}
+
+// Best grade each reported condition allows; the grade rules give the unit the worst of these across its components
+const conditionGradesSchema = z.object({
+  chassis: levelGradesSchema(componentConditions.chassis),
+  screen: levelGradesSchema(componentConditions.screen),
+  hinges: levelGradesSchema(componentConditions.hinges),
+  keyboard: levelGradesSchema(componentConditions.keyboard),
+  ports: levelGradesSchema(componentConditions.ports)
+});
+
+// Grading rubric as stored in gradingRubrics.definition: one entry per grade, best first
+export const rubricDefinitionSchema = z.object({
+  grades: z.array(rubricGradeSchema).length(assessmentGrades.length),
+  hardFailRules: z.array(rubricHardFailRuleSchema).max(20),
+  conditionGrades: conditionGradesSchema
+}).refine(
+  definition => definition.grades.every((entry, index) => entry.grade === assessmentGrades[index]),
+  { message: "Grades must be listed once each, from A to D", path: ["grades"] }
+);
+
+// Body of POST /api/rubric (admins), which saves the definition as the next version
+export const createRubricSchema = z.object({
+  baseVersion: z.number().int().min(1), // Version the edit started from; saving fails if someone saved a newer one meanwhile
+  definition: rubricDefinitionSchema,
+  note: z.string().trim().max(500).optional()
+});
+
+export type RubricDefinition = z.infer<typeof rubricDefinitionSchema>;
+export type RubricHardFailRule = z.infer<typeof rubricHardFailRuleSchema>;
+export type RubricConditionGrades = z.infer<typeof conditionGradesSchema>;
+export type CreateRubricRequest = z.infer<typeof createRubricSchema>;
+// Rubric version as returned by the API, with its definition parsed and the author's username resolved
+export type PresentedRubric = Omit<GradingRubric, "definition"> & { definition: RubricDefinition; createdByName: string | null };
+
+// Body of PATCH /api/assessments/:id (human override)
+export const gradeOverrideReasons = [
+  "ai_misgrade",
+  "missed_damage",
+  "false_positive",
+  "image_quality",
+  "physical_inspection",
+  "other",
+] as const;
+
+export const assessmentOverrideSchema = z.object({
+  grade: z.enum(["A", "B", "C", "D"]).optional(),
+  damageDescription: z.string().trim().min(1).max(2000).optional(),
+  damageTypes: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  detailedFindings: z.array(z.object({
+    category: z.string().trim().min(1).max(100),
+    severity: z.enum(["Low", "Medium", "High"]),
+    description: z.string().trim().min(1).max(1000),
+    boundingBox: findingBoundingBoxSchema.optional() // Kept so editing a finding's text does not lose its location
+  })).max(50).optional(),
+  reasonCode: z.enum(gradeOverrideReasons),
+  note: z.string().trim().max(1000).optional()
+}).refine(
+  body => body.grade !== undefined || body.damageDescription !== undefined || body.damageTypes !== undefined || body.detailedFindings !== undefined,
+  { message: "Nothing to change" }
+).refine(
+  body => body.reasonCode !== "other" || !!body.note,
+  { message: "A note is required when the reason is 'other'", path: ["note"] }
+);
+
+export type GradeOverrideReason = typeof gradeOverrideReasons[number];
+
+// Body of POST /api/review/:id/regrade
+export const reviewRegradeSchema = z.object({
+  grade: z.enum(["A", "B", "C", "D"]),
+  reasonCode: z.enum(gradeOverrideReasons),
+  note: z.string().trim().max(1000).optional()
+}).refine(
+  body => body.reasonCode !== "other" || !!body.note,
+  { message: "A note is required when the reason is 'other'", path: ["note"] }
+);
+
+export type ReviewStatus = typeof reviewStatuses[number];
+export type ReviewRule = typeof reviewRules[number];
+export type ReviewRegradeRequest = z.infer<typeof reviewRegradeSchema>;
+
+export interface ReviewCounts {
+  pending: number; // Waiting to be claimed
+  inReview: number; // Claimed by anyone
+  claimedByMe: number;
+}
+export type AssessmentOverrideRequest = z.infer<typeof assessmentOverrideSchema>;
+
+// Auth request bodies
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  role: z.enum(userRoles).optional(),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
+export type LoginRequest = z.infer<typeof loginSchema>;
+export type RegisterUserRequest = z.infer<typeof registerUserSchema>;
+
 export type ChatMessageRequest = z.infer<typeof chatMessageSchema>;
 export type InterpretAssessmentRequest = z.infer<typeof interpretAssessmentSchema>;
+
+// Query parameters of GET /api/assessments/search
+export const assessmentSortFields = ["assessmentDate", "confidence", "grade", "sku"] as const;
+
+const dateParam = z.string().refine(value => !Number.isNaN(Date.parse(value)), { message: "Invalid date" });
+
+export const assessmentSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  grades: z.union([z.string(), z.array(z.string())])
+    .transform(value => (Array.isArray(value) ? value : value.split(",")).filter(Boolean))
+    .optional(),
+  startDate: dateParam.optional(), // Inclusive
+  endDate: dateParam.optional(), // Inclusive; a bare date (YYYY-MM-DD) covers the whole day
+  minConfidence: z.coerce.number().min(0).max(1).optional(),
+  maxConfidence: z.coerce.number().min(0).max(1).optional(),
+  fileType: z.enum(["image", "video"]).optional(),
+  damageType: z.string().trim().min(1).max(100).optional(),
+  mine: z.enum(["true", "false"]).transform(value => value === "true").optional(), // Only the caller's own assessments
+  sort: z.enum(assessmentSortFields).default("assessmentDate"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(), // Opaque value from a previous page's nextCursor
+  limit: z.coerce.number().int().min(1).max(100).default(24)
+});
+
+export type AssessmentSortField = typeof assessmentSortFields[number];
+export type AssessmentSearchQuery = z.input<typeof assessmentSearchQuerySchema>;
+
+export interface AssessmentSearchPage {
+  items: PresentedAssessment[];
+  total: number; // Matches across all pages
+  nextCursor: string | null;
+}
+
+// Pre-flight photo checks run before an image is sent to the model (POST /api/images/quality and every upload)
+export const imageQualityChecks = ["resolution", "sharpness", "exposure", "framing"] as const;
+export const imageQualityGates = ["enforce", "warn", "off"] as const;
+
+export type ImageQualityCheck = typeof imageQualityChecks[number];
+export type ImageQualityGate = typeof imageQualityGates[number];
+export type ImageQualityVerdict = "ok" | "warn" | "reject";
+
+export interface ImageQualityResult {
+  check: ImageQualityCheck;
+  verdict: ImageQualityVerdict;
+  score: number; // Shortest side in px, Laplacian variance, mean brightness (0-255) or share of the frame the subject fills (0-1)
+  message: string | null; // What to change when retaking the photo; null when the check passed
+}
+
+export interface ImageQualityReport {
+  verdict: ImageQualityVerdict; // Worst verdict across the checks
+  width: number;
+  height: number;
+  checks: ImageQualityResult[];
+}
+
+// Response of POST /api/images/quality, one result per file in upload order
+export interface ImageQualityCheckResult {
+  originalFileName: string;
+  quality?: ImageQualityReport;
+  error?: string; // Set when the file is not an image or cannot be decoded
+}
+
+export interface ImageQualityCheckResponse {
+  gate: ImageQualityGate; // Whether rejected photos will be refused on submission
+  results: ImageQualityCheckResult[];
+}